@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CategoryError, mergeCategories } from '@/lib/categories'
+
+// Merge one category into another: { source_id, target_id, keep_aliases? }.
+// The source's items move to the target and the source is deleted. With
+// keep_aliases, the target also answers to the source's name and aliases.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { source_id, target_id, keep_aliases } = body
+
+    if (!source_id || !target_id) {
+      return NextResponse.json({ error: 'Source and target category IDs required' }, { status: 400 })
+    }
+
+    const moved = await mergeCategories(supabase, source_id, target_id, keep_aliases === true)
+
+    return NextResponse.json({ success: true, moved })
+  } catch (error) {
+    if (error instanceof CategoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Merge categories error:', error)
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
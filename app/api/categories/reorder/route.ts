@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { CategoryError, reorderCategories } from '@/lib/categories'
+
+// Reorder a list's categories: { list_id, ids } with every category id in
+// the new order
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { list_id, ids } = body
+
+    if (!list_id) {
+      return NextResponse.json({ error: 'List ID required' }, { status: 400 })
+    }
+    if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+      return NextResponse.json({ error: 'Category IDs required' }, { status: 400 })
+    }
+
+    await reorderCategories(supabase, list_id, ids)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof CategoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Reorder categories error:', error)
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { CategoryError, mergeCategories, readCategoryChanges } from '@/lib/categories'
 
-// Create category
+// Create category. It goes after the list's other categories.
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient()
@@ -18,6 +19,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'List ID required' }, { status: 400 })
     }
 
+    const { data: last } = await supabase
+      .from('categories')
+      .select('sort_order')
+      .eq('list_id', list_id)
+      .order('sort_order', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
     // RLS enforces that the user is a member of the list
     const { data, error } = await supabase
       .from('categories')
@@ -25,6 +34,7 @@ export async function POST(request: NextRequest) {
         name,
         color: color || '#6B7280',
         icon: icon || null,
+        sort_order: last ? last.sort_order + 1 : 0,
         list_id,
         user_id: user.id,
       })
@@ -41,7 +51,57 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Delete category
+// Update category: { id, name?, color?, icon?, aliases? }. Aliases are
+// other names the category answers to when new items are filed
+// automatically.
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json({ error: 'Category ID required' }, { status: 400 })
+    }
+
+    const changes = readCategoryChanges(body)
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('categories')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Category not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    if (error instanceof CategoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
+
+// Delete category. With reassign_to, its items move to that category
+// first (a merge, leaving the target's aliases alone); without, they're
+// left uncategorized.
 export async function DELETE(request: NextRequest) {
   try {
     const supabase = await createClient()
@@ -53,11 +113,17 @@ export async function DELETE(request: NextRequest) {
 
     const { searchParams } = new URL(request.url)
     const id = searchParams.get('id')
+    const reassignTo = searchParams.get('reassign_to')
 
     if (!id) {
       return NextResponse.json({ error: 'Category ID required' }, { status: 400 })
     }
 
+    if (reassignTo) {
+      const moved = await mergeCategories(supabase, id, reassignTo, false)
+      return NextResponse.json({ success: true, moved })
+    }
+
     // RLS restricts category deletion to list owners; filtering by user_id
     // here would silently skip categories created by other list members
     const { data, error } = await supabase
@@ -78,7 +144,11 @@ export async function DELETE(request: NextRequest) {
     }
 
     return NextResponse.json({ success: true })
-  } catch {
+  } catch (error) {
+    if (error instanceof CategoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Delete category error:', error)
     return NextResponse.json({ error: 'Internal error' }, { status: 500 })
   }
 }
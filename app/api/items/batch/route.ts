@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  ItemBatchError,
+  applyItemBatch,
+  batchInverse,
+  readBatchOperations,
+  summarizeBatch,
+} from '@/lib/list-items'
+import { recordOperation } from '@/lib/operations'
+
+// Create, update and delete items in one transaction:
+// { operations: [{ op: 'create', item }, { op: 'update', id, changes }, { op: 'delete', id }] }
+// Returns one result per operation, and an operation id for undo. When an
+// operation fails nothing is written and the response says which one.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const operations = readBatchOperations(body.operations)
+    const results = await applyItemBatch(supabase, operations)
+
+    const operationId = await recordOperation(supabase, {
+      userId: user.id,
+      listId: results[0].item.list_id,
+      kind: 'batch',
+      summary: summarizeBatch(operations),
+      inverse: batchInverse(operations, results),
+    })
+
+    return NextResponse.json({ results, operationId })
+  } catch (error) {
+    if (error instanceof ItemBatchError) {
+      return NextResponse.json({ error: error.message, index: error.index }, { status: error.status })
+    }
+    console.error('Batch items error:', error)
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
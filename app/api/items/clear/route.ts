@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { recordOperation } from '@/lib/operations'
 
-// Clear checked items from a list
+// Clear checked items from a list. The cleared rows are recorded as an
+// operation so the client can offer undo.
 export async function DELETE(request: NextRequest) {
   try {
     const supabase = await createClient()
@@ -18,17 +20,27 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'List ID required' }, { status: 400 })
     }
 
-    const { error } = await supabase
+    const { data: cleared, error } = await supabase
       .from('list_items')
       .delete()
       .eq('list_id', listId)
       .eq('is_checked', true)
+      .select()
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
-    return NextResponse.json({ success: true })
+    const count = cleared?.length ?? 0
+    const operationId = await recordOperation(supabase, {
+      userId: user.id,
+      listId,
+      kind: 'clear_checked',
+      summary: `Cleared ${count} checked ${count === 1 ? 'item' : 'items'}`,
+      inverse: { deleteIds: [], restoreRows: cleared || [] },
+    })
+
+    return NextResponse.json({ success: true, operationId })
   } catch {
     return NextResponse.json({ error: 'Internal error' }, { status: 500 })
   }
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ItemTransferError, transferItems } from '@/lib/list-items'
+
+// Copy items to another list: { item_ids, target_list_id }. The copies are
+// added unchecked, merging into existing items when the target list allows
+// it; categories are matched by name and created when missing.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { item_ids, target_list_id } = body
+
+    if (!Array.isArray(item_ids) || item_ids.length === 0 || !item_ids.every(id => typeof id === 'string')) {
+      return NextResponse.json({ error: 'Item IDs required' }, { status: 400 })
+    }
+    if (!target_list_id) {
+      return NextResponse.json({ error: 'Target list ID required' }, { status: 400 })
+    }
+
+    const result = await transferItems(supabase, user.id, item_ids, target_list_id, 'copy')
+
+    return NextResponse.json({ items: result.items, categories: result.createdCategories })
+  } catch (error) {
+    if (error instanceof ItemTransferError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Copy items error:', error)
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
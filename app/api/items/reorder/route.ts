@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { ItemReorderError, reorderItem } from '@/lib/list-items'
+
+// Move an item within its list: { id, after_id }. after_id is the item it
+// should follow, or null for the top. Other members see the move through
+// the list's realtime channel.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { id, after_id } = body
+
+    if (typeof id !== 'string' || !id) {
+      return NextResponse.json({ error: 'Item ID required' }, { status: 400 })
+    }
+    if (after_id !== null && (typeof after_id !== 'string' || !after_id)) {
+      return NextResponse.json({ error: 'after_id must be an item ID or null' }, { status: 400 })
+    }
+
+    const items = await reorderItem(supabase, id, after_id)
+
+    return NextResponse.json({ items })
+  } catch (error) {
+    if (error instanceof ItemReorderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Reorder item error:', error)
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
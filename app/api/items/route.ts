@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { addOrMergeItems, assignCategories } from '@/lib/list-items'
+import { normalizeQuantityFields } from '@/lib/units'
 
 // Add item
 export async function POST(request: NextRequest) {
@@ -12,26 +14,37 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { name, quantity, notes, category_id, list_id } = body
+    const { name, quantity_value, quantity_unit, notes, category_id, list_id } = body
 
-    const { data, error } = await supabase
-      .from('list_items')
-      .insert({
-        name,
-        quantity: quantity || null,
-        notes: notes || null,
-        category_id: category_id || null,
-        list_id,
-        user_id: user.id,
-      })
-      .select()
-      .single()
+    if (!list_id) {
+      return NextResponse.json({ error: 'List ID required' }, { status: 400 })
+    }
 
-    if (error) {
-      return NextResponse.json({ error: error.message }, { status: 400 })
+    const quantity = normalizeQuantityFields(quantity_value, quantity_unit)
+    if (!quantity) {
+      return NextResponse.json({ error: 'Invalid quantity' }, { status: 400 })
     }
 
-    return NextResponse.json(data)
+    // Merges into an existing unchecked item of the same name when the
+    // list allows it; the status tells the client which happened. Without
+    // a category_id the item is filed from the grocery taxonomy.
+    try {
+      const items = await assignCategories(supabase, list_id, [
+        {
+          name,
+          ...quantity,
+          notes: notes || null,
+          category_id: category_id === undefined ? undefined : category_id || null,
+        },
+      ])
+      const [result] = await addOrMergeItems(supabase, list_id, user.id, items)
+      return NextResponse.json({ status: result.status, item: result.item })
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to add item' },
+        { status: 400 }
+      )
+    }
   } catch {
     return NextResponse.json({ error: 'Internal error' }, { status: 500 })
   }
@@ -80,7 +93,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { id, is_checked, name, quantity, notes, category_id } = body
+    const { id, is_checked, name, quantity_value, quantity_unit, notes, category_id } = body
 
     if (!id) {
       return NextResponse.json({ error: 'Item ID required' }, { status: 400 })
@@ -89,7 +102,13 @@ export async function PATCH(request: NextRequest) {
     const updates: Record<string, unknown> = {}
     if (is_checked !== undefined) updates.is_checked = is_checked
     if (name !== undefined) updates.name = name
-    if (quantity !== undefined) updates.quantity = quantity
+    if (quantity_value !== undefined || quantity_unit !== undefined) {
+      const quantity = normalizeQuantityFields(quantity_value, quantity_unit)
+      if (!quantity) {
+        return NextResponse.json({ error: 'Invalid quantity' }, { status: 400 })
+      }
+      Object.assign(updates, quantity)
+    }
     if (notes !== undefined) updates.notes = notes
     if (category_id !== undefined) updates.category_id = category_id
 
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { rankSuggestions, type CatalogEntry, type ItemSuggestion } from '@/lib/item-catalog'
+
+/** Catalog rows read per request by use and by recency, before ranking */
+const CANDIDATE_LIMIT = 50
+
+// Items from the user's catalog matching q, for the add-item form. With a
+// listId, each suggestion's category is matched by name on that list.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const q = searchParams.get('q')?.trim() ?? ''
+    const listId = searchParams.get('listId')
+
+    // Matches are filtered and their strongest kind picked in SQL, most used
+    // and most recent both, so the ranking below sees the likely winners
+    const { data, error } = await supabase.rpc('search_item_catalog', { query: q, max_rows: CANDIDATE_LIMIT })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    const categoryIds = new Map<string, string>()
+    if (listId) {
+      const { data: categories } = await supabase
+        .from('categories')
+        .select('id, name')
+        .eq('list_id', listId)
+
+      for (const category of categories || []) {
+        categoryIds.set(category.name.toLowerCase(), category.id)
+      }
+    }
+
+    const suggestions: ItemSuggestion[] = rankSuggestions((data || []) as CatalogEntry[], q).map(entry => ({
+      ...entry,
+      category_id: (entry.category_name && categoryIds.get(entry.category_name.toLowerCase())) || null,
+    }))
+
+    return NextResponse.json(suggestions)
+  } catch {
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
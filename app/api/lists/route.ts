@@ -49,7 +49,7 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Update list (archive/restore, rename)
+// Update list (archive/restore, rename, settings)
 export async function PATCH(request: NextRequest) {
   try {
     const supabase = await createClient()
@@ -60,7 +60,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { id, name, description, is_active } = body
+    const { id, name, description, is_active, merge_duplicates, auto_categorize, store_id } = body
 
     if (!id) {
       return NextResponse.json({ error: 'List ID required' }, { status: 400 })
@@ -70,11 +70,28 @@ export async function PATCH(request: NextRequest) {
     if (name !== undefined) updates.name = name
     if (description !== undefined) updates.description = description
     if (is_active !== undefined) updates.is_active = is_active
+    if (merge_duplicates !== undefined) updates.merge_duplicates = Boolean(merge_duplicates)
+    if (auto_categorize !== undefined) updates.auto_categorize = Boolean(auto_categorize)
+    if (store_id !== undefined) updates.store_id = store_id || null
 
     if (Object.keys(updates).length === 0) {
       return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
     }
 
+    // A store the caller can't see can't be attached: that would hand its
+    // layout to the list's members
+    if (updates.store_id) {
+      const { data: store } = await supabase
+        .from('stores')
+        .select('id')
+        .eq('id', updates.store_id)
+        .maybeSingle()
+
+      if (!store) {
+        return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+      }
+    }
+
     const { error } = await supabase
       .from('grocery_lists')
       .update(updates)
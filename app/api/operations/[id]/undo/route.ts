@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { createClient } from '@/lib/supabase/server'
+import { undoOperation, UndoError } from '@/lib/operations'
+
+// Undo a recorded voice command or bulk operation. Returns the ids of rows
+// removed and the rows restored so clients can patch their state.
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const result = await undoOperation(supabase, user.id, id)
+
+    revalidatePath('/dashboard')
+
+    return NextResponse.json({
+      success: true,
+      message: `Undid: ${result.summary}`,
+      listId: result.listId,
+      deletedIds: result.deletedIds,
+      restored: result.restored,
+    })
+  } catch (error) {
+    if (error instanceof UndoError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Undo error:', error)
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
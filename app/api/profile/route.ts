@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { VOICE_LANGUAGES, type VoiceLanguage } from '@/lib/language-packs'
+
+// Update the signed-in user's own profile settings
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { voice_language } = body
+
+    const updates: Record<string, unknown> = {}
+    if (voice_language !== undefined) {
+      if (!VOICE_LANGUAGES.includes(voice_language as VoiceLanguage)) {
+        return NextResponse.json({ error: 'Unsupported voice language' }, { status: 400 })
+      }
+      updates.voice_language = voice_language
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const { error } = await supabase
+      .from('profiles')
+      .update(updates)
+      .eq('id', user.id)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch {
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { DEFAULT_LAYOUT, readLayout } from '@/lib/store-route'
+
+// Stores the user can see: their own, and those their shared lists use
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('stores')
+      .select('id, user_id, name, layout')
+      .order('name')
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ data })
+  } catch {
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
+
+// Create store: { name, layout? }. Without a layout it starts from a
+// typical supermarket walk.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    if (!name) {
+      return NextResponse.json({ error: 'Store name required' }, { status: 400 })
+    }
+
+    const layout = body.layout === undefined ? DEFAULT_LAYOUT : readLayout(body.layout)
+    if (!layout) {
+      return NextResponse.json({ error: 'Layout must be a list of section names' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('stores')
+      .insert({ name, layout, user_id: user.id })
+      .select('id, user_id, name, layout')
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ data })
+  } catch {
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
+
+// Update store: { id, name?, layout? }
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { id } = body
+
+    if (!id) {
+      return NextResponse.json({ error: 'Store ID required' }, { status: 400 })
+    }
+
+    const updates: Record<string, unknown> = {}
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : ''
+      if (!name) {
+        return NextResponse.json({ error: 'Store name required' }, { status: 400 })
+      }
+      updates.name = name
+    }
+    if (body.layout !== undefined) {
+      const layout = readLayout(body.layout)
+      if (!layout) {
+        return NextResponse.json({ error: 'Layout must be a list of section names' }, { status: 400 })
+      }
+      updates.layout = layout
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'No fields to update' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('stores')
+      .update(updates)
+      .eq('id', id)
+      .select('id, user_id, name, layout')
+      .maybeSingle()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (!data) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ data })
+  } catch {
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Store ID required' }, { status: 400 })
+    }
+
+    // Lists shopped there drop back to no store
+    const { error } = await supabase
+      .from('stores')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch {
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { finishTrips, type ShoppingTrip } from '@/lib/store-route'
+
+const TRIP_COLUMNS = 'id, list_id, store_id, check_order, ended_at'
+
+// Start a trip: { list_id, store_id }. The user must be a member of the
+// list and able to see the store, since its layout learns from the trip.
+// Any trip the user left open on the list ends first, so its store still
+// learns from it.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { list_id, store_id } = body
+
+    if (!list_id || !store_id) {
+      return NextResponse.json({ error: 'List ID and store ID required' }, { status: 400 })
+    }
+
+    const [{ data: share, error: shareError }, { data: store, error: storeError }] = await Promise.all([
+      supabase.from('list_shares').select('list_id').eq('list_id', list_id).eq('user_id', user.id).maybeSingle(),
+      supabase.from('stores').select('id').eq('id', store_id).maybeSingle(),
+    ])
+
+    const accessError = shareError ?? storeError
+    if (accessError) {
+      return NextResponse.json({ error: accessError.message }, { status: 400 })
+    }
+    if (!share) {
+      return NextResponse.json({ error: "You don't have access to that list" }, { status: 403 })
+    }
+    if (!store) {
+      return NextResponse.json({ error: 'Store not found' }, { status: 404 })
+    }
+
+    const { data: openTrips, error: openError } = await supabase
+      .from('shopping_trips')
+      .select(TRIP_COLUMNS)
+      .eq('user_id', user.id)
+      .eq('list_id', list_id)
+      .is('ended_at', null)
+
+    if (openError) {
+      return NextResponse.json({ error: openError.message }, { status: 400 })
+    }
+
+    await finishTrips(supabase, (openTrips ?? []) as ShoppingTrip[])
+
+    const { data, error } = await supabase
+      .from('shopping_trips')
+      .insert({ list_id, store_id, user_id: user.id })
+      .select(TRIP_COLUMNS)
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json({ data })
+  } catch {
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
+
+// Record a check-off or end a trip: { id, section?, end? }
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { id, section, end } = body
+
+    if (!id) {
+      return NextResponse.json({ error: 'Trip ID required' }, { status: 400 })
+    }
+
+    if (section !== undefined && (typeof section !== 'string' || !section.trim())) {
+      return NextResponse.json({ error: 'Section must be a name' }, { status: 400 })
+    }
+
+    const { data: trip, error: tripError } = await supabase
+      .from('shopping_trips')
+      .select(TRIP_COLUMNS)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (tripError) {
+      return NextResponse.json({ error: tripError.message }, { status: 400 })
+    }
+
+    if (!trip || trip.ended_at) {
+      return NextResponse.json({ error: 'Trip not found or already ended' }, { status: 404 })
+    }
+
+    const current = trip as ShoppingTrip
+
+    // Only the order sections are entered in matters, so a run of check-offs
+    // in one section is recorded once. The append and that check happen in
+    // one statement, so concurrent check-offs don't overwrite each other.
+    if (section !== undefined) {
+      const { data: checkOrder, error } = await supabase.rpc('record_trip_section', {
+        trip_id: id,
+        section: section.trim(),
+      })
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      current.check_order = checkOrder ?? current.check_order
+    }
+
+    if (end) {
+      await finishTrips(supabase, [current])
+    }
+
+    return NextResponse.json({ success: true })
+  } catch {
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
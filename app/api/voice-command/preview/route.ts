@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import {
+  ClarificationNeeded,
+  createClarificationToken,
+  createPlanToken,
+  describeVoicePlan,
+  loadLanguagePack,
+  planVoiceRequest,
+  readVoiceRequest,
+  runVoiceRequest,
+  takeVoiceCommand,
+  VoiceCommandError,
+  type VoiceContext,
+} from '@/lib/voice-commands'
+import { logVoiceCommand } from '@/lib/voice-history'
+
+// Dry run of a voice command: same body as /api/voice-command, but only
+// resolves the list and items and describes what would happen, one step per
+// spoken command. Nothing is written. Confirm by posting the returned planToken to /api/voice-command.
+// Questions need no confirmation and are answered right away.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    if (!body.transcript && !body.alternatives && !body.token) {
+      return NextResponse.json(
+        { error: 'No transcript provided' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const limit = takeVoiceCommand(user.id)
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many voice commands. Wait a moment and try again.' },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) } }
+      )
+    }
+
+    const ctx: VoiceContext = {
+      supabase,
+      userId: user.id,
+      language: await loadLanguagePack(supabase, user.id),
+    }
+    const voiceRequest = await readVoiceRequest(ctx, body)
+
+    try {
+      // Questions only read; the answer is meant to be spoken back
+      if (voiceRequest.commands.every(command => command.action === 'query')) {
+        const { message, answer } = await runVoiceRequest(ctx, voiceRequest)
+        await logVoiceCommand(ctx, voiceRequest, { outcome: 'answered', message })
+        return NextResponse.json({ success: true, message, answer, transcript: voiceRequest.transcript })
+      }
+
+      const plans = await planVoiceRequest(ctx, voiceRequest)
+      const summary = plans.map(plan => describeVoicePlan(plan, ctx.language)).join('; ')
+      await logVoiceCommand(ctx, voiceRequest, { outcome: 'previewed', message: summary })
+
+      return NextResponse.json({
+        preview: {
+          summary,
+          steps: plans.map(plan => ({
+            summary: describeVoicePlan(plan, ctx.language),
+            action: plan.action,
+            list: plan.list,
+            additions: plan.additions,
+            targets: plan.targets,
+          })),
+        },
+        planToken: createPlanToken(ctx, plans, voiceRequest),
+        transcript: voiceRequest.transcript,
+      })
+    } catch (error) {
+      if (error instanceof ClarificationNeeded) {
+        await logVoiceCommand(ctx, voiceRequest, { outcome: 'clarification', message: error.question })
+        return NextResponse.json({
+          needsClarification: {
+            question: error.question,
+            options: error.options,
+            token: createClarificationToken(ctx, voiceRequest, error),
+          },
+        })
+      }
+      await logVoiceCommand(ctx, voiceRequest, {
+        outcome: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      })
+      throw error
+    }
+  } catch (error) {
+    if (error instanceof VoiceCommandError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('Voice preview error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to preview command' },
+      { status: 500 }
+    )
+  }
+}
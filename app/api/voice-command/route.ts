@@ -1,29 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { revalidatePath } from 'next/cache'
-import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
-import { parseVoiceCommand, formatCommandSummary } from '@/lib/voice-parser'
-
+import { formatCommandSummary } from '@/lib/voice-parser'
+import {
+  applyVoicePlans,
+  ClarificationNeeded,
+  createClarificationToken,
+  describeVoicePlan,
+  loadLanguagePack,
+  readPlanToken,
+  readVoiceRequest,
+  runVoiceRequest,
+  takeVoiceCommand,
+  VoiceCommandError,
+  type VoiceContext,
+} from '@/lib/voice-commands'
+import { logVoiceCommand } from '@/lib/voice-history'
+
+// Run a voice command. Either { transcript, alternatives?, listId? } for a
+// new command (alternatives: the recognizer's guesses with confidences; the
+// best fit for the user's items runs and comes back as transcript),
+// { token, choice | choiceText } to answer a needsClarification response, or
+// { planToken } to apply a plan returned by /api/voice-command/preview
+// (once: a token that was already applied is refused).
+// A transcript may hold several commands ("add milk and check off bread");
+// they run in order and either all apply or none do. Questions ("is milk on
+// my list") come back as a spoken-friendly answer. Every request is logged
+// to the voice history.
 export async function POST(request: NextRequest) {
   try {
-    const { transcript, listId } = await request.json()
+    const body = await request.json()
 
-    if (!transcript) {
+    if (!body.transcript && !body.alternatives && !body.token && !body.planToken) {
       return NextResponse.json(
         { error: 'No transcript provided' },
         { status: 400 }
       )
     }
 
-    // Clean transcript - remove trailing punctuation from speech recognition
-    const cleanedTranscript = transcript.trim().replace(/[.,!?;:]+$/, '')
-    console.log('Original transcript:', transcript)
-    console.log('Cleaned transcript:', cleanedTranscript)
-
-    // Parse the voice command
-    const command = parseVoiceCommand(cleanedTranscript)
-    console.log('Parsed command:', command)
-
     // Get authenticated user
     const supabase = await createClient()
     const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -35,107 +49,81 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Determine target list
-    let targetListId = listId
-    let targetListName = ''
+    const limit = takeVoiceCommand(user.id)
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many voice commands. Wait a moment and try again.' },
+        { status: 429, headers: { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) } }
+      )
+    }
 
-    if (!targetListId) {
-      if (command.targetList) {
-        // User specified a list by name - find it
-        const { data: namedList } = await supabase
-          .from('grocery_lists')
-          .select('id, name')
-          .eq('user_id', user.id)
-          .ilike('name', `%${command.targetList}%`)
-          .single()
+    const ctx: VoiceContext = {
+      supabase,
+      userId: user.id,
+      language: await loadLanguagePack(supabase, user.id),
+    }
 
-        if (namedList) {
-          targetListId = namedList.id
-          targetListName = namedList.name
-        } else {
-          return NextResponse.json(
-            { error: `Could not find a list matching "${command.targetList}"` },
-            { status: 400 }
-          )
-        }
-      }
+    if (body.planToken) {
+      const { plans, request: previewed, nonce } = readPlanToken(ctx, body.planToken)
+      const { message, operationId, itemIds } = await applyVoicePlans(ctx, plans, nonce).catch(async error => {
+        await logVoiceCommand(ctx, previewed, { outcome: 'failed', error: errorMessage(error) })
+        throw error
+      })
+      await logVoiceCommand(ctx, previewed, { outcome: 'applied', message, itemIds, operationId })
+
+      revalidatePath('/dashboard')
+
+      return NextResponse.json({
+        success: true,
+        message,
+        operationId,
+        command: plans.map(plan => describeVoicePlan(plan, ctx.language)).join('; '),
+      })
+    }
 
-      // Fallback to default active list
-      if (!targetListId) {
-        const { data: activeList } = await supabase
-          .from('grocery_lists')
-          .select('id, name')
-          .eq('user_id', user.id)
-          .eq('is_active', true)
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .single()
+    const voiceRequest = await readVoiceRequest(ctx, body)
 
-        if (!activeList) {
-          return NextResponse.json(
-            { error: 'No active shopping list found. Create a list first!' },
-            { status: 400 }
-          )
-        }
+    try {
+      const { message, operationId, answer, itemIds } = await runVoiceRequest(ctx, voiceRequest)
+      await logVoiceCommand(ctx, voiceRequest, {
+        outcome: answer && !operationId ? 'answered' : 'applied',
+        message,
+        itemIds,
+        operationId,
+      })
 
-        targetListId = activeList.id
-        targetListName = activeList.name
+      // Revalidate the dashboard to show updated data
+      if (operationId) {
+        revalidatePath('/dashboard')
       }
-    } else {
-      // If listId was provided, get the list name
-      const { data: list } = await supabase
-        .from('grocery_lists')
-        .select('name')
-        .eq('id', targetListId)
-        .single()
 
-      if (list) {
-        targetListName = list.name
+      return NextResponse.json({
+        success: true,
+        message,
+        operationId,
+        answer,
+        transcript: voiceRequest.transcript,
+        command: voiceRequest.commands.map(formatCommandSummary).join('; '),
+      })
+    } catch (error) {
+      if (error instanceof ClarificationNeeded) {
+        await logVoiceCommand(ctx, voiceRequest, { outcome: 'clarification', message: error.question })
+        return NextResponse.json({
+          needsClarification: {
+            question: error.question,
+            options: error.options,
+            token: createClarificationToken(ctx, voiceRequest, error),
+          },
+        })
       }
+      await logVoiceCommand(ctx, voiceRequest, { outcome: 'failed', error: errorMessage(error) })
+      throw error
     }
-
-    // Execute the command
-    let result: string
-
-    switch (command.action) {
-      case 'add':
-        result = await addItems(supabase, targetListId, command.items)
-        break
-
-      case 'complete':
-        result = await toggleItems(supabase, targetListId, command.items, true)
-        break
-
-      case 'uncomplete':
-        result = await toggleItems(supabase, targetListId, command.items, false)
-        break
-
-      case 'remove':
-        result = await removeItems(supabase, targetListId, command.items)
-        break
-
-      default:
-        return NextResponse.json(
-          { error: 'Unknown action' },
-          { status: 400 }
-        )
+  } catch (error) {
+    if (error instanceof VoiceCommandError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
     }
 
-    // Format message with list name
-    const messageWithList = targetListName
-      ? `${result} to "${targetListName}"`
-      : result
-
-    // Revalidate the dashboard to show updated data
-    revalidatePath('/dashboard')
-
-    return NextResponse.json({
-      success: true,
-      message: messageWithList,
-      command: formatCommandSummary(command),
-    })
-
-  } catch (error) {
     console.error('Voice command error:', error)
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to process command' },
@@ -144,136 +132,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-/**
- * Add items to the list
- */
-async function addItems(
-  supabase: SupabaseClient,
-  listId: string,
-  items: { name: string; quantity?: number; unit?: string }[]
-) {
-  // Get user_id from the list
-  const { data: listData } = await supabase
-    .from('grocery_lists')
-    .select('user_id')
-    .eq('id', listId)
-    .single()
-
-  if (!listData) {
-    throw new Error('List not found')
-  }
-
-  const itemsToInsert = items.map(item => {
-    // Format quantity as string (e.g., "3", "2 lbs")
-    let quantityStr = null
-    if (item.quantity && item.unit) {
-      quantityStr = `${item.quantity} ${item.unit}`
-    } else if (item.quantity && item.quantity > 1) {
-      quantityStr = `${item.quantity}`
-    }
-
-    return {
-      list_id: listId,
-      user_id: listData.user_id,
-      name: item.name,
-      quantity: quantityStr,
-      is_checked: false,
-    }
-  })
-
-  const { data, error } = await supabase
-    .from('list_items')
-    .insert(itemsToInsert)
-    .select()
-
-  if (error) {
-    throw new Error(`Failed to add items: ${error.message}`)
-  }
-
-  if (!data || data.length === 0) {
-    throw new Error('Items were not inserted')
-  }
-
-  const count = items.length
-  return `Added ${count} ${count === 1 ? 'item' : 'items'}`
-}
-
-/**
- * Toggle items checked/unchecked
- */
-async function toggleItems(
-  supabase: SupabaseClient,
-  listId: string,
-  items: { name: string }[],
-  checked: boolean
-) {
-  let updatedCount = 0
-
-  for (const item of items) {
-    // Find items by name (case-insensitive)
-    const { data: matchingItems } = await supabase
-      .from('list_items')
-      .select('id')
-      .eq('list_id', listId)
-      .ilike('name', item.name)
-
-    if (matchingItems && matchingItems.length > 0) {
-      const ids = matchingItems.map((i: { id: string }) => i.id)
-
-      const { error } = await supabase
-        .from('list_items')
-        .update({ is_checked: checked })
-        .in('id', ids)
-
-      if (!error) {
-        updatedCount += matchingItems.length
-      }
-    }
-  }
-
-  if (updatedCount === 0) {
-    throw new Error('No matching items found')
-  }
-
-  const action = checked ? 'Checked off' : 'Unchecked'
-  return `${action} ${updatedCount} ${updatedCount === 1 ? 'item' : 'items'}`
-}
-
-/**
- * Remove items from the list
- */
-async function removeItems(
-  supabase: SupabaseClient,
-  listId: string,
-  items: { name: string }[]
-) {
-  let deletedCount = 0
-
-  for (const item of items) {
-    // Find items by name (case-insensitive)
-    const { data: matchingItems } = await supabase
-      .from('list_items')
-      .select('id')
-      .eq('list_id', listId)
-      .ilike('name', item.name)
-
-    if (matchingItems && matchingItems.length > 0) {
-      const ids = matchingItems.map((i: { id: string }) => i.id)
-
-      const { error } = await supabase
-        .from('list_items')
-        .delete()
-        .in('id', ids)
-
-      if (!error) {
-        deletedCount += matchingItems.length
-      }
-    }
-  }
-
-  if (deletedCount === 0) {
-    throw new Error('No matching items found')
-  }
-
-  return `Removed ${deletedCount} ${deletedCount === 1 ? 'item' : 'items'}`
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
 }
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { readExpectedParse, VoiceHistoryError } from '@/lib/voice-history'
+
+// Correct a past voice command: { corrected_transcript, corrected_parsed }
+// are what the user meant and the parse they confirmed for it (see
+// ExpectedCommand). The export checks the original transcript parses that
+// way. An empty corrected_transcript clears the correction.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    if (typeof body.corrected_transcript !== 'string') {
+      return NextResponse.json({ error: 'corrected_transcript is required' }, { status: 400 })
+    }
+
+    // Same clean-up as spoken transcripts get
+    const corrected = body.corrected_transcript.trim().replace(/[.,!?;:]+$/, '')
+    const expected = corrected ? readExpectedParse(body.corrected_parsed) : null
+
+    const { data: entry } = await supabase
+      .from('voice_commands')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Voice command not found' }, { status: 404 })
+    }
+
+    const { data, error } = await supabase
+      .from('voice_commands')
+      .update({
+        corrected_transcript: corrected || null,
+        corrected_parsed: expected,
+      })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(data)
+  } catch (error) {
+    if (error instanceof VoiceHistoryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
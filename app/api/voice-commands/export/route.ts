@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { formatParserTests } from '@/lib/voice-history'
+
+// Download the user's corrected voice commands as a vitest file of parser
+// test cases, ready to drop into lib/
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('voice_commands')
+      .select('language, cleaned_transcript, corrected_parsed, created_at')
+      .eq('user_id', user.id)
+      .not('corrected_parsed', 'is', null)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'No corrected voice commands to export' }, { status: 404 })
+    }
+
+    return new NextResponse(formatParserTests(data), {
+      headers: {
+        'Content-Type': 'text/typescript; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="voice-parser.corrections.test.ts"',
+      },
+    })
+  } catch {
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
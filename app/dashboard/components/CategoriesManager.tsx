@@ -6,7 +6,15 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card } from '@/components/ui/card'
-import { Trash2, Plus, AlertCircle } from 'lucide-react'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Trash2, Plus, AlertCircle, Pencil, ArrowUp, ArrowDown } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 
 type Category = {
@@ -14,6 +22,7 @@ type Category = {
   name: string
   color: string
   icon: string | null
+  aliases: string[]
 }
 
 const PRESET_COLORS = [
@@ -26,47 +35,102 @@ const PRESET_COLORS = [
   '#6B7280', // Gray
 ]
 
+/** The edit form's fields; aliases as typed, comma separated */
+type CategoryEdits = Pick<Category, 'id' | 'name' | 'color' | 'icon'> & { aliases: string }
+
 const PRESET_ICONS = ['🥬', '🥛', '🍖', '🍞', '🧀', '🍎', '🥫', '🧊', '🧴', '🍫']
 
 export function CategoriesManager({ listId }: { listId: string }) {
   const router = useRouter()
   const [categories, setCategories] = useState<Category[]>([])
+  // Items per category id, to say what a delete or merge will move
+  const [itemCounts, setItemCounts] = useState<Map<string, number>>(new Map())
   const [loading, setLoading] = useState(true)
   const [newName, setNewName] = useState('')
   const [selectedColor, setSelectedColor] = useState(PRESET_COLORS[0])
   const [selectedIcon, setSelectedIcon] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  // The category open for editing, with its fields as typed so far
+  const [editing, setEditing] = useState<CategoryEdits | null>(null)
+  const [mergeTarget, setMergeTarget] = useState('')
+  // Whether the merge target also takes on the merged category's names
+  const [keepAliases, setKeepAliases] = useState(false)
+  // The category being deleted, and where its items should go
+  const [deleting, setDeleting] = useState<{ id: string; reassignTo: string } | null>(null)
 
   const fetchCategories = useCallback(async () => {
     const supabase = createClient()
 
-    const { data, error } = await supabase
-      .from('categories')
-      .select('*')
-      .eq('list_id', listId)
-      .order('name')
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('list_id', listId)
+        .order('sort_order')
+        .order('name')
+
+      if (error) throw error
 
-    if (error) {
+      const { data: items } = await supabase
+        .from('list_items')
+        .select('category_id')
+        .eq('list_id', listId)
+        .not('category_id', 'is', null)
+
+      const counts = new Map<string, number>()
+      for (const item of items || []) {
+        counts.set(item.category_id, (counts.get(item.category_id) ?? 0) + 1)
+      }
+      setCategories(data || [])
+      setItemCounts(counts)
+    } catch {
       setError('Failed to load categories')
+    } finally {
+      setLoading(false)
     }
-    setCategories(data || [])
-    setLoading(false)
   }, [listId])
 
   useEffect(() => {
     fetchCategories()
   }, [fetchCategories])
 
+  // Send a change, then reload here and in the open list. Returns whether
+  // it went through.
+  async function sendChange(url: string, init: RequestInit, failure: string): Promise<boolean> {
+    setError(null)
+
+    try {
+      const response = await fetch(url, init)
+
+      if (response.status === 401) {
+        router.push('/auth/signin')
+        return false
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setError(data.error || failure)
+        return false
+      }
+
+      fetchCategories()
+      window.dispatchEvent(new CustomEvent('categories-changed'))
+      return true
+    } catch {
+      setError(`${failure}. Check your connection.`)
+      return false
+    }
+  }
+
   async function handleCreate(e: React.FormEvent) {
     e.preventDefault()
     if (!newName.trim() || isSubmitting) return
 
-    setError(null)
     setIsSubmitting(true)
-
-    try {
-      const response = await fetch('/api/categories', {
+    const created = await sendChange(
+      '/api/categories',
+      {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -75,50 +139,109 @@ export function CategoriesManager({ listId }: { listId: string }) {
           icon: selectedIcon || null,
           list_id: listId,
         }),
-      })
-
-      if (response.status === 401) {
-        router.push('/auth/signin')
-        return
-      }
-
-      if (!response.ok) {
-        setError('Failed to create category')
-        return
-      }
+      },
+      'Failed to create category'
+    )
+    setIsSubmitting(false)
 
+    if (created) {
       setNewName('')
       setSelectedIcon('')
-      fetchCategories()
-    } catch {
-      setError('Failed to create category. Check your connection.')
-    } finally {
-      setIsSubmitting(false)
     }
   }
 
-  async function handleDelete(categoryId: string) {
-    if (confirm('Delete this category? Items will not be deleted.')) {
-      try {
-        const response = await fetch(`/api/categories?id=${categoryId}`, {
-          method: 'DELETE',
-        })
-
-        if (response.status === 401) {
-          router.push('/auth/signin')
-          return
-        }
-
-        if (!response.ok) {
-          setError('Failed to delete category')
-          return
-        }
-
-        fetchCategories()
-      } catch {
-        setError('Failed to delete category. Check your connection.')
-      }
+  function startEditing(category: Category) {
+    setDeleting(null)
+    setMergeTarget('')
+    setKeepAliases(false)
+    setEditing({
+      id: category.id,
+      name: category.name,
+      color: category.color,
+      icon: category.icon,
+      aliases: category.aliases.join(', '),
+    })
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault()
+    if (!editing || !editing.name.trim()) return
+
+    const saved = await sendChange(
+      '/api/categories',
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: editing.id,
+          name: editing.name,
+          color: editing.color,
+          icon: editing.icon,
+          aliases: editing.aliases.split(','),
+        }),
+      },
+      'Failed to save category'
+    )
+    if (saved) setEditing(null)
+  }
+
+  async function handleMerge(source: Category) {
+    const target = categories.find(category => category.id === mergeTarget)
+    if (!target) return
+    if (!confirm(`Move everything in "${source.name}" to "${target.name}" and remove "${source.name}"?`)) return
+
+    const merged = await sendChange(
+      '/api/categories/merge',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source_id: source.id, target_id: target.id, keep_aliases: keepAliases }),
+      },
+      'Failed to merge categories'
+    )
+    if (merged) setEditing(null)
+  }
+
+  // Categories without items go right away; otherwise ask where the
+  // items should go first
+  function startDeleting(category: Category) {
+    setEditing(null)
+    if (!itemCounts.get(category.id)) {
+      if (confirm(`Delete "${category.name}"?`)) handleDelete(category.id, 'none')
+      return
     }
+    setDeleting({ id: category.id, reassignTo: 'none' })
+  }
+
+  async function handleDelete(categoryId: string, reassignTo: string) {
+    const params = new URLSearchParams({ id: categoryId })
+    if (reassignTo !== 'none') params.set('reassign_to', reassignTo)
+
+    const deleted = await sendChange(
+      `/api/categories?${params}`,
+      { method: 'DELETE' },
+      'Failed to delete category'
+    )
+    if (deleted) setDeleting(null)
+  }
+
+  // Shown moved right away; a failed save reloads the saved order
+  async function handleMove(index: number, offset: number) {
+    const reordered = [...categories]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(index + offset, 0, moved)
+    setCategories(reordered)
+
+    const saved = await sendChange(
+      '/api/categories/reorder',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ list_id: listId, ids: reordered.map(category => category.id) }),
+      },
+      'Failed to reorder categories'
+    )
+    if (!saved) fetchCategories()
   }
 
   if (loading) {
@@ -157,41 +280,12 @@ export function CategoriesManager({ listId }: { listId: string }) {
 
           <div className="space-y-2">
             <Label>Color</Label>
-            <div className="flex gap-2">
-              {PRESET_COLORS.map((color) => (
-                <button
-                  key={color}
-                  type="button"
-                  onClick={() => setSelectedColor(color)}
-                  className={`h-8 w-8 rounded-full border-2 ${
-                    selectedColor === color
-                      ? 'border-gray-900'
-                      : 'border-transparent'
-                  }`}
-                  style={{ backgroundColor: color }}
-                />
-              ))}
-            </div>
+            <ColorPicker value={selectedColor} onChange={setSelectedColor} />
           </div>
 
           <div className="space-y-2">
             <Label>Icon (Optional)</Label>
-            <div className="flex flex-wrap gap-2">
-              {PRESET_ICONS.map((icon) => (
-                <button
-                  key={icon}
-                  type="button"
-                  onClick={() => setSelectedIcon(icon)}
-                  className={`rounded border-2 p-2 text-xl ${
-                    selectedIcon === icon
-                      ? 'border-gray-900 bg-gray-100'
-                      : 'border-transparent'
-                  }`}
-                >
-                  {icon}
-                </button>
-              ))}
-            </div>
+            <IconPicker value={selectedIcon} onChange={setSelectedIcon} />
           </div>
 
           <Button type="submit" className="w-full" disabled={isSubmitting}>
@@ -210,28 +304,222 @@ export function CategoriesManager({ listId }: { listId: string }) {
           </p>
         ) : (
           <div className="grid gap-2">
-            {categories.map((category) => (
-              <Card key={category.id} className="flex items-center gap-3 p-3">
-                <div
-                  className="h-6 w-6 flex-shrink-0 rounded-full"
-                  style={{ backgroundColor: category.color }}
-                />
-                {category.icon && (
-                  <span className="text-xl">{category.icon}</span>
-                )}
-                <span className="flex-1 font-medium">{category.name}</span>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => handleDelete(category.id)}
-                >
-                  <Trash2 className="h-4 w-4 text-red-500" />
-                </Button>
-              </Card>
-            ))}
+            {categories.map((category, index) => {
+              const count = itemCounts.get(category.id) ?? 0
+              const others = categories.filter(other => other.id !== category.id)
+              return (
+                <Card key={category.id} className="gap-3 p-3">
+                  <div className="flex items-center gap-3">
+                    <div
+                      className="h-6 w-6 flex-shrink-0 rounded-full"
+                      style={{ backgroundColor: category.color }}
+                    />
+                    {category.icon && (
+                      <span className="text-xl">{category.icon}</span>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <span className="font-medium">{category.name}</span>
+                      <span className="ml-2 text-xs text-gray-500">
+                        {count} {count === 1 ? 'item' : 'items'}
+                      </span>
+                      {category.aliases.length > 0 && (
+                        <p className="truncate text-xs text-gray-500">
+                          Also: {category.aliases.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move ${category.name} up`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === categories.length - 1}
+                      aria-label={`Move ${category.name} down`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startEditing(category)}
+                      title="Edit category"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startDeleting(category)}
+                      title="Delete category"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+
+                  {/* Edit */}
+                  {editing?.id === category.id && (
+                    <div className="space-y-3 border-t pt-3">
+                      <form onSubmit={handleSave} className="space-y-3">
+                        <Input
+                          value={editing.name}
+                          onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                          aria-label="Name"
+                          required
+                        />
+                        <ColorPicker
+                          value={editing.color}
+                          onChange={(color) => setEditing({ ...editing, color })}
+                        />
+                        <IconPicker
+                          value={editing.icon ?? ''}
+                          onChange={(icon) => setEditing({ ...editing, icon: icon || null })}
+                        />
+                        <Input
+                          value={editing.aliases}
+                          onChange={(e) => setEditing({ ...editing, aliases: e.target.value })}
+                          placeholder="Other names, e.g. Dairy, Fridge"
+                          aria-label="Aliases"
+                        />
+                        <div className="flex gap-2">
+                          <Button type="submit" size="sm">
+                            Save
+                          </Button>
+                          <Button type="button" size="sm" variant="ghost" onClick={() => setEditing(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </form>
+                      {others.length > 0 && (
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="text-gray-500">Merge into</span>
+                          <Select value={mergeTarget} onValueChange={setMergeTarget}>
+                            <SelectTrigger size="sm" className="w-40">
+                              <SelectValue placeholder="Category..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {others.map((other) => (
+                                <SelectItem key={other.id} value={other.id}>
+                                  {other.icon ? `${other.icon} ${other.name}` : other.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleMerge(category)}
+                            disabled={!mergeTarget}
+                          >
+                            Merge
+                          </Button>
+                        </div>
+                      )}
+                      {others.length > 0 && (
+                        <div className="flex items-center gap-1.5">
+                          <Checkbox
+                            id="merge-keep-aliases"
+                            checked={keepAliases}
+                            onCheckedChange={(checked) => setKeepAliases(checked === true)}
+                          />
+                          <Label htmlFor="merge-keep-aliases" className="text-xs font-normal text-gray-500">
+                            Keep &ldquo;{category.name}&rdquo; and its aliases as aliases of the merged category
+                          </Label>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Delete, choosing where the items go */}
+                  {deleting?.id === category.id && (
+                    <div className="flex flex-wrap items-center gap-2 border-t pt-3 text-sm">
+                      <span className="text-gray-700">
+                        Move its {count} {count === 1 ? 'item' : 'items'} to
+                      </span>
+                      <Select
+                        value={deleting.reassignTo}
+                        onValueChange={(reassignTo) => setDeleting({ ...deleting, reassignTo })}
+                      >
+                        <SelectTrigger size="sm" className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No category</SelectItem>
+                          {others.map((other) => (
+                            <SelectItem key={other.id} value={other.id}>
+                              {other.icon ? `${other.icon} ${other.name}` : other.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => handleDelete(category.id, deleting.reassignTo)}
+                      >
+                        Delete
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setDeleting(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </Card>
+              )
+            })}
           </div>
         )}
       </div>
     </div>
   )
 }
+
+function ColorPicker({ value, onChange }: { value: string; onChange: (color: string) => void }) {
+  return (
+    <div className="flex gap-2">
+      {PRESET_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          onClick={() => onChange(color)}
+          className={`h-8 w-8 rounded-full border-2 ${
+            value.toUpperCase() === color ? 'border-gray-900' : 'border-transparent'
+          }`}
+          style={{ backgroundColor: color }}
+          aria-label={`Color ${color}`}
+        />
+      ))}
+    </div>
+  )
+}
+
+/** Picking the selected icon again clears it */
+function IconPicker({ value, onChange }: { value: string; onChange: (icon: string) => void }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {PRESET_ICONS.map((icon) => (
+        <button
+          key={icon}
+          type="button"
+          onClick={() => onChange(value === icon ? '' : icon)}
+          className={`rounded border-2 p-2 text-xl ${
+            value === icon
+              ? 'border-gray-900 bg-gray-100'
+              : 'border-transparent'
+          }`}
+        >
+          {icon}
+        </button>
+      ))}
+    </div>
+  )
+}
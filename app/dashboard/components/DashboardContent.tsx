@@ -6,15 +6,17 @@ import { ListCard } from './ListCard'
 import { HamburgerMenu } from './HamburgerMenu'
 import { createClient } from '@/lib/supabase/client'
 import { transformShares, type GroceryList } from '@/lib/list-state'
+import type { VoiceLanguage } from '@/lib/language-packs'
 
 const SELECTED_LIST_KEY = 'grocery-hopper-selected-list'
 
 interface DashboardContentProps {
   initialLists: GroceryList[]
   userId: string
+  voiceLanguage: VoiceLanguage
 }
 
-export function DashboardContent({ initialLists, userId }: DashboardContentProps) {
+export function DashboardContent({ initialLists, userId, voiceLanguage }: DashboardContentProps) {
   const [lists, setLists] = useState(initialLists)
   const [selectedListId, setSelectedListId] = useState<string | null>(() => {
     if (typeof window === 'undefined') return initialLists[0]?.id ?? null
@@ -49,6 +51,9 @@ export function DashboardContent({ initialLists, userId }: DashboardContentProps
             name,
             description,
             is_active,
+            merge_duplicates,
+            auto_categorize,
+            store_id,
             share_code,
             user_id,
             created_at,
@@ -178,6 +183,13 @@ export function DashboardContent({ initialLists, userId }: DashboardContentProps
     )
   }
 
+  // Handle list settings changes (optimistic; reverted by the caller on failure)
+  function handleListUpdated(listId: string, changes: Partial<GroceryList>) {
+    setLists((prev) =>
+      prev.map((list) => (list.id === listId ? { ...list, ...changes } : list))
+    )
+  }
+
   return (
     <>
       {/* Header */}
@@ -189,6 +201,8 @@ export function DashboardContent({ initialLists, userId }: DashboardContentProps
             selectedListId={selectedListId}
             onSelectList={setSelectedListId}
             onListCreated={handleListCreated}
+            onListUpdated={handleListUpdated}
+            voiceLanguage={voiceLanguage}
           />
         </div>
         {isRefreshing && (
@@ -213,7 +227,9 @@ export function DashboardContent({ initialLists, userId }: DashboardContentProps
           <ListCard
             key={selectedList.id}
             list={selectedList}
+            otherLists={lists.filter(l => l.id !== selectedList.id)}
             userId={userId}
+            voiceLanguage={voiceLanguage}
             onRemove={handleRemoveList}
             onToggleActive={handleToggleActive}
           />
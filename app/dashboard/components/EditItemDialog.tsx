@@ -20,10 +20,17 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import type { Category, ListItem } from '@/lib/list-state'
+import {
+  QUANTITY_UNITS,
+  normalizeQuantityFields,
+  unitLabel,
+  type QuantityUnit,
+} from '@/lib/units'
 
 export type ItemEdits = {
   name: string
-  quantity: string | null
+  quantity_value: number | null
+  quantity_unit: QuantityUnit | null
   notes: string | null
   category_id: string | null
 }
@@ -40,7 +47,10 @@ export function EditItemDialog({
   onSave: (id: string, edits: ItemEdits) => Promise<boolean>
 }) {
   const [name, setName] = useState(item?.name ?? '')
-  const [quantity, setQuantity] = useState(item?.quantity ?? '')
+  const [quantityValue, setQuantityValue] = useState(
+    item?.quantity_value != null ? String(item.quantity_value) : ''
+  )
+  const [quantityUnit, setQuantityUnit] = useState<string>(item?.quantity_unit ?? 'count')
   const [notes, setNotes] = useState(item?.notes ?? '')
   const [categoryId, setCategoryId] = useState(item?.category_id ?? 'none')
   const [saving, setSaving] = useState(false)
@@ -49,10 +59,13 @@ export function EditItemDialog({
     e.preventDefault()
     if (!item || !name.trim() || saving) return
 
+    const quantity = normalizeQuantityFields(quantityValue.trim(), quantityUnit)
+    if (!quantity) return
+
     setSaving(true)
     const success = await onSave(item.id, {
       name: name.trim(),
-      quantity: quantity.trim() || null,
+      ...quantity,
       notes: notes.trim() || null,
       category_id: categoryId === 'none' ? null : categoryId,
     })
@@ -79,12 +92,31 @@ export function EditItemDialog({
           </div>
           <div className="space-y-2">
             <Label htmlFor="edit-item-quantity">Quantity</Label>
-            <Input
-              id="edit-item-quantity"
-              value={quantity}
-              onChange={(e) => setQuantity(e.target.value)}
-              placeholder="e.g. 2 lbs"
-            />
+            <div className="flex gap-2">
+              <Input
+                id="edit-item-quantity"
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="any"
+                value={quantityValue}
+                onChange={(e) => setQuantityValue(e.target.value)}
+                placeholder="e.g. 2"
+                className="flex-1"
+              />
+              <Select value={quantityUnit} onValueChange={setQuantityUnit}>
+                <SelectTrigger className="w-28" aria-label="Unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUANTITY_UNITS.map((unit) => (
+                    <SelectItem key={unit} value={unit}>
+                      {unitLabel(unit)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           <div className="space-y-2">
             <Label htmlFor="edit-item-category">Category</Label>
@@ -13,25 +13,39 @@ import {
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
-import { Menu, Plus, Tag, LogOut, X, List, Check, Users } from 'lucide-react'
+import { Menu, Plus, Tag, LogOut, X, List, Check, Users, Settings, UserRound, History, Store } from 'lucide-react'
 import { CategoriesManager } from './CategoriesManager'
+import { ListSettingsDialog } from './ListSettingsDialog'
+import { ProfileSettingsDialog } from './ProfileSettingsDialog'
+import { StoresManager } from './StoresManager'
+import { VoiceHistoryDialog } from './VoiceHistoryDialog'
 import type { GroceryList } from '@/lib/list-state'
+import type { VoiceLanguage } from '@/lib/language-packs'
 
 export function HamburgerMenu({
   lists,
   selectedListId,
   onSelectList,
   onListCreated,
+  onListUpdated,
+  voiceLanguage,
 }: {
   lists: GroceryList[]
   selectedListId: string | null
   onSelectList: (id: string) => void
   onListCreated: (list: GroceryList) => void
+  onListUpdated: (id: string, changes: Partial<GroceryList>) => void
+  voiceLanguage: VoiceLanguage
 }) {
   const [menuOpen, setMenuOpen] = useState(false)
   const [newListOpen, setNewListOpen] = useState(false)
   const [categoriesOpen, setCategoriesOpen] = useState(false)
+  const [storesOpen, setStoresOpen] = useState(false)
+  const [settingsOpen, setSettingsOpen] = useState(false)
+  const [profileOpen, setProfileOpen] = useState(false)
+  const [voiceHistoryOpen, setVoiceHistoryOpen] = useState(false)
   const router = useRouter()
+  const selectedList = lists.find((list) => list.id === selectedListId)
 
   async function handleCreateList(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault()
@@ -144,8 +158,55 @@ export function HamburgerMenu({
                 </button>
               )}
 
+              <button
+                onClick={() => {
+                  setStoresOpen(true)
+                  setMenuOpen(false)
+                }}
+                className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-sm hover:bg-gray-100"
+              >
+                <Store className="h-4 w-4" />
+                Stores
+              </button>
+
+              {/* List settings only change the list itself - owners only */}
+              {selectedList?.isOwner && (
+                <button
+                  onClick={() => {
+                    setSettingsOpen(true)
+                    setMenuOpen(false)
+                  }}
+                  className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-sm hover:bg-gray-100"
+                >
+                  <Settings className="h-4 w-4" />
+                  List Settings
+                </button>
+              )}
+
               <hr className="my-2" />
 
+              <button
+                onClick={() => {
+                  setProfileOpen(true)
+                  setMenuOpen(false)
+                }}
+                className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-sm hover:bg-gray-100"
+              >
+                <UserRound className="h-4 w-4" />
+                Profile
+              </button>
+
+              <button
+                onClick={() => {
+                  setVoiceHistoryOpen(true)
+                  setMenuOpen(false)
+                }}
+                className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-sm hover:bg-gray-100"
+              >
+                <History className="h-4 w-4" />
+                Voice History
+              </button>
+
               <button
                 onClick={handleSignOut}
                 className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-sm text-red-600 hover:bg-red-50"
@@ -206,6 +267,39 @@ export function HamburgerMenu({
           </DialogContent>
         </Dialog>
       )}
+
+      {/* Stores Dialog */}
+      <Dialog open={storesOpen} onOpenChange={setStoresOpen}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Manage Stores</DialogTitle>
+            <DialogDescription>
+              Lay out the stores you shop at, to sort lists in walking order
+            </DialogDescription>
+          </DialogHeader>
+          {storesOpen && <StoresManager />}
+        </DialogContent>
+      </Dialog>
+
+      {/* List Settings Dialog */}
+      {selectedList?.isOwner && (
+        <ListSettingsDialog
+          list={selectedList}
+          open={settingsOpen}
+          onOpenChange={setSettingsOpen}
+          onListUpdated={onListUpdated}
+        />
+      )}
+
+      {/* Profile Dialog */}
+      <ProfileSettingsDialog
+        voiceLanguage={voiceLanguage}
+        open={profileOpen}
+        onOpenChange={setProfileOpen}
+      />
+
+      {/* Voice History Dialog */}
+      <VoiceHistoryDialog open={voiceHistoryOpen} onOpenChange={setVoiceHistoryOpen} />
     </>
   )
 }
@@ -0,0 +1,287 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlertCircle, X } from 'lucide-react'
+import { getLanguagePack, type VoiceLanguage } from '@/lib/language-packs'
+import type { BatchOperation, BatchResult } from '@/lib/list-items'
+import type { Category, ListItem } from '@/lib/list-state'
+import { parseImportText } from '@/lib/text-import'
+import { formatQuantity, parseQuantity } from '@/lib/units'
+
+/**
+ * A preview row; quantity stays text until import. category_id is "auto"
+ * (filed by the server) or "none" when it isn't one of the list's.
+ */
+type ImportRow = {
+  key: number
+  name: string
+  quantity: string
+  notes: string | null
+  category_id: string
+  is_checked: boolean
+}
+
+export function ImportTextDialog({
+  open,
+  onOpenChange,
+  listId,
+  items,
+  categories,
+  language,
+  onImported,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  listId: string
+  items: ListItem[]
+  categories: Category[]
+  language: VoiceLanguage
+  onImported: (items: ListItem[]) => void
+}) {
+  const router = useRouter()
+  const [text, setText] = useState('')
+  // Null until the text has been previewed
+  const [rows, setRows] = useState<ImportRow[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+
+  function handleOpenChange(next: boolean) {
+    if (!next) {
+      setText('')
+      setRows(null)
+      setError(null)
+    }
+    onOpenChange(next)
+  }
+
+  function handlePreview(e: React.FormEvent) {
+    e.preventDefault()
+    const parsed = parseImportText(text, { categories, items }, getLanguagePack(language))
+    if (parsed.length === 0) {
+      setError('No items found in that text')
+      return
+    }
+
+    setError(null)
+    setRows(
+      parsed.map((item, index) => ({
+        key: index,
+        name: item.name,
+        quantity: formatQuantity(item.quantity_value, item.quantity_unit) ?? '',
+        notes: item.notes,
+        category_id: item.category_id ?? 'auto',
+        is_checked: item.is_checked,
+      }))
+    )
+  }
+
+  function updateRow(key: number, changes: Partial<ImportRow>) {
+    setRows(current => current && current.map(row => (row.key === key ? { ...row, ...changes } : row)))
+  }
+
+  async function handleImport() {
+    if (!rows || rows.length === 0 || importing) return
+
+    const operations: BatchOperation[] = []
+    for (const row of rows) {
+      if (!row.name.trim()) {
+        setError('Every item needs a name')
+        return
+      }
+      const quantity = row.quantity.trim() ? parseQuantity(row.quantity) : null
+      if (row.quantity.trim() && !quantity) {
+        setError(`Couldn't understand quantity "${row.quantity.trim()}" - try "2" or "1.5 lb"`)
+        return
+      }
+      operations.push({
+        op: 'create',
+        item: {
+          list_id: listId,
+          name: row.name.trim(),
+          quantity_value: quantity?.value ?? null,
+          quantity_unit: quantity?.unit ?? null,
+          notes: row.notes,
+          // Left out, the server files it by what it is
+          ...(row.category_id !== 'auto' && { category_id: row.category_id === 'none' ? null : row.category_id }),
+          is_checked: row.is_checked,
+        },
+      })
+    }
+
+    setError(null)
+    setImporting(true)
+    try {
+      const response = await fetch('/api/items/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ operations }),
+      })
+
+      if (response.status === 401) {
+        router.push('/auth/signin')
+        return
+      }
+
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to import items')
+        return
+      }
+
+      onImported((data.results as BatchResult[]).map(result => result.item))
+      handleOpenChange(false)
+    } catch {
+      setError('Failed to import items. Check your connection.')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Text</DialogTitle>
+          <DialogDescription>
+            {rows
+              ? 'Check the items before adding them. Ticked items are added already checked off.'
+              : 'Paste a list from a message or notes app, one item per line or separated by commas.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {!rows ? (
+          <form onSubmit={handlePreview} className="space-y-4">
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={'- [ ] 2x eggs\n- [ ] 1.5 lb chicken\n- [x] milk, the organic kind'}
+              className="min-h-40 font-mono text-sm"
+              autoFocus
+            />
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" className="flex-1" disabled={!text.trim()}>
+                Preview
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <div className="max-h-[50vh] overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="w-8 pb-2 font-normal" aria-label="Checked" />
+                    <th className="pb-2 font-normal">Item</th>
+                    <th className="w-24 pb-2 font-normal">Quantity</th>
+                    <th className="w-36 pb-2 font-normal">Category</th>
+                    <th className="w-8 pb-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.key}>
+                      <td className="py-1">
+                        <Checkbox
+                          checked={row.is_checked}
+                          onCheckedChange={(checked) => updateRow(row.key, { is_checked: checked === true })}
+                          aria-label="Checked off"
+                        />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <Input
+                          value={row.name}
+                          onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                          aria-label="Item name"
+                          className="h-8"
+                        />
+                        {row.notes && <p className="pt-0.5 text-xs text-gray-500 italic">{row.notes}</p>}
+                      </td>
+                      <td className="py-1 pr-2">
+                        <Input
+                          value={row.quantity}
+                          onChange={(e) => updateRow(row.key, { quantity: e.target.value })}
+                          placeholder="Qty"
+                          aria-label="Quantity"
+                          className="h-8"
+                        />
+                      </td>
+                      <td className="py-1 pr-2">
+                        <Select
+                          value={row.category_id}
+                          onValueChange={(value) => updateRow(row.key, { category_id: value })}
+                        >
+                          <SelectTrigger size="sm" className="w-full" aria-label="Category">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">Automatic</SelectItem>
+                            <SelectItem value="none">No category</SelectItem>
+                            {categories.map((category) => (
+                              <SelectItem key={category.id} value={category.id}>
+                                {category.icon ? `${category.icon} ${category.name}` : category.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="py-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRows(current => current && current.filter(other => other.key !== row.key))}
+                          className="h-8 w-8 p-0"
+                          aria-label="Leave out"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setRows(null)}>
+                Back
+              </Button>
+              <Button className="flex-1" onClick={handleImport} disabled={importing || rows.length === 0}>
+                {importing
+                  ? 'Importing...'
+                  : `Import ${rows.length} ${rows.length === 1 ? 'item' : 'items'}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
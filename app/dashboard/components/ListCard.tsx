@@ -4,11 +4,13 @@ import { useState, useEffect, useRef, useCallback } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { Trash2, Archive, ArchiveRestore, Share2, Users, LogOut } from 'lucide-react'
+import { Trash2, Archive, ArchiveRestore, Share2, Users, LogOut, ClipboardPaste } from 'lucide-react'
 import { ListItemsSection } from './ListItemsSection'
 import { ShareListDialog } from './ShareListDialog'
+import { ImportTextDialog } from './ImportTextDialog'
 import { createClient } from '@/lib/supabase/client'
 import { leaveList } from '../actions'
+import type { VoiceLanguage } from '@/lib/language-packs'
 import {
   mergeFetchedItems,
   type Category,
@@ -18,12 +20,18 @@ import {
 
 export function ListCard({
   list,
+  otherLists,
   userId,
+  voiceLanguage,
   onRemove,
   onToggleActive,
 }: {
   list: GroceryList
+  /** Where items can be moved or copied to */
+  otherLists: GroceryList[]
   userId: string
+  /** Language pasted text is parsed in */
+  voiceLanguage: VoiceLanguage
   onRemove?: (id: string) => void
   onToggleActive?: (id: string, isActive: boolean) => void
 }) {
@@ -32,6 +40,7 @@ export function ListCard({
   const [loading, setLoading] = useState(true)
   const [isActive, setIsActive] = useState(list.is_active)
   const [showShareDialog, setShowShareDialog] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
   const fetchSeq = useRef(0)
 
   // Fetch items and categories for this list. Guarded so an older in-flight
@@ -47,6 +56,7 @@ export function ListCard({
       .select('*')
       .eq('list_id', list.id)
       .order('is_checked')
+      .order('position', { ascending: true, nullsFirst: true })
       .order('created_at', { ascending: false })
 
     // Fetch categories for this list
@@ -54,6 +64,7 @@ export function ListCard({
       .from('categories')
       .select('*')
       .eq('list_id', list.id)
+      .order('sort_order')
       .order('name')
 
     if (seq !== fetchSeq.current) return
@@ -78,6 +89,20 @@ export function ListCard({
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
   }, [fetchData])
 
+  // Refetch after a voice command or its undo. Realtime skips our own
+  // inserts, and the command may have touched any list.
+  useEffect(() => {
+    window.addEventListener('voice-command-success', fetchData)
+    return () => window.removeEventListener('voice-command-success', fetchData)
+  }, [fetchData])
+
+  // Refetch after categories are edited, merged or deleted, which can
+  // move items between them
+  useEffect(() => {
+    window.addEventListener('categories-changed', fetchData)
+    return () => window.removeEventListener('categories-changed', fetchData)
+  }, [fetchData])
+
   // Real-time subscription for items in this list
   useEffect(() => {
     const supabase = createClient()
@@ -199,6 +224,14 @@ export function ListCard({
               )}
             </div>
             <div className="flex gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowImportDialog(true)}
+                title="Import text"
+              >
+                <ClipboardPaste className="h-4 w-4" />
+              </Button>
               {/* Share button - only for owners */}
               {list.isOwner && (
                 <Button
@@ -264,6 +297,8 @@ export function ListCard({
           ) : (
             <ListItemsSection
               listId={list.id}
+              storeId={list.store_id}
+              otherLists={otherLists}
               items={items}
               categories={categories}
               onItemsChange={handleItemsChange}
@@ -272,6 +307,16 @@ export function ListCard({
         </CardContent>
       </Card>
 
+      <ImportTextDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        listId={list.id}
+        items={items}
+        categories={categories}
+        language={voiceLanguage}
+        onImported={(imported) => setItems(prev => [...imported, ...prev])}
+      />
+
       {/* Share Dialog */}
       {showShareDialog && (
         <ShareListDialog
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -12,14 +12,21 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { Plus, Trash2, AlertCircle } from 'lucide-react'
+import { Plus, Trash2, AlertCircle, Undo2, ListChecks, X, Route, GripVertical } from 'lucide-react'
 import {
+  applyUndoResult,
   isTempId,
   makeTempId,
-  resolveTempItem,
+  resolveAddedItem,
   type Category,
+  type GroceryList,
   type ListItem,
 } from '@/lib/list-state'
+import type { ItemSuggestion } from '@/lib/item-catalog'
+import { placeAfter, sortByPosition } from '@/lib/item-order'
+import type { BatchOperation } from '@/lib/list-items'
+import { sortByRoute, visitedSection, type Store } from '@/lib/store-route'
+import { formatQuantity, parseQuantity, type QuantityFields } from '@/lib/units'
 import { EditItemDialog, type ItemEdits } from './EditItemDialog'
 
 type SyncError = {
@@ -27,15 +34,61 @@ type SyncError = {
   timestamp: number
 }
 
+type UndoableOperation = {
+  operationId: string
+  message: string
+}
+
 type ItemsUpdater = ListItem[] | ((prev: ListItem[]) => ListItem[])
 
+/** Every item row is one line of the paper */
+const ROW_HEIGHT = 48
+
+/** An item being dragged: the ids of its section, and where it would drop */
+type DragState = {
+  id: string
+  ids: string[]
+  index: number
+}
+
+/**
+ * A shopping trip in progress. Its requests run one after another, each
+ * resolving to the trip's id, or null if the trip couldn't be started.
+ */
+type Trip = {
+  storeId: string
+  pending: Promise<string | null>
+}
+
+// Check-offs only teach the store layout, so trip requests that fail are
+// let go rather than reported
+function updateTrip(trip: Trip, changes: { section?: string; end?: boolean }) {
+  trip.pending = trip.pending.then(async id => {
+    if (id) {
+      await fetch('/api/stores/trips', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, ...changes }),
+        // Lets the trip end even as the page goes away
+        keepalive: changes.end,
+      }).catch(() => {})
+    }
+    return id
+  })
+}
+
 export function ListItemsSection({
   listId,
+  storeId,
+  otherLists,
   items,
   categories,
   onItemsChange,
 }: {
   listId: string
+  /** The store the list is usually shopped at */
+  storeId: string | null
+  otherLists: GroceryList[]
   items: ListItem[]
   categories: Category[]
   onItemsChange: (updater: ItemsUpdater) => void
@@ -48,6 +101,32 @@ export function ListItemsSection({
   const [syncError, setSyncError] = useState<SyncError | null>(null)
   const [editingItem, setEditingItem] = useState<ListItem | null>(null)
   const [categoryFilter, setCategoryFilter] = useState<string>('all')
+  const [undoable, setUndoable] = useState<UndoableOperation | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  // Multi-select: null when not selecting
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null)
+  const [transferTarget, setTransferTarget] = useState('')
+  // Autocomplete for the add form, from the user's item catalog
+  const [suggestions, setSuggestions] = useState<ItemSuggestion[]>([])
+  const [highlighted, setHighlighted] = useState(-1)
+  const suggestTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const suggestSeq = useRef(0)
+  // Sorting by store route: the stores to pick from (loaded when first
+  // needed) and the one picked for this trip, if not the list's own
+  const [routeMode, setRouteMode] = useState(false)
+  const [routeStores, setRouteStores] = useState<Store[] | null>(null)
+  const [tripStoreId, setTripStoreId] = useState<string | null>(null)
+  const tripRef = useRef<Trip | null>(null)
+  // Drag-to-reorder; dragArea is the rows of the section being dragged in
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const dragArea = useRef<HTMLElement | null>(null)
+
+  // End the trip when the list goes away, so its store learns from it
+  useEffect(() => {
+    return () => {
+      if (tripRef.current) updateTrip(tripRef.current, { end: true })
+    }
+  }, [])
 
   const handleAuthError = useCallback(() => {
     router.push('/auth/signin')
@@ -58,26 +137,97 @@ export function ListItemsSection({
     setTimeout(() => setSyncError(null), 5000)
   }, [])
 
+  // Look up suggestions once typing pauses. A response for text that has
+  // since changed is dropped.
+  function handleNameChange(value: string) {
+    setNewItemName(value)
+    setHighlighted(-1)
+    if (suggestTimer.current) clearTimeout(suggestTimer.current)
+    const seq = ++suggestSeq.current
+
+    const query = value.trim()
+    if (!query) {
+      setSuggestions([])
+      return
+    }
+
+    suggestTimer.current = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/items/suggest?q=${encodeURIComponent(query)}&listId=${listId}`
+        )
+        if (!response.ok) return
+        const data: ItemSuggestion[] = await response.json()
+        if (seq === suggestSeq.current) setSuggestions(data)
+      } catch {
+        // Suggestions are a convenience; typing still works without them
+      }
+    }, 150)
+  }
+
+  function closeSuggestions() {
+    if (suggestTimer.current) clearTimeout(suggestTimer.current)
+    suggestSeq.current++
+    setSuggestions([])
+    setHighlighted(-1)
+  }
+
+  // Fill in the form the way the item was last added
+  function applySuggestion(suggestion: ItemSuggestion) {
+    setNewItemName(suggestion.name)
+    setNewItemQuantity(formatQuantity(suggestion.quantity_value, suggestion.quantity_unit) ?? '')
+    if (suggestion.category_id) setNewItemCategory(suggestion.category_id)
+    closeSuggestions()
+  }
+
+  function handleNameKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (suggestions.length === 0) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlighted(index => (index + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlighted(index => (index <= 0 ? suggestions.length - 1 : index - 1))
+    } else if (e.key === 'Enter' && highlighted >= 0) {
+      e.preventDefault()
+      applySuggestion(suggestions[highlighted])
+    } else if (e.key === 'Escape') {
+      closeSuggestions()
+    }
+  }
+
   async function handleAddItem(e: React.FormEvent) {
     e.preventDefault()
     if (!newItemName.trim() || isAdding) return
+    closeSuggestions()
+
+    let quantity: QuantityFields = { quantity_value: null, quantity_unit: null }
+    if (newItemQuantity.trim()) {
+      const parsed = parseQuantity(newItemQuantity)
+      if (!parsed) {
+        handleSyncError(`Couldn't understand quantity "${newItemQuantity.trim()}" - try "2" or "1.5 lb"`)
+        return
+      }
+      quantity = { quantity_value: parsed.value, quantity_unit: parsed.unit }
+    }
 
     const tempId = makeTempId(Date.now())
     const tempItem: ListItem = {
       id: tempId,
       name: newItemName.trim(),
-      quantity: newItemQuantity || null,
+      ...quantity,
       notes: null,
       is_checked: false,
       category_id: newItemCategory === 'none' ? null : newItemCategory || null,
       list_id: listId,
+      position: null,
     }
 
     // Add to UI immediately
     onItemsChange(prev => [tempItem, ...prev])
 
     const itemName = newItemName.trim()
-    const itemQty = newItemQuantity
     const itemCat = newItemCategory
     setNewItemName('')
     setNewItemQuantity('')
@@ -90,8 +240,9 @@ export function ListItemsSection({
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           name: itemName,
-          quantity: itemQty || null,
-          category_id: itemCat === 'none' ? null : itemCat || null,
+          ...quantity,
+          // Left out unless picked, so the server can file it
+          category_id: itemCat === 'none' ? null : itemCat || undefined,
           list_id: listId,
         }),
       })
@@ -108,8 +259,8 @@ export function ListItemsSection({
         return
       }
 
-      const newItem = await response.json()
-      onItemsChange(prev => resolveTempItem(prev, tempId, newItem))
+      const result = await response.json()
+      onItemsChange(prev => resolveAddedItem(prev, tempId, result))
     } catch {
       onItemsChange(prev => prev.filter(item => item.id !== tempId))
       handleSyncError(`Failed to add "${itemName}" - check your connection`)
@@ -153,7 +304,11 @@ export function ListItemsSection({
           )
         )
         handleSyncError('Failed to update item')
+        return
       }
+
+      const checked = items.find(item => item.id === itemId)
+      if (!currentState && checked) recordCheckOff(checked)
     } catch {
       onItemsChange(prev =>
         prev.map(item =>
@@ -256,6 +411,13 @@ export function ListItemsSection({
       if (!response.ok) {
         onItemsChange(prev => [...prev, ...checkedItemsBackup])
         handleSyncError('Failed to clear checked items')
+        return
+      }
+
+      const { operationId } = await response.json()
+      if (operationId) {
+        const count = checkedItemsBackup.length
+        offerUndo(operationId, `Cleared ${count} checked ${count === 1 ? 'item' : 'items'}`)
       }
     } catch {
       onItemsChange(prev => [...prev, ...checkedItemsBackup])
@@ -263,6 +425,324 @@ export function ListItemsSection({
     }
   }
 
+  function offerUndo(operationId: string, message: string) {
+    setUndoable({ operationId, message })
+    setTimeout(() => {
+      setUndoable(current => (current?.operationId === operationId ? null : current))
+    }, 10000)
+  }
+
+  // Apply updates and deletes to several items in one request. They show
+  // right away, and the items as they were come back if it fails.
+  async function handleBatch(operations: BatchOperation[], summary: string) {
+    const touched = new Map(
+      operations.flatMap(operation => (operation.op === 'create' ? [] : [[operation.id, operation] as const]))
+    )
+    const before = items.filter(item => touched.has(item.id))
+
+    onItemsChange(prev =>
+      prev.flatMap(item => {
+        const operation = touched.get(item.id)
+        if (!operation) return [item]
+        return operation.op === 'update' ? [{ ...item, ...operation.changes }] : []
+      })
+    )
+    setSelectedIds(null)
+
+    const restore = () => onItemsChange(prev => [...prev.filter(item => !touched.has(item.id)), ...before])
+
+    try {
+      const response = await fetch('/api/items/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ operations }),
+      })
+
+      if (response.status === 401) {
+        restore()
+        handleAuthError()
+        return
+      }
+
+      const data = await response.json()
+      if (!response.ok) {
+        restore()
+        handleSyncError(data.error || 'Failed to update items')
+        return
+      }
+
+      if (data.operationId) offerUndo(data.operationId, summary)
+    } catch {
+      restore()
+      handleSyncError('Failed to update items - check your connection')
+    }
+  }
+
+  function countItems(count: number) {
+    return `${count} ${count === 1 ? 'item' : 'items'}`
+  }
+
+  function handleCheckItems(toCheck: ListItem[]) {
+    if (toCheck.length === 0) return
+    handleBatch(
+      toCheck.map(item => ({ op: 'update', id: item.id, changes: { is_checked: true } })),
+      `Checked off ${countItems(toCheck.length)}`
+    )
+  }
+
+  function handleDeleteSelected() {
+    if (!selectedIds || selectedIds.size === 0) return
+    handleBatch(
+      [...selectedIds].map(id => ({ op: 'delete', id })),
+      `Deleted ${countItems(selectedIds.size)}`
+    )
+  }
+
+  function handleRecategorizeSelected(value: string) {
+    if (!selectedIds || selectedIds.size === 0) return
+    const category = categories.find(c => c.id === value)
+    handleBatch(
+      [...selectedIds].map(id => ({ op: 'update', id, changes: { category_id: category?.id ?? null } })),
+      `Moved ${countItems(selectedIds.size)} to ${category?.name ?? 'no category'}`
+    )
+  }
+
+  function toggleSelected(itemId: string) {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(itemId)) {
+        next.delete(itemId)
+      } else {
+        next.add(itemId)
+      }
+      return next
+    })
+  }
+
+  function showNotice(message: string) {
+    setNotice(message)
+    setTimeout(() => setNotice(current => (current === message ? null : current)), 5000)
+  }
+
+  // Move or copy the selected items to another list. Moved items leave
+  // this list right away and come back if the request fails.
+  async function handleTransferSelected(mode: 'move' | 'copy') {
+    const target = otherLists.find(list => list.id === transferTarget)
+    if (!selectedIds || selectedIds.size === 0 || !target) return
+
+    const ids = [...selectedIds]
+    const selected = items.filter(item => selectedIds.has(item.id))
+    const noun = ids.length === 1 ? 'item' : 'items'
+    if (mode === 'move') {
+      onItemsChange(prev => prev.filter(item => !selectedIds.has(item.id)))
+    }
+    setSelectedIds(null)
+
+    const restore = () => {
+      if (mode === 'move') onItemsChange(prev => [...prev, ...selected])
+    }
+
+    try {
+      const response = await fetch(`/api/items/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ item_ids: ids, target_list_id: target.id }),
+      })
+
+      if (response.status === 401) {
+        restore()
+        handleAuthError()
+        return
+      }
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        restore()
+        handleSyncError(data.error || `Failed to ${mode} ${noun}`)
+        return
+      }
+
+      showNotice(`${mode === 'move' ? 'Moved' : 'Copied'} ${ids.length} ${noun} to "${target.name}"`)
+    } catch {
+      restore()
+      handleSyncError(`Failed to ${mode} ${noun} - check your connection`)
+    }
+  }
+
+  async function handleToggleRoute() {
+    if (routeMode) {
+      endTrip()
+      setRouteMode(false)
+      return
+    }
+
+    setRouteMode(true)
+    if (routeStores) return
+
+    try {
+      const response = await fetch('/api/stores')
+      if (response.status === 401) {
+        handleAuthError()
+        return
+      }
+      const { data } = await response.json()
+      setRouteStores(data || [])
+    } catch {
+      handleSyncError('Failed to load stores - check your connection')
+    }
+  }
+
+  function handlePickStore(value: string) {
+    endTrip()
+    setTripStoreId(value)
+  }
+
+  function endTrip() {
+    if (tripRef.current) updateTrip(tripRef.current, { end: true })
+    tripRef.current = null
+  }
+
+  // Note the section an item was checked off in while walking a route. The
+  // trip starts with its first check-off, so just looking at the route
+  // doesn't count as a visit.
+  function recordCheckOff(item: ListItem) {
+    if (!routeStore) return
+    const section = visitedSection(routeStore.layout, item, categories)
+    if (!section) return
+
+    if (tripRef.current?.storeId !== routeStore.id) {
+      endTrip()
+      tripRef.current = {
+        storeId: routeStore.id,
+        pending: fetch('/api/stores/trips', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ list_id: listId, store_id: routeStore.id }),
+        })
+          .then(response => (response.ok ? response.json() : null))
+          .then(body => body?.data?.id ?? null)
+          .catch(() => null),
+      }
+    }
+    updateTrip(tripRef.current, { section })
+  }
+
+  // Move an item to just after another, or to the top. Shown right away;
+  // the server's positions replace ours once it has placed the item
+  // against the list as it is now.
+  async function handleReorder(itemId: string, afterId: string | null) {
+    const updates = placeAfter(
+      orderedItems.filter(item => !isTempId(item.id)),
+      itemId,
+      afterId
+    )
+    if (!updates) return
+
+    const previous = new Map(
+      items.filter(item => updates.some(update => update.id === item.id)).map(item => [item.id, item.position])
+    )
+    const setPositions = (positions: Map<string, string | null>) =>
+      onItemsChange(prev =>
+        prev.map(item => (positions.has(item.id) ? { ...item, position: positions.get(item.id) ?? null } : item))
+      )
+
+    setPositions(new Map(updates.map(update => [update.id, update.position])))
+
+    try {
+      const response = await fetch('/api/items/reorder', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: itemId, after_id: afterId }),
+      })
+
+      if (response.status === 401) {
+        setPositions(previous)
+        handleAuthError()
+        return
+      }
+
+      const data = await response.json()
+      if (!response.ok) {
+        setPositions(previous)
+        handleSyncError(data.error || 'Failed to move item')
+        return
+      }
+
+      const written = new Map((data.items as ListItem[]).map(item => [item.id, item]))
+      onItemsChange(prev => prev.map(item => written.get(item.id) ?? item))
+    } catch {
+      setPositions(previous)
+      handleSyncError('Failed to move item - check your connection')
+    }
+  }
+
+  // Drop an item at index among its section's ids, after the nearest saved
+  // item above it (a temp item can't be placed against yet)
+  function dropAt(id: string, ids: string[], index: number) {
+    if (ids.indexOf(id) === index) return
+    const above = ids.filter(other => other !== id).slice(0, index)
+    handleReorder(id, above.filter(other => !isTempId(other)).at(-1) ?? null)
+  }
+
+  function handleDragStart(e: React.PointerEvent<HTMLElement>, id: string, section: ListItem[]) {
+    e.preventDefault()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragArea.current = e.currentTarget.closest('[data-sortable]')
+    const ids = section.map(item => item.id)
+    setDrag({ id, ids, index: ids.indexOf(id) })
+  }
+
+  function handleDragMove(e: React.PointerEvent<HTMLElement>) {
+    if (!drag || !dragArea.current) return
+    const top = dragArea.current.getBoundingClientRect().top
+    const index = Math.min(Math.max(Math.floor((e.clientY - top) / ROW_HEIGHT), 0), drag.ids.length - 1)
+    if (index !== drag.index) setDrag({ ...drag, index })
+  }
+
+  function handleDragEnd() {
+    if (!drag) return
+    setDrag(null)
+    dropAt(drag.id, drag.ids, drag.index)
+  }
+
+  // Arrow keys move the focused item's handle up and down its section
+  function handleReorderKey(e: React.KeyboardEvent, id: string, section: ListItem[]) {
+    const ids = section.map(item => item.id)
+    const index = ids.indexOf(id)
+    if (e.key === 'ArrowUp' && index > 0) {
+      e.preventDefault()
+      dropAt(id, ids, index - 1)
+    } else if (e.key === 'ArrowDown' && index < ids.length - 1) {
+      e.preventDefault()
+      dropAt(id, ids, index + 1)
+    }
+  }
+
+  async function handleUndo(operationId: string) {
+    setUndoable(null)
+
+    try {
+      const response = await fetch(`/api/operations/${operationId}/undo`, {
+        method: 'POST',
+      })
+
+      if (response.status === 401) {
+        handleAuthError()
+        return
+      }
+
+      const data = await response.json()
+      if (!response.ok) {
+        handleSyncError(data.error || 'Failed to undo')
+        return
+      }
+
+      onItemsChange(prev => applyUndoResult(prev, data))
+    } catch {
+      handleSyncError('Failed to undo - check your connection')
+    }
+  }
+
   const usedCategoryIds = new Set(
     items.map((item) => item.category_id).filter((id): id is string => id !== null)
   )
@@ -274,12 +754,60 @@ export function ListItemsSection({
       ? categoryFilter
       : 'all'
 
+  const orderedItems = sortByPosition(items)
   const filteredItems =
-    activeFilter === 'all' ? items : items.filter((item) => item.category_id === activeFilter)
+    activeFilter === 'all'
+      ? orderedItems
+      : orderedItems.filter((item) => item.category_id === activeFilter)
 
   const uncheckedItems = filteredItems.filter((item) => !item.is_checked)
   const checkedItems = filteredItems.filter((item) => item.is_checked)
 
+  const routeStoreId = tripStoreId ?? storeId
+  const routeStore = (routeMode && routeStores?.find(store => store.id === routeStoreId)) || null
+  const route = routeStore ? sortByRoute(uncheckedItems, categories, routeStore.layout) : null
+
+  // Manual order applies outside selection and route modes
+  const canReorder = !selectedIds && !route
+
+  // A section's items, with the one being dragged shown where it would drop
+  function arrange(section: ListItem[]) {
+    if (!drag || !section.some(item => item.id === drag.id)) return section
+    const dragged = section.find(item => item.id === drag.id)!
+    const rest = section.filter(item => item.id !== drag.id)
+    return [...rest.slice(0, drag.index), dragged, ...rest.slice(drag.index)]
+  }
+
+  const renderItem = (item: ListItem, section?: ListItem[]) => (
+    <ItemRow
+      key={item.id}
+      item={item}
+      categories={categories}
+      onToggle={handleToggleItem}
+      onDelete={handleDeleteItem}
+      onEdit={setEditingItem}
+      selected={selectedIds?.has(item.id)}
+      onSelect={toggleSelected}
+      dragging={drag?.id === item.id}
+      handle={
+        section && canReorder && !isTempId(item.id) ? (
+          <button
+            type="button"
+            aria-label={`Reorder ${item.name}`}
+            className="-ml-2 flex-shrink-0 cursor-grab touch-none text-amber-700/30 hover:text-amber-700/70 active:cursor-grabbing"
+            onPointerDown={(e) => handleDragStart(e, item.id, section)}
+            onPointerMove={handleDragMove}
+            onPointerUp={handleDragEnd}
+            onPointerCancel={() => setDrag(null)}
+            onKeyDown={(e) => handleReorderKey(e, item.id, section)}
+          >
+            <GripVertical className="h-4 w-4" />
+          </button>
+        ) : undefined
+      }
+    />
+  )
+
   return (
     <div className="space-y-4">
       {/* Sync Error Banner */}
@@ -296,15 +824,153 @@ export function ListItemsSection({
         </div>
       )}
 
+      {/* Undo Banner */}
+      {undoable && (
+        <div className="flex items-center gap-2 p-3 bg-gray-50 border border-gray-200 rounded-md text-gray-700 text-sm">
+          <span>{undoable.message}</span>
+          <button
+            onClick={() => handleUndo(undoable.operationId)}
+            className="ml-auto flex items-center gap-1 font-medium text-blue-600 hover:text-blue-800"
+          >
+            <Undo2 className="h-4 w-4" />
+            Undo
+          </button>
+        </div>
+      )}
+
+      {/* Notice Banner */}
+      {notice && (
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-md text-gray-700 text-sm">
+          {notice}
+        </div>
+      )}
+
+      {/* Selection Actions */}
+      {selectedIds && (
+        <div className="flex flex-wrap items-center gap-2 p-2 bg-blue-50 border border-blue-200 rounded-md text-sm">
+          <span className="font-medium text-blue-900">{selectedIds.size} selected</span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleCheckItems(items.filter(item => selectedIds.has(item.id) && !item.is_checked))}
+            disabled={selectedIds.size === 0}
+          >
+            Check
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleDeleteSelected}
+            disabled={selectedIds.size === 0}
+            className="text-red-600 hover:text-red-700"
+          >
+            Delete
+          </Button>
+          {categories.length > 0 && (
+            <Select value="" onValueChange={handleRecategorizeSelected} disabled={selectedIds.size === 0}>
+              <SelectTrigger size="sm" className="w-36 bg-white">
+                <SelectValue placeholder="Category..." />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No category</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.icon ? `${category.icon} ${category.name}` : category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {otherLists.length > 0 && (
+            <>
+              <Select value={transferTarget} onValueChange={setTransferTarget}>
+                <SelectTrigger size="sm" className="w-40 bg-white">
+                  <SelectValue placeholder="To list..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherLists.map((list) => (
+                    <SelectItem key={list.id} value={list.id}>
+                      {list.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                onClick={() => handleTransferSelected('move')}
+                disabled={selectedIds.size === 0 || !transferTarget}
+              >
+                Move
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleTransferSelected('copy')}
+                disabled={selectedIds.size === 0 || !transferTarget}
+              >
+                Copy
+              </Button>
+            </>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setSelectedIds(null)}
+            className="ml-auto h-8 w-8 p-0"
+            aria-label="Cancel selection"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
       {/* Add Item Form */}
       <form onSubmit={handleAddItem} className="space-y-2 relative z-10">
         <div className="flex gap-2">
-          <Input
-            placeholder="Add item..."
-            value={newItemName}
-            onChange={(e) => setNewItemName(e.target.value)}
-            className="flex-1"
-          />
+          <div className="relative flex-1">
+            <Input
+              placeholder="Add item..."
+              value={newItemName}
+              onChange={(e) => handleNameChange(e.target.value)}
+              onKeyDown={handleNameKeyDown}
+              onBlur={closeSuggestions}
+              role="combobox"
+              aria-expanded={suggestions.length > 0}
+              aria-autocomplete="list"
+              autoComplete="off"
+            />
+            {suggestions.length > 0 && (
+              <ul
+                role="listbox"
+                className="absolute left-0 right-0 top-full z-20 mt-1 overflow-hidden rounded-md border bg-white shadow-md"
+              >
+                {suggestions.map((suggestion, index) => {
+                  const quantity = formatQuantity(suggestion.quantity_value, suggestion.quantity_unit)
+                  return (
+                    <li
+                      key={suggestion.name}
+                      role="option"
+                      aria-selected={index === highlighted}
+                      // mousedown, so the input doesn't blur and close the list first
+                      onMouseDown={(e) => {
+                        e.preventDefault()
+                        applySuggestion(suggestion)
+                      }}
+                      className={`flex cursor-pointer items-baseline gap-2 px-3 py-1.5 text-sm ${
+                        index === highlighted ? 'bg-amber-100' : 'hover:bg-amber-50'
+                      }`}
+                    >
+                      <span className="truncate">{suggestion.name}</span>
+                      {quantity && <span className="text-xs text-gray-500">({quantity})</span>}
+                      {suggestion.category_name && (
+                        <span className="ml-auto shrink-0 text-xs text-gray-400">{suggestion.category_name}</span>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
           <Input
             placeholder="Qty"
             value={newItemQuantity}
@@ -366,6 +1032,63 @@ export function ListItemsSection({
         </div>
       )}
 
+      {items.length > 0 && !selectedIds && (
+        <div className="flex items-center justify-end gap-1 -mb-3">
+          {routeMode && routeStores && (
+            routeStores.length === 0 ? (
+              <span className="mr-auto text-xs text-amber-700/70">
+                Add a store from the menu to sort by route
+              </span>
+            ) : (
+              <Select value={routeStore?.id ?? ''} onValueChange={handlePickStore}>
+                <SelectTrigger size="sm" className="mr-auto h-6 w-40 text-xs">
+                  <SelectValue placeholder="Pick a store..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {routeStores.map((store) => (
+                    <SelectItem key={store.id} value={store.id}>
+                      {store.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )
+          )}
+          {activeFilter !== 'all' && uncheckedItems.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleCheckItems(uncheckedItems)}
+              className="text-xs text-amber-700/70 hover:text-amber-800 hover:bg-amber-100/50 h-6"
+            >
+              Check all
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSelectedIds(new Set())}
+            className="text-xs text-amber-700/70 hover:text-amber-800 hover:bg-amber-100/50 h-6"
+          >
+            <ListChecks className="h-3.5 w-3.5 mr-1" />
+            Select
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleToggleRoute}
+            className={`text-xs hover:text-amber-800 hover:bg-amber-100/50 h-6 ${
+              routeMode ? 'bg-amber-100 text-amber-800' : 'text-amber-700/70'
+            }`}
+            aria-pressed={routeMode}
+            title="Sort by store route"
+          >
+            <Route className="h-3.5 w-3.5 mr-1" />
+            Route
+          </Button>
+        </div>
+      )}
+
       {/* Items List - Lined Paper Style */}
       <div
         className="rounded-md -mx-2 px-4 min-h-[200px]"
@@ -393,18 +1116,18 @@ export function ListItemsSection({
         ) : (
           <>
             {/* Unchecked Items */}
-            {uncheckedItems.length > 0 && (
-              <div>
-                {uncheckedItems.map((item) => (
-                  <ItemRow
-                    key={item.id}
-                    item={item}
-                    categories={categories}
-                    onToggle={handleToggleItem}
-                    onDelete={handleDeleteItem}
-                    onEdit={setEditingItem}
-                  />
-                ))}
+            {route ? (
+              route.map((group) => (
+                <div key={group.section ?? 'elsewhere'}>
+                  <div className="h-[48px] flex items-center pt-3">
+                    <p className="text-base text-amber-700/60 italic">{group.section ?? 'Elsewhere'}</p>
+                  </div>
+                  {group.items.map((item) => renderItem(item))}
+                </div>
+              ))
+            ) : uncheckedItems.length > 0 && (
+              <div data-sortable>
+                {arrange(uncheckedItems).map((item) => renderItem(item, uncheckedItems))}
               </div>
             )}
 
@@ -423,16 +1146,9 @@ export function ListItemsSection({
                     Clear All
                   </Button>
                 </div>
-                {checkedItems.map((item) => (
-                  <ItemRow
-                    key={item.id}
-                    item={item}
-                    categories={categories}
-                    onToggle={handleToggleItem}
-                    onDelete={handleDeleteItem}
-                    onEdit={setEditingItem}
-                  />
-                ))}
+                <div data-sortable>
+                  {arrange(checkedItems).map((item) => renderItem(item, checkedItems))}
+                </div>
               </div>
             )}
           </>
@@ -456,22 +1172,37 @@ function ItemRow({
   onToggle,
   onDelete,
   onEdit,
+  selected,
+  onSelect,
+  handle,
+  dragging,
 }: {
   item: ListItem
   categories: Category[]
   onToggle: (id: string, currentState: boolean) => void
   onDelete: (id: string) => void
   onEdit: (item: ListItem) => void
+  /** Undefined unless the list is in selection mode */
+  selected?: boolean
+  onSelect: (id: string) => void
+  /** Drag handle, when the item can be reordered */
+  handle?: React.ReactNode
+  dragging?: boolean
 }) {
+  const selecting = selected !== undefined
   const category = categories.find((c) => c.id === item.category_id)
   const isTemp = isTempId(item.id)
+  const quantity = formatQuantity(item.quantity_value, item.quantity_unit)
 
   return (
     <div
       className={`flex items-center gap-3 h-[48px] pt-3 transition-opacity ${
         item.is_checked ? 'opacity-50' : ''
-      } ${isTemp ? 'opacity-60' : ''}`}
+      } ${isTemp ? 'opacity-60' : ''} ${selected ? 'bg-blue-100/60 -mx-2 px-2' : ''} ${
+        dragging ? 'bg-amber-100/70 -mx-2 px-2 shadow-sm' : ''
+      }`}
     >
+      {handle}
       <Checkbox
         checked={item.is_checked}
         onCheckedChange={() => onToggle(item.id, item.is_checked)}
@@ -480,7 +1211,7 @@ function ItemRow({
       />
       <div
         className="flex-1 min-w-0 flex items-baseline gap-2 overflow-hidden cursor-pointer"
-        onClick={() => !isTemp && onEdit(item)}
+        onClick={() => !isTemp && (selecting ? onSelect(item.id) : onEdit(item))}
       >
         <span
           className={`text-xl text-gray-800 truncate ${
@@ -490,9 +1221,9 @@ function ItemRow({
         >
           {item.name}
         </span>
-        {item.quantity && (
+        {quantity && (
           <span className="text-sm text-amber-700/70 flex-shrink-0">
-            ({item.quantity})
+            ({quantity})
           </span>
         )}
         {category && (
@@ -513,7 +1244,7 @@ function ItemRow({
           </span>
         )}
       </div>
-      {!isTemp && (
+      {!isTemp && !selecting && (
         <Button
           variant="ghost"
           size="sm"
@@ -0,0 +1,165 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlertCircle } from 'lucide-react'
+import type { GroceryList } from '@/lib/list-state'
+import type { Store } from '@/lib/store-route'
+
+type ListSettings = Partial<Pick<GroceryList, 'merge_duplicates' | 'auto_categorize' | 'store_id'>>
+
+export function ListSettingsDialog({
+  list,
+  open,
+  onOpenChange,
+  onListUpdated,
+}: {
+  list: GroceryList
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onListUpdated: (id: string, changes: Partial<GroceryList>) => void
+}) {
+  const router = useRouter()
+  const [error, setError] = useState<string | null>(null)
+  const [stores, setStores] = useState<Store[]>([])
+
+  // Stores to pick from, loaded each time the dialog opens since they're
+  // managed in another dialog
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+
+    fetch('/api/stores')
+      .then(response => (response.ok ? response.json() : { data: [] }))
+      .then(({ data }) => {
+        if (!cancelled) setStores(data ?? [])
+      })
+      .catch(() => {
+        // Without stores the picker only offers "No store"
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open])
+
+  async function handleChange(changes: ListSettings) {
+    const previous: ListSettings = {
+      merge_duplicates: list.merge_duplicates,
+      auto_categorize: list.auto_categorize,
+      store_id: list.store_id,
+    }
+    setError(null)
+    onListUpdated(list.id, changes)
+
+    try {
+      const response = await fetch('/api/lists', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: list.id, ...changes }),
+      })
+
+      if (response.status === 401) {
+        onListUpdated(list.id, previous)
+        router.push('/auth/signin')
+        return
+      }
+
+      if (!response.ok) {
+        onListUpdated(list.id, previous)
+        setError('Failed to update list settings')
+      }
+    } catch {
+      onListUpdated(list.id, previous)
+      setError('Failed to update list settings. Check your connection.')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>List Settings</DialogTitle>
+          <DialogDescription>Settings for &ldquo;{list.name}&rdquo;</DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex items-start gap-3">
+          <Checkbox
+            id="merge-duplicates"
+            checked={list.merge_duplicates}
+            onCheckedChange={(checked) => handleChange({ merge_duplicates: checked === true })}
+          />
+          <div className="space-y-1">
+            <Label htmlFor="merge-duplicates">Merge duplicate items</Label>
+            <p className="text-sm text-muted-foreground">
+              Adding an item that&apos;s already on the list increases its quantity
+              instead of adding a second row.
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-start gap-3">
+          <Checkbox
+            id="auto-categorize"
+            checked={list.auto_categorize}
+            onCheckedChange={(checked) => handleChange({ auto_categorize: checked === true })}
+          />
+          <div className="space-y-1">
+            <Label htmlFor="auto-categorize">Sort new items into categories</Label>
+            <p className="text-sm text-muted-foreground">
+              Items added without a category go in the one that fits, like Produce
+              for bananas. Give a category aliases to match other department names.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="list-store">Store</Label>
+          <Select
+            value={list.store_id ?? 'none'}
+            onValueChange={(value) => handleChange({ store_id: value === 'none' ? null : value })}
+          >
+            <SelectTrigger id="list-store" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No store</SelectItem>
+              {stores.map((store) => (
+                <SelectItem key={store.id} value={store.id}>
+                  {store.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            Where you usually shop for this list. Sorting by store route walks its
+            aisles in order.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
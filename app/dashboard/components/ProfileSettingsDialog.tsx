@@ -0,0 +1,104 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AlertCircle } from 'lucide-react'
+import { LANGUAGE_PACKS, VOICE_LANGUAGES, type VoiceLanguage } from '@/lib/language-packs'
+
+export function ProfileSettingsDialog({
+  voiceLanguage,
+  open,
+  onOpenChange,
+}: {
+  voiceLanguage: VoiceLanguage
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const router = useRouter()
+  const [language, setLanguage] = useState(voiceLanguage)
+  const [error, setError] = useState<string | null>(null)
+
+  async function handleLanguageChange(next: VoiceLanguage) {
+    const previous = language
+    setError(null)
+    setLanguage(next)
+
+    try {
+      const response = await fetch('/api/profile', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ voice_language: next }),
+      })
+
+      if (response.status === 401) {
+        setLanguage(previous)
+        router.push('/auth/signin')
+        return
+      }
+
+      if (!response.ok) {
+        setLanguage(previous)
+        setError('Failed to update your profile')
+        return
+      }
+
+      // Voice input reads the language from the page props
+      router.refresh()
+    } catch {
+      setLanguage(previous)
+      setError('Failed to update your profile. Check your connection.')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Profile</DialogTitle>
+          <DialogDescription>Settings for your account</DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="voice-language">Voice language</Label>
+          <Select value={language} onValueChange={(value) => handleLanguageChange(value as VoiceLanguage)}>
+            <SelectTrigger id="voice-language" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VOICE_LANGUAGES.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {LANGUAGE_PACKS[code].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            The language you speak voice commands in.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
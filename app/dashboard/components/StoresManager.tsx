@@ -0,0 +1,281 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card } from '@/components/ui/card'
+import { Trash2, Plus, AlertCircle, ArrowUp, ArrowDown, X, ChevronDown, ChevronRight } from 'lucide-react'
+import type { Store } from '@/lib/store-route'
+
+export function StoresManager() {
+  const router = useRouter()
+  const [stores, setStores] = useState<Store[]>([])
+  const [loading, setLoading] = useState(true)
+  const [newName, setNewName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  // Store whose layout is open for editing, and the section being added
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [newSection, setNewSection] = useState('')
+
+  const fetchStores = useCallback(async () => {
+    try {
+      const response = await fetch('/api/stores')
+      if (response.status === 401) {
+        router.push('/auth/signin')
+        return
+      }
+      const { data } = await response.json()
+      setStores(data || [])
+    } catch {
+      setError('Failed to load stores')
+    } finally {
+      setLoading(false)
+    }
+  }, [router])
+
+  useEffect(() => {
+    fetchStores()
+  }, [fetchStores])
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault()
+    if (!newName.trim() || isSubmitting) return
+
+    setError(null)
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch('/api/stores', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName }),
+      })
+
+      if (response.status === 401) {
+        router.push('/auth/signin')
+        return
+      }
+
+      if (!response.ok) {
+        setError('Failed to create store')
+        return
+      }
+
+      const { data } = await response.json()
+      setNewName('')
+      setExpandedId(data.id)
+      fetchStores()
+    } catch {
+      setError('Failed to create store. Check your connection.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  async function handleDelete(storeId: string) {
+    if (confirm('Delete this store? Lists shopped there will have no store.')) {
+      try {
+        const response = await fetch(`/api/stores?id=${storeId}`, {
+          method: 'DELETE',
+        })
+
+        if (response.status === 401) {
+          router.push('/auth/signin')
+          return
+        }
+
+        if (!response.ok) {
+          setError('Failed to delete store')
+          return
+        }
+
+        fetchStores()
+      } catch {
+        setError('Failed to delete store. Check your connection.')
+      }
+    }
+  }
+
+  // Save a layout change right away, putting the old layout back if it fails
+  async function saveLayout(store: Store, layout: string[]) {
+    setError(null)
+    setStores(prev => prev.map(s => (s.id === store.id ? { ...s, layout } : s)))
+
+    try {
+      const response = await fetch('/api/stores', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: store.id, layout }),
+      })
+
+      if (response.status === 401) {
+        router.push('/auth/signin')
+        return
+      }
+
+      if (!response.ok) {
+        setStores(prev => prev.map(s => (s.id === store.id ? store : s)))
+        setError('Failed to save layout')
+      }
+    } catch {
+      setStores(prev => prev.map(s => (s.id === store.id ? store : s)))
+      setError('Failed to save layout. Check your connection.')
+    }
+  }
+
+  function moveSection(store: Store, index: number, offset: number) {
+    const layout = [...store.layout]
+    const [section] = layout.splice(index, 1)
+    layout.splice(index + offset, 0, section)
+    saveLayout(store, layout)
+  }
+
+  function handleAddSection(e: React.FormEvent, store: Store) {
+    e.preventDefault()
+    if (!newSection.trim()) return
+    saveLayout(store, [...store.layout, newSection.trim()])
+    setNewSection('')
+  }
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading stores...</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Error Banner */}
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{error}</span>
+          <button
+            onClick={() => setError(null)}
+            className="ml-auto text-red-500 hover:text-red-700"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Create New Store */}
+      <Card className="p-4">
+        <form onSubmit={handleCreate} className="space-y-2">
+          <Label htmlFor="store_name">Store Name</Label>
+          <div className="flex gap-2">
+            <Input
+              id="store_name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g., Corner Market"
+              required
+            />
+            <Button type="submit" disabled={isSubmitting}>
+              <Plus className="mr-2 h-4 w-4" />
+              {isSubmitting ? 'Adding...' : 'Add Store'}
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            New stores start with a typical supermarket layout. Put the sections in
+            the order you walk them; the order also adjusts as you check items off.
+          </p>
+        </form>
+      </Card>
+
+      {/* Existing Stores */}
+      <div className="space-y-2">
+        <Label>Your Stores</Label>
+        {stores.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No stores yet. Add the one you shop at above!
+          </p>
+        ) : (
+          <div className="grid gap-2">
+            {stores.map((store) => (
+              <Card key={store.id} className="gap-2 p-3">
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expandedId === store.id ? null : store.id)}
+                    className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                  >
+                    {expandedId === store.id ? (
+                      <ChevronDown className="h-4 w-4 flex-shrink-0" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 flex-shrink-0" />
+                    )}
+                    <span className="truncate font-medium">{store.name}</span>
+                    <span className="text-xs text-gray-500">
+                      {store.layout.length} {store.layout.length === 1 ? 'section' : 'sections'}
+                    </span>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(store.id)}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+                {expandedId === store.id && (
+                  <div className="space-y-1">
+                    <ol className="space-y-1">
+                      {store.layout.map((section, index) => (
+                        <li key={section} className="flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-gray-50">
+                          <span className="w-6 text-right text-xs text-gray-400">{index + 1}</span>
+                          <span className="flex-1 truncate">{section}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            onClick={() => moveSection(store, index, -1)}
+                            disabled={index === 0}
+                            aria-label={`Move ${section} earlier`}
+                          >
+                            <ArrowUp className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            onClick={() => moveSection(store, index, 1)}
+                            disabled={index === store.layout.length - 1}
+                            aria-label={`Move ${section} later`}
+                          >
+                            <ArrowDown className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            onClick={() => saveLayout(store, store.layout.filter((_, i) => i !== index))}
+                            aria-label={`Remove ${section}`}
+                          >
+                            <X className="h-3.5 w-3.5" />
+                          </Button>
+                        </li>
+                      ))}
+                    </ol>
+                    <form onSubmit={(e) => handleAddSection(e, store)} className="flex gap-2 pt-1">
+                      <Input
+                        value={newSection}
+                        onChange={(e) => setNewSection(e.target.value)}
+                        placeholder="Add a section or aisle, e.g. Aisle 5"
+                        aria-label="New section"
+                      />
+                      <Button type="submit" size="sm">
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </form>
+                  </div>
+                )}
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { AlertCircle, Download, Loader2, Pencil, RotateCcw } from 'lucide-react'
+import { getLanguagePack } from '@/lib/language-packs'
+import { toExpectedParse, type VoiceHistoryEntry, type VoiceOutcome } from '@/lib/voice-history'
+import { parseVoiceCommand } from '@/lib/voice-parser'
+
+const OUTCOME_LABELS: Record<VoiceOutcome, string> = {
+  applied: 'Applied',
+  answered: 'Answered',
+  clarification: 'Asked',
+  previewed: 'Previewed',
+  failed: 'Failed',
+}
+
+export function VoiceHistoryDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const router = useRouter()
+  const [entries, setEntries] = useState<VoiceHistoryEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Entry being corrected, the text typed so far and, once the text is
+  // done, the parse it should have had as editable JSON
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [correction, setCorrection] = useState('')
+  const [expected, setExpected] = useState<string | null>(null)
+  // Entry being re-run, and the outcome of the last re-run
+  const [runningId, setRunningId] = useState<string | null>(null)
+  const [rerunResult, setRerunResult] = useState<{ id: string; message: string; failed: boolean } | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/voice-commands')
+
+      if (response.status === 401) {
+        router.push('/auth/signin')
+        return
+      }
+
+      if (!response.ok) {
+        setError('Failed to load voice history')
+        return
+      }
+
+      setEntries(await response.json())
+    } catch {
+      setError('Failed to load voice history. Check your connection.')
+    } finally {
+      setLoading(false)
+    }
+  }, [router])
+
+  useEffect(() => {
+    if (open) loadHistory()
+  }, [open, loadHistory])
+
+  function startEditing(entry: VoiceHistoryEntry) {
+    setEditingId(entry.id)
+    setCorrection(entry.corrected_transcript ?? entry.cleaned_transcript)
+    setExpected(null)
+  }
+
+  // Offer the parse of the corrected text for the user to confirm or fix,
+  // keeping an earlier confirmed parse when the text is unchanged
+  function reviewParse(e: React.FormEvent, entry: VoiceHistoryEntry) {
+    e.preventDefault()
+    const text = correction.trim()
+    if (!text) {
+      saveCorrection(entry, null)
+      return
+    }
+
+    const suggestion =
+      entry.corrected_parsed && text === entry.corrected_transcript
+        ? entry.corrected_parsed
+        : toExpectedParse(parseVoiceCommand(text, getLanguagePack(entry.language)))
+    setExpected(JSON.stringify(suggestion, null, 2))
+  }
+
+  function confirmParse(e: React.FormEvent, entry: VoiceHistoryEntry) {
+    e.preventDefault()
+    try {
+      saveCorrection(entry, JSON.parse(expected ?? ''))
+    } catch {
+      setError("The expected parse isn't valid JSON")
+    }
+  }
+
+  async function saveCorrection(entry: VoiceHistoryEntry, parsed: unknown) {
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/voice-commands/${entry.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ corrected_transcript: correction, corrected_parsed: parsed }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setError(data.error || 'Failed to save the correction')
+        return
+      }
+
+      const updated: VoiceHistoryEntry = await response.json()
+      setEntries((current) => current.map((candidate) => (candidate.id === updated.id ? updated : candidate)))
+      setEditingId(null)
+      setExpected(null)
+    } catch {
+      setError('Failed to save the correction. Check your connection.')
+    }
+  }
+
+  // Run a past command again, as corrected if it was
+  async function rerun(entry: VoiceHistoryEntry) {
+    setRunningId(entry.id)
+    setRerunResult(null)
+
+    try {
+      const response = await fetch('/api/voice-command', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          transcript: entry.corrected_transcript ?? entry.cleaned_transcript,
+          listId: entry.list_id ?? undefined,
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setRerunResult({ id: entry.id, message: data.error || 'Failed to run the command', failed: true })
+        return
+      }
+
+      // Choices can only be answered from the microphone
+      const message = data.needsClarification
+        ? `${data.needsClarification.question} Say the command again to choose.`
+        : data.answer || data.message || 'Done!'
+      setRerunResult({ id: entry.id, message, failed: false })
+      window.dispatchEvent(new CustomEvent('voice-command-success'))
+      loadHistory()
+    } catch {
+      setRerunResult({ id: entry.id, message: 'Failed to run the command. Check your connection.', failed: true })
+    } finally {
+      setRunningId(null)
+    }
+  }
+
+  const hasCorrections = entries.some((entry) => entry.corrected_parsed)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Voice History</DialogTitle>
+          <DialogDescription>
+            Your recent voice commands. Re-run one, or correct what it should have done.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="max-h-[60vh] overflow-y-auto divide-y">
+          {loading && entries.length === 0 && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          )}
+          {!loading && entries.length === 0 && (
+            <p className="py-6 text-center text-sm text-gray-500">No voice commands yet</p>
+          )}
+
+          {entries.map((entry) => (
+            <div key={entry.id} className="py-3 space-y-1.5">
+              <div className="flex items-start gap-2">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium">&ldquo;{entry.cleaned_transcript}&rdquo;</p>
+                  {entry.corrected_transcript && (
+                    <p className="text-sm text-green-700">Meant: &ldquo;{entry.corrected_transcript}&rdquo;</p>
+                  )}
+                  <p className={`text-xs ${entry.error ? 'text-red-600' : 'text-gray-500'}`}>
+                    {entry.error || entry.message}
+                  </p>
+                  <p className="text-xs text-gray-400">{new Date(entry.created_at).toLocaleString()}</p>
+                </div>
+                <Badge variant={entry.outcome === 'failed' ? 'destructive' : 'secondary'}>
+                  {OUTCOME_LABELS[entry.outcome]}
+                </Badge>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => rerun(entry)}
+                  disabled={runningId !== null}
+                  aria-label="Re-run"
+                >
+                  {runningId === entry.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4" />
+                  )}
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => startEditing(entry)} aria-label="Correct">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {rerunResult?.id === entry.id && (
+                <p className={`text-xs ${rerunResult.failed ? 'text-red-600' : 'text-green-700'}`}>
+                  {rerunResult.message}
+                </p>
+              )}
+
+              {editingId === entry.id && expected === null && (
+                <form onSubmit={(e) => reviewParse(e, entry)} className="flex gap-2">
+                  <Input
+                    value={correction}
+                    onChange={(e) => setCorrection(e.target.value)}
+                    placeholder="What you meant to say"
+                    autoFocus
+                  />
+                  <Button type="submit" size="sm">
+                    {correction.trim() ? 'Next' : 'Save'}
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                    Cancel
+                  </Button>
+                </form>
+              )}
+
+              {editingId === entry.id && expected !== null && (
+                <form onSubmit={(e) => confirmParse(e, entry)} className="space-y-2">
+                  <p className="text-xs text-gray-500">
+                    What &ldquo;{entry.cleaned_transcript}&rdquo; should parse to. Fix anything the parser got wrong.
+                  </p>
+                  <Textarea
+                    value={expected}
+                    onChange={(e) => setExpected(e.target.value)}
+                    className="font-mono text-xs"
+                    rows={8}
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" size="sm" variant="ghost" onClick={() => setExpected(null)}>
+                      Back
+                    </Button>
+                    <Button type="submit" size="sm">
+                      Save
+                    </Button>
+                  </div>
+                </form>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {hasCorrections && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" asChild>
+              <a href="/api/voice-commands/export" download>
+                <Download className="h-4 w-4 mr-1.5" />
+                Export corrections as parser tests
+              </a>
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
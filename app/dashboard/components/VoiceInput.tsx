@@ -1,11 +1,18 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import { Button } from '@/components/ui/button'
-import { Mic, MicOff, Loader2, Check, X } from 'lucide-react'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Mic, MicOff, Loader2, Check, X, Undo2, ShoppingCart } from 'lucide-react'
+import { getLanguagePack, type VoiceLanguage } from '@/lib/language-packs'
+import { MAX_ALTERNATIVES } from '@/lib/voice-alternatives'
+import { readWakeUtterance } from '@/lib/voice-parser'
 
 // Web Speech API types
 interface SpeechRecognitionEvent extends Event {
+  resultIndex: number
   results: SpeechRecognitionResultList
 }
 
@@ -38,19 +45,213 @@ declare global {
   }
 }
 
-type VoiceState = 'idle' | 'listening' | 'processing' | 'success' | 'error'
+type VoiceState =
+  | 'idle'
+  | 'listening'
+  | 'processing'
+  | 'clarifying'
+  | 'confirming'
+  | 'editing'
+  | 'success'
+  | 'error'
+
+// Returned by /api/voice-command when a command could mean several things;
+// answering sends the token back with the chosen option
+type Clarification = {
+  question: string
+  options: { id: string; label: string }[]
+  token: string
+}
+
+// Returned by /api/voice-command/preview; confirming posts the token back
+type PendingPlan = {
+  summary: string
+  planToken: string
+}
+
+const CONFIRM_MODE_KEY = 'grocery-hopper-voice-confirm'
+
+// Read an answer aloud, for hands-free use in the store. Answers come back
+// in the user's voice language; lang is its speech tag. onDone runs once
+// the speech has finished, or straight away when the browser can't speak.
+function speak(text: string, lang: string, onDone?: () => void) {
+  if (!('speechSynthesis' in window)) {
+    onDone?.()
+    return
+  }
+  window.speechSynthesis.cancel()
+  const utterance = new SpeechSynthesisUtterance(text)
+  utterance.lang = lang
+  if (onDone) {
+    utterance.onend = onDone
+    utterance.onerror = onDone
+  }
+  window.speechSynthesis.speak(utterance)
+}
 
 interface VoiceInputProps {
   listId?: string // Optional: target a specific list
+  language?: VoiceLanguage // From the user's profile; English by default
 }
 
-export function VoiceInput({ listId }: VoiceInputProps) {
+export function VoiceInput({ listId, language }: VoiceInputProps) {
+  const languagePack = getLanguagePack(language)
   const [state, setState] = useState<VoiceState>('idle')
   const [transcript, setTranscript] = useState('')
   const [feedback, setFeedback] = useState('')
   const [isSupported, setIsSupported] = useState(true)
+  const [clarification, setClarification] = useState<Clarification | null>(null)
+  const [pendingPlan, setPendingPlan] = useState<PendingPlan | null>(null)
+  const [editText, setEditText] = useState('')
+  // Operation recorded for the last successful command, for undo
+  const [operationId, setOperationId] = useState<string | null>(null)
+  // Confirm before applying: preview each command first
+  const [confirmMode, setConfirmMode] = useState(() => {
+    if (typeof window === 'undefined') return false
+    return localStorage.getItem(CONFIRM_MODE_KEY) === 'true'
+  })
+  // Hands-free shopping: listen continuously for "hopper, ..." commands
+  const [shoppingMode, setShoppingMode] = useState(false)
+  // Off while a command is processed or a reply is spoken
+  const [shoppingListening, setShoppingListening] = useState(false)
   const recognitionRef = useRef<SpeechRecognitionInstance | null>(null)
   const timeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const resetTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  // Read from recognition callbacks, which are set up once per listId
+  const clarificationRef = useRef<Clarification | null>(null)
+  const confirmModeRef = useRef(confirmMode)
+
+  useEffect(() => {
+    confirmModeRef.current = confirmMode
+    localStorage.setItem(CONFIRM_MODE_KEY, String(confirmMode))
+  }, [confirmMode])
+
+  const updateClarification = useCallback((next: Clarification | null) => {
+    clarificationRef.current = next
+    setClarification(next)
+  }, [])
+
+  // Return to idle after a result has been on screen for a while
+  const scheduleReset = useCallback((delay: number) => {
+    if (resetTimeoutRef.current) {
+      clearTimeout(resetTimeoutRef.current)
+    }
+    resetTimeoutRef.current = setTimeout(() => {
+      setState('idle')
+      setTranscript('')
+      setFeedback('')
+      setOperationId(null)
+    }, delay)
+  }, [])
+
+  // Send a command (or a clarification answer) and show the outcome. With
+  // preview set nothing is applied yet; the plan waits for Confirm. Returns
+  // the outcome as a sentence to read out in shopping mode.
+  const submit = useCallback(async (
+    body: Record<string, unknown>,
+    preview = false,
+    handsFree = false
+  ): Promise<string> => {
+    setState('processing')
+    setFeedback('Processing...')
+
+    try {
+      const response = await fetch(preview ? '/api/voice-command/preview' : '/api/voice-command', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to process command')
+      }
+
+      // Ambiguous command - ask which one was meant
+      if (data.needsClarification) {
+        updateClarification(data.needsClarification)
+        setState('clarifying')
+        setFeedback(data.needsClarification.question)
+        return data.needsClarification.question
+      }
+
+      updateClarification(null)
+
+      // Show the recognition alternative the server went with
+      if (data.transcript) {
+        setTranscript(data.transcript)
+      }
+
+      if (data.preview) {
+        setPendingPlan({ summary: data.preview.summary, planToken: data.planToken })
+        setState('confirming')
+        setFeedback(data.preview.summary)
+        return data.preview.summary
+      }
+
+      // Answer to a question: nothing changed, just say it
+      if (data.answer && !data.operationId) {
+        setState('success')
+        setFeedback(data.answer)
+        if (!handsFree) speak(data.answer, languagePack.speechLang)
+        scheduleReset(8000)
+        return data.answer
+      }
+
+      // Success!
+      setPendingPlan(null)
+      setState('success')
+      setFeedback(data.message || 'Done!')
+      setOperationId(data.operationId ?? null)
+      // Questions asked alongside changes are still read out
+      if (data.answer && !handsFree) speak(data.answer, languagePack.speechLang)
+
+      // Dispatch event to trigger dashboard refresh
+      window.dispatchEvent(new CustomEvent('voice-command-success'))
+
+      // Reset after 3 seconds, or longer when there's an Undo to reach
+      scheduleReset(data.operationId ? 6000 : 3000)
+
+      return [data.message || 'Done!', data.answer].filter(Boolean).join(' ')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Something went wrong'
+      updateClarification(null)
+      setPendingPlan(null)
+      setState('error')
+      setFeedback(message)
+
+      // Reset after 5 seconds
+      scheduleReset(5000)
+      return message
+    }
+  }, [updateClarification, scheduleReset, languagePack])
+
+  // Reverse the last command
+  const undo = async () => {
+    if (!operationId) return
+    setOperationId(null)
+    setState('processing')
+    setFeedback('Undoing...')
+
+    try {
+      const response = await fetch(`/api/operations/${operationId}/undo`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to undo')
+      }
+
+      setState('success')
+      setFeedback(data.message || 'Undone')
+      window.dispatchEvent(new CustomEvent('voice-command-success'))
+      scheduleReset(3000)
+    } catch (error) {
+      setState('error')
+      setFeedback(error instanceof Error ? error.message : 'Failed to undo')
+      scheduleReset(5000)
+    }
+  }
 
   useEffect(() => {
     // Check if browser supports Web Speech API
@@ -65,11 +266,17 @@ export function VoiceInput({ listId }: VoiceInputProps) {
     const recognition = new SpeechRecognition()
     recognition.continuous = false // Stop after one result
     recognition.interimResults = false // Only final results
-    recognition.lang = 'en-US'
-    recognition.maxAlternatives = 1
+    recognition.lang = languagePack.speechLang
+    recognition.maxAlternatives = MAX_ALTERNATIVES // The server picks the best fit
 
     recognition.onstart = () => {
       console.log('[Voice] Started listening')
+      // Don't let the microphone hear a spoken answer
+      window.speechSynthesis?.cancel()
+      if (resetTimeoutRef.current) {
+        clearTimeout(resetTimeoutRef.current)
+        resetTimeoutRef.current = null
+      }
       setState('listening')
       setTranscript('')
       setFeedback('Listening...')
@@ -84,8 +291,12 @@ export function VoiceInput({ listId }: VoiceInputProps) {
     }
 
     recognition.onresult = async (event) => {
-      const result = event.results[0][0].transcript
-      console.log('[Voice] Heard:', result)
+      const alternatives = Array.from(event.results[0], (alternative) => ({
+        transcript: alternative.transcript,
+        confidence: alternative.confidence,
+      }))
+      const result = alternatives[0].transcript
+      console.log('[Voice] Heard:', alternatives)
 
       // Clear timeout since we got a result
       if (timeoutRef.current) {
@@ -94,51 +305,15 @@ export function VoiceInput({ listId }: VoiceInputProps) {
       }
 
       setTranscript(result)
-      setState('processing')
-      setFeedback('Processing...')
-
-      try {
-        // Send to API for processing
-        const response = await fetch('/api/voice-command', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            transcript: result,
-            listId: listId,
-          }),
-        })
-
-        const data = await response.json()
-
-        if (!response.ok) {
-          throw new Error(data.error || 'Failed to process command')
-        }
-
-        // Success!
-        setState('success')
-        setFeedback(data.message || 'Done!')
-
-        // Dispatch event to trigger dashboard refresh
-        window.dispatchEvent(new CustomEvent('voice-command-success'))
 
-        // Reset after 3 seconds
-        setTimeout(() => {
-          setState('idle')
-          setTranscript('')
-          setFeedback('')
-        }, 3000)
-
-      } catch (error) {
-        setState('error')
-        setFeedback(error instanceof Error ? error.message : 'Something went wrong')
-
-        // Reset after 5 seconds
-        setTimeout(() => {
-          setState('idle')
-          setTranscript('')
-          setFeedback('')
-        }, 5000)
-      }
+      // While a question is pending, speech answers it ("the first one")
+      const pending = clarificationRef.current
+      await submit(
+        pending
+          ? { token: pending.token, choiceText: result }
+          : { transcript: result, alternatives, listId: listId },
+        confirmModeRef.current
+      )
     }
 
     recognition.onerror = (event) => {
@@ -146,8 +321,9 @@ export function VoiceInput({ listId }: VoiceInputProps) {
 
       // Ignore "aborted" errors (happens when user stops manually or component unmounts)
       if (event.error === 'aborted') {
-        setState('idle')
-        setFeedback('')
+        const pending = clarificationRef.current
+        setState(pending ? 'clarifying' : 'idle')
+        setFeedback(pending ? pending.question : '')
         return
       }
 
@@ -161,9 +337,11 @@ export function VoiceInput({ listId }: VoiceInputProps) {
       setState('error')
       setFeedback(errorMessage)
 
+      // Go back to the pending question, if any, so it can be answered
       setTimeout(() => {
-        setState('idle')
-        setFeedback('')
+        const pending = clarificationRef.current
+        setState(pending ? 'clarifying' : 'idle')
+        setFeedback(pending ? pending.question : '')
       }, 3000)
     }
 
@@ -176,12 +354,13 @@ export function VoiceInput({ listId }: VoiceInputProps) {
         timeoutRef.current = null
       }
 
-      // Always reset to idle if still in listening state
-      // (if we got a result, state will already be 'processing')
+      // Always reset if still in listening state (if we got a result,
+      // state will already be 'processing'). A pending question stays up.
       setState(current => {
         if (current === 'listening') {
-          setFeedback('')
-          return 'idle'
+          const pending = clarificationRef.current
+          setFeedback(pending ? pending.question : '')
+          return pending ? 'clarifying' : 'idle'
         }
         return current
       })
@@ -196,11 +375,126 @@ export function VoiceInput({ listId }: VoiceInputProps) {
       if (timeoutRef.current) {
         clearTimeout(timeoutRef.current)
       }
+      if (resetTimeoutRef.current) {
+        clearTimeout(resetTimeoutRef.current)
+      }
+    }
+  }, [listId, languagePack, submit])
+
+  // Shopping mode runs its own continuous recognizer. It pauses while a
+  // command is processed and its reply spoken, so the reply isn't heard as
+  // speech, and restarts whenever the browser ends it after a silence.
+  useEffect(() => {
+    if (!shoppingMode) return
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition
+    if (!SpeechRecognition) return
+
+    const recognition = new SpeechRecognition()
+    recognition.continuous = true
+    recognition.interimResults = false
+    recognition.lang = languagePack.speechLang
+    recognition.maxAlternatives = MAX_ALTERNATIVES
+    let active = true
+    let paused = false
+
+    const listen = () => {
+      if (!active || paused) return
+      try {
+        recognition.start()
+      } catch {
+        // Already listening
+      }
     }
-  }, [listId])
+
+    const pause = () => {
+      paused = true
+      setShoppingListening(false)
+      recognition.abort()
+    }
+
+    // Say something with the microphone off, then listen again
+    const reply = (text: string) => {
+      pause()
+      speak(text, languagePack.speechLang, () => {
+        paused = false
+        listen()
+      })
+    }
+
+    recognition.onstart = () => {
+      console.log('[Voice] Shopping mode listening')
+      setShoppingListening(true)
+    }
+
+    recognition.onresult = async (event) => {
+      const result = event.results[event.resultIndex]
+      if (!result?.isFinal) return
+      const heard = Array.from(result, (alternative) => ({
+        transcript: alternative.transcript,
+        confidence: alternative.confidence,
+      }))
+      console.log('[Voice] Shopping mode heard:', heard)
+
+      const utterance = readWakeUtterance(heard[0].transcript, languagePack)
+      if (utterance?.kind === 'stop') {
+        active = false
+        recognition.abort()
+        setShoppingMode(false)
+        speak(languagePack.replies.shoppingModeOff, languagePack.speechLang)
+        return
+      }
+
+      // A pending question takes any answer, wake phrase or not
+      const pending = clarificationRef.current
+      if (pending) {
+        const answer = utterance?.text ?? heard[0].transcript
+        pause()
+        setTranscript(answer)
+        reply(await submit({ token: pending.token, choiceText: answer }, false, true))
+        return
+      }
+
+      // Not meant for us
+      if (!utterance) return
+
+      // Drop the wake phrase from every guess; those without one weren't commands
+      const alternatives = heard.flatMap((alternative) => {
+        const command = readWakeUtterance(alternative.transcript, languagePack)
+        return command?.kind === 'command' ? [{ transcript: command.text, confidence: alternative.confidence }] : []
+      })
+      pause()
+      setTranscript(utterance.text)
+      reply(await submit({ transcript: utterance.text, alternatives, listId: listId }, false, true))
+    }
+
+    recognition.onerror = (event) => {
+      // Silence and our own pauses end the session; onend picks it up again
+      if (event.error === 'no-speech' || event.error === 'aborted') return
+      console.error('Shopping mode recognition error:', event.error)
+      active = false
+      setShoppingMode(false)
+      setState('error')
+      setFeedback(event.error === 'not-allowed' ? 'Microphone access denied' : 'Voice recognition failed')
+      scheduleReset(5000)
+    }
+
+    recognition.onend = () => {
+      setShoppingListening(false)
+      listen()
+    }
+
+    reply(languagePack.replies.shoppingModeOn(languagePack.wakePhrases.at(-1)!))
+
+    return () => {
+      active = false
+      recognition.abort()
+      window.speechSynthesis?.cancel()
+      setShoppingListening(false)
+    }
+  }, [shoppingMode, listId, languagePack, submit, scheduleReset])
 
   const startListening = () => {
-    if (recognitionRef.current && state === 'idle') {
+    if (recognitionRef.current && (state === 'idle' || state === 'clarifying')) {
       try {
         recognitionRef.current.start()
       } catch (error) {
@@ -230,6 +524,36 @@ export function VoiceInput({ listId }: VoiceInputProps) {
     }
   }
 
+  const cancel = () => {
+    updateClarification(null)
+    setPendingPlan(null)
+    setState('idle')
+    setTranscript('')
+    setFeedback('')
+  }
+
+  const confirmPlan = () => {
+    if (pendingPlan) {
+      submit({ planToken: pendingPlan.planToken })
+    }
+  }
+
+  // Fix a misheard transcript by hand, then preview again
+  const startEditing = () => {
+    setPendingPlan(null)
+    setEditText(transcript)
+    setState('editing')
+    setFeedback('')
+  }
+
+  const submitEdit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const text = editText.trim()
+    if (!text) return
+    setTranscript(text)
+    submit({ transcript: text, listId: listId }, true)
+  }
+
   if (!isSupported) {
     return (
       <div className="fixed bottom-6 left-1/2 -translate-x-1/2 bg-gray-100 text-gray-600 px-4 py-2 rounded-full text-sm">
@@ -240,6 +564,23 @@ export function VoiceInput({ listId }: VoiceInputProps) {
 
   return (
     <div className="fixed bottom-6 left-1/2 -translate-x-1/2 flex flex-col items-center gap-2">
+      {/* Shopping Mode Indicator */}
+      {shoppingMode && (
+        <div className="flex items-center gap-2 bg-white px-3 py-1.5 rounded-full shadow-lg text-xs text-gray-700">
+          <span
+            className={`h-2 w-2 rounded-full ${shoppingListening ? 'bg-red-500 animate-pulse' : 'bg-gray-300'}`}
+          />
+          <span>
+            {shoppingListening
+              ? <>Shopping mode &mdash; say &ldquo;hopper, &hellip;&rdquo;</>
+              : 'Shopping mode paused'}
+          </span>
+          <button onClick={() => setShoppingMode(false)} className="font-semibold hover:text-gray-900">
+            Stop
+          </button>
+        </div>
+      )}
+
       {/* Feedback Text */}
       {feedback && (
         <div
@@ -252,11 +593,75 @@ export function VoiceInput({ listId }: VoiceInputProps) {
           }`}
         >
           {feedback}
+          {state === 'success' && operationId && (
+            <button
+              onClick={undo}
+              className="ml-3 inline-flex items-center gap-1 font-semibold underline-offset-2 hover:underline"
+            >
+              <Undo2 className="h-3.5 w-3.5" />
+              Undo
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Clarification Choices */}
+      {clarification && (state === 'clarifying' || state === 'listening') && (
+        <div className="bg-white px-3 py-2 rounded-lg shadow-lg text-sm max-w-xs w-72 space-y-1">
+          {clarification.options.map((option, index) => (
+            <button
+              key={option.id}
+              onClick={() => submit({ token: clarification.token, choice: index }, confirmMode)}
+              className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left hover:bg-gray-100"
+            >
+              <span className="text-xs text-gray-400">{index + 1}.</span>
+              <span className="truncate">{option.label}</span>
+            </button>
+          ))}
+          <div className="flex items-center justify-between pt-1 text-xs text-gray-500">
+            <span>Tap or say &ldquo;the first one&rdquo;</span>
+            <button onClick={cancel} className="hover:text-gray-700">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Preview Confirmation */}
+      {pendingPlan && state === 'confirming' && (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={confirmPlan}>
+            Confirm
+          </Button>
+          <Button size="sm" variant="outline" onClick={startEditing}>
+            Edit
+          </Button>
+          <Button size="sm" variant="ghost" onClick={cancel}>
+            Cancel
+          </Button>
         </div>
       )}
 
+      {/* Transcript Editor */}
+      {state === 'editing' && (
+        <form onSubmit={submitEdit} className="bg-white p-2 rounded-lg shadow-lg flex gap-2 w-80">
+          <Input
+            value={editText}
+            onChange={(e) => setEditText(e.target.value)}
+            placeholder="add 2 lb chicken and milk"
+            autoFocus
+          />
+          <Button type="submit" size="sm" disabled={!editText.trim()}>
+            Preview
+          </Button>
+          <Button type="button" size="sm" variant="ghost" onClick={cancel}>
+            <X className="h-4 w-4" />
+          </Button>
+        </form>
+      )}
+
       {/* Transcript Display */}
-      {transcript && (
+      {transcript && state !== 'editing' && (
         <div className="bg-white px-4 py-2 rounded-lg shadow-lg text-sm text-gray-700 max-w-xs text-center">
           &ldquo;{transcript}&rdquo;
         </div>
@@ -265,7 +670,7 @@ export function VoiceInput({ listId }: VoiceInputProps) {
       {/* Main Voice Button */}
       <Button
         onClick={state === 'listening' ? stopListening : startListening}
-        disabled={state === 'processing'}
+        disabled={shoppingMode || state === 'processing' || state === 'confirming' || state === 'editing'}
         size="lg"
         className={`h-16 w-16 rounded-full shadow-2xl transition-all ${
           state === 'listening'
@@ -293,11 +698,30 @@ export function VoiceInput({ listId }: VoiceInputProps) {
       </Button>
 
       {/* Hint Text */}
-      {state === 'idle' && (
+      {state === 'idle' && !shoppingMode && (
         <p className="text-xs text-gray-500 text-center max-w-xs">
-          Tap to speak commands like &ldquo;add milk&rdquo; or &ldquo;check off eggs&rdquo;
+          Tap to speak commands like &ldquo;{languagePack.examples[0]}&rdquo; or
+          &ldquo;{languagePack.examples[1]}&rdquo;, or ask &ldquo;{languagePack.examples[2]}&rdquo;
         </p>
       )}
+      {state === 'idle' && !shoppingMode && (
+        <Button size="sm" variant="outline" onClick={() => setShoppingMode(true)}>
+          <ShoppingCart className="h-4 w-4 mr-1.5" />
+          Shopping mode
+        </Button>
+      )}
+      {state === 'idle' && !shoppingMode && (
+        <div className="flex items-center gap-1.5">
+          <Checkbox
+            id="voice-confirm-mode"
+            checked={confirmMode}
+            onCheckedChange={(checked) => setConfirmMode(checked === true)}
+          />
+          <Label htmlFor="voice-confirm-mode" className="text-xs font-normal text-gray-500">
+            Confirm before applying
+          </Label>
+        </div>
+      )}
     </div>
   )
 }
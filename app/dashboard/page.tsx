@@ -1,6 +1,7 @@
 import { redirect } from 'next/navigation'
 import { createClient } from '@/lib/supabase/server'
 import { transformShares } from '@/lib/list-state'
+import { getLanguagePack } from '@/lib/language-packs'
 import { VoiceInput } from './components/VoiceInput'
 import { DashboardContent } from './components/DashboardContent'
 
@@ -24,6 +25,9 @@ export default async function DashboardPage() {
         name,
         description,
         is_active,
+        merge_duplicates,
+        auto_categorize,
+        store_id,
         share_code,
         user_id,
         created_at,
@@ -34,15 +38,23 @@ export default async function DashboardPage() {
 
   const lists = transformShares(shares)
 
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('voice_language')
+    .eq('id', user.id)
+    .single()
+  const voiceLanguage = getLanguagePack(profile?.voice_language).code
+
   return (
     <div className="min-h-screen bg-background">
       <DashboardContent
         initialLists={lists}
         userId={user.id}
+        voiceLanguage={voiceLanguage}
       />
 
       {/* Floating Voice Input Button */}
-      <VoiceInput />
+      <VoiceInput language={voiceLanguage} />
     </div>
   )
 }
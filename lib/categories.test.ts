@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { CategoryError, mergeAliases, readCategoryChanges } from './categories'
+
+describe('readCategoryChanges', () => {
+  it('keeps only the fields given, tidied', () => {
+    expect(readCategoryChanges({ id: 'c', name: ' Fruit & Veg ', icon: '' })).toEqual({
+      name: 'Fruit & Veg',
+      icon: null,
+    })
+    expect(readCategoryChanges({ color: '#3b82f6', aliases: ['Produce', ' ', 'produce', 'Greens'] })).toEqual({
+      color: '#3b82f6',
+      aliases: ['Produce', 'Greens'],
+    })
+  })
+
+  it.each([
+    [{ name: '  ' }, 'Name required'],
+    [{ color: 'blue' }, 'Color must be a hex color like #3B82F6'],
+    [{ icon: 5 }, 'Invalid icon'],
+    [{ aliases: 'Dairy' }, 'Aliases must be a list of names'],
+  ])('rejects %j', (body, message) => {
+    expect(() => readCategoryChanges(body)).toThrow(new CategoryError(message, 400))
+  })
+})
+
+describe('mergeAliases', () => {
+  it('adds new names after the existing aliases', () => {
+    expect(mergeAliases(['Fridge'], ['Dairy', 'Eggs', 'fridge'])).toEqual(['Fridge', 'Dairy', 'Eggs'])
+  })
+
+  it("leaves out the category's own name", () => {
+    expect(mergeAliases([], ['Cold Stuff', 'Dairy'], 'cold stuff')).toEqual(['Dairy'])
+  })
+})
@@ -0,0 +1,131 @@
+// Server-side category management for /api/categories: validating edits,
+// reordering and merging. Callers pass in their request-scoped Supabase
+// client, so RLS still applies.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { itemNameKey } from './item-matcher'
+import type { Category } from './list-state'
+
+export type CategoryChanges = Partial<Pick<Category, 'name' | 'color' | 'icon'> & { aliases: string[] }>
+
+export class CategoryError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i
+
+/**
+ * Validate a PATCH body's changes: a non-blank name, a #rrggbb color, an
+ * icon or null, and aliases as a list of names (trimmed, blanks and
+ * repeats dropped). Throws CategoryError for anything else.
+ */
+export function readCategoryChanges(body: Record<string, unknown>): CategoryChanges {
+  const changes: CategoryChanges = {}
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      throw new CategoryError('Name required', 400)
+    }
+    changes.name = body.name.trim()
+  }
+  if (body.color !== undefined) {
+    if (typeof body.color !== 'string' || !COLOR_PATTERN.test(body.color)) {
+      throw new CategoryError('Color must be a hex color like #3B82F6', 400)
+    }
+    changes.color = body.color
+  }
+  if (body.icon !== undefined) {
+    if (body.icon !== null && typeof body.icon !== 'string') {
+      throw new CategoryError('Invalid icon', 400)
+    }
+    changes.icon = (body.icon as string | null)?.trim() || null
+  }
+  if (body.aliases !== undefined) {
+    if (!Array.isArray(body.aliases) || !body.aliases.every(alias => typeof alias === 'string')) {
+      throw new CategoryError('Aliases must be a list of names', 400)
+    }
+    changes.aliases = mergeAliases([], body.aliases)
+  }
+
+  return changes
+}
+
+/**
+ * Add names to a category's aliases, skipping blanks and any it already
+ * answers to, by itemNameKey. exclude is the category's own name.
+ */
+export function mergeAliases(aliases: string[], names: string[], exclude?: string): string[] {
+  const seen = new Set([...aliases, ...(exclude ? [exclude] : [])].map(itemNameKey))
+  const merged = [...aliases]
+  for (const name of names.map(name => name.trim())) {
+    const key = itemNameKey(name)
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+    merged.push(name)
+  }
+  return merged
+}
+
+// set_category_order's error code for ids that aren't the list's categories
+const STALE_ORDER = '40001'
+
+/**
+ * Put a list's categories in the given order, in one statement
+ * (set_category_order). ids must be exactly the list's categories, so a
+ * reorder based on a stale view is refused rather than half applied.
+ */
+export async function reorderCategories(
+  supabase: SupabaseClient,
+  listId: string,
+  ids: string[]
+): Promise<void> {
+  const { error } = await supabase.rpc('set_category_order', { target_list: listId, ids })
+
+  if (error?.code === STALE_ORDER) {
+    throw new CategoryError(error.message, 409)
+  }
+  if (error) {
+    throw new Error(`Failed to reorder categories: ${error.message}`)
+  }
+}
+
+// merge_categories' error codes
+const MERGE_ERROR_STATUS: Record<string, number> = {
+  'P0002': 404,
+  '22023': 400,
+  '42501': 403,
+}
+
+/**
+ * Move every item in one category to another on the same list, then
+ * delete the emptied category, all in one transaction. With keepAliases
+ * the target takes on the source's name and aliases as aliases, so items
+ * are still filed and routed under it. Deleting is for list owners only.
+ * Returns how many items moved.
+ */
+export async function mergeCategories(
+  supabase: SupabaseClient,
+  sourceId: string,
+  targetId: string,
+  keepAliases: boolean
+): Promise<number> {
+  if (sourceId === targetId) {
+    throw new CategoryError("Can't merge a category into itself", 400)
+  }
+
+  const { data: moved, error } = await supabase.rpc('merge_categories', {
+    source_id: sourceId,
+    target_id: targetId,
+    keep_aliases: keepAliases,
+  })
+
+  if (error) {
+    const status = MERGE_ERROR_STATUS[error.code]
+    if (status) throw new CategoryError(error.message, status)
+    throw new Error(`Failed to merge categories: ${error.message}`)
+  }
+
+  return moved as number
+}
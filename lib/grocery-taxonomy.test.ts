@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { departmentFor, findDepartmentCategory, taxonomyTerms } from './grocery-taxonomy'
+import { itemNameKey } from './item-matcher'
+
+describe('taxonomy data', () => {
+  it('files each term under one department', () => {
+    const seen = new Map<string, string>()
+    const conflicts: string[] = []
+    for (const [department, term] of taxonomyTerms()) {
+      const key = itemNameKey(term)
+      const previous = seen.get(key)
+      if (previous && previous !== department) conflicts.push(`${term}: ${previous} and ${department}`)
+      seen.set(key, department)
+    }
+    expect(conflicts).toEqual([])
+  })
+})
+
+describe('departmentFor', () => {
+  it.each([
+    ['Bananas', 'produce'],
+    ['Greek Yogurt 32oz', 'dairy'],
+    ['Chocolate Milk', 'dairy'],
+    ['Peanut Butter', 'pantry'],
+    ['organic baby spinach', 'produce'],
+    ['Boneless Chicken Thighs', 'meat'],
+    ['Frozen Peas', 'frozen'],
+    ['Sourdough Bread', 'bakery'],
+    ['Dish Soap', 'household'],
+    ['Kitty Litter', 'pet'],
+  ])('%s is %s', (name, department) => {
+    expect(departmentFor(name)).toBe(department)
+  })
+
+  it('returns null for names it does not know', () => {
+    expect(departmentFor('Flux Capacitor')).toBeNull()
+    expect(departmentFor('')).toBeNull()
+  })
+})
+
+describe('findDepartmentCategory', () => {
+  const categories = [
+    { id: 'veg', name: 'Fruit & Veg' },
+    { id: 'cold', name: 'Cold Stuff', aliases: ['Dairy'] },
+    { id: 'meat', name: 'Meat & Fish' },
+    { id: 'frozen', name: 'Frozen Foods' },
+  ]
+
+  it('matches names and aliases', () => {
+    expect(findDepartmentCategory(categories, 'produce')?.id).toBe('veg')
+    expect(findDepartmentCategory(categories, 'dairy')?.id).toBe('cold')
+  })
+
+  it('falls back to a category with the department among its words', () => {
+    expect(findDepartmentCategory(categories, 'frozen')?.id).toBe('frozen')
+    expect(findDepartmentCategory(categories, 'seafood')?.id).toBe('meat')
+    expect(findDepartmentCategory(categories, 'bakery')).toBeNull()
+  })
+})
@@ -0,0 +1,560 @@
+// Built-in grocery taxonomy: common grocery terms mapped to store
+// departments, for filing new items without a network lookup. Each list
+// names its own categories, so a department is matched to one of them by
+// name ("Dairy & Eggs" for dairy) or by an alias set on the category.
+// Pure data and string helpers, no network code.
+
+import { itemNameKey } from './item-matcher'
+import type { Category } from './list-state'
+
+export type Department =
+  | 'produce'
+  | 'dairy'
+  | 'meat'
+  | 'seafood'
+  | 'deli'
+  | 'bakery'
+  | 'frozen'
+  | 'pantry'
+  | 'baking'
+  | 'spices'
+  | 'condiments'
+  | 'breakfast'
+  | 'snacks'
+  | 'beverages'
+  | 'alcohol'
+  | 'household'
+  | 'personal_care'
+  | 'health'
+  | 'baby'
+  | 'pet'
+
+/** What a list's category for each department is likely to be called */
+export const DEPARTMENT_NAMES: Record<Department, string[]> = {
+  produce: ['produce', 'fruit', 'vegetables', 'veggies', 'fruit and vegetables', 'fruit & veg', 'greens', 'fresh'],
+  dairy: ['dairy', 'dairy & eggs', 'milk & eggs', 'eggs', 'cheese', 'refrigerated', 'fridge', 'chilled'],
+  meat: ['meat', 'meats', 'butcher', 'meat & poultry', 'poultry'],
+  seafood: ['seafood', 'fish', 'fish & seafood'],
+  deli: ['deli', 'prepared foods', 'charcuterie'],
+  bakery: ['bakery', 'bread', 'baked goods'],
+  frozen: ['frozen', 'frozen foods', 'freezer'],
+  pantry: ['pantry', 'dry goods', 'grocery', 'canned goods', 'canned', 'pasta & rice', 'grains'],
+  baking: ['baking', 'baking supplies'],
+  spices: ['spices', 'herbs & spices', 'seasonings'],
+  condiments: ['condiments', 'sauces', 'dressings'],
+  breakfast: ['breakfast', 'cereal'],
+  snacks: ['snacks', 'sweets', 'candy', 'chips', 'treats'],
+  beverages: ['beverages', 'drinks', 'soda', 'juice', 'coffee & tea', 'water'],
+  alcohol: ['alcohol', 'beer & wine', 'wine', 'beer', 'liquor', 'spirits', 'booze'],
+  household: ['household', 'cleaning', 'cleaning supplies', 'paper goods', 'home', 'kitchen'],
+  personal_care: ['personal care', 'toiletries', 'health & beauty', 'beauty', 'bath', 'hygiene'],
+  health: ['health', 'pharmacy', 'medicine', 'vitamins', 'first aid'],
+  baby: ['baby', 'baby care', 'kids'],
+  pet: ['pet', 'pets', 'pet supplies', 'pet food'],
+}
+
+/**
+ * Terms per department. Matching uses itemNameKey, so plurals and case
+ * don't matter; a term appears under one department only.
+ */
+const TERMS: Record<Department, string> = {
+  produce: `
+    apple, granny smith apple, honeycrisp apple, gala apple, fuji apple, pink lady apple, apricot, avocado,
+    banana, plantain, blackberry, blueberry, boysenberry, cantaloupe, cherry, cherries, clementine, coconut,
+    cranberry, currant, date, medjool date, dragon fruit, durian, elderberry, fig, gooseberry, grape,
+    red grape, green grape, grapefruit, guava, honeydew, jackfruit, kiwi, kiwifruit, kumquat, lemon, lime,
+    key lime, lychee, mandarin, mango, melon, mulberry, nectarine, orange, navel orange, blood orange,
+    papaya, passion fruit, peach, pear, asian pear, persimmon, pineapple, plum, pluot, pomegranate,
+    pomelo, quince, raspberry, rhubarb, starfruit, strawberry, tangerine, tangelo, ugli fruit, watermelon,
+    berries, mixed berries, fruit, fresh fruit, fruit salad, cut fruit, artichoke, arugula, asparagus,
+    bean sprouts, beet, beetroot, bell pepper, red pepper, green pepper, yellow pepper, orange pepper,
+    bok choy, baby bok choy, broccoli, broccolini, broccoli rabe, brussels sprouts, butternut squash,
+    acorn squash, spaghetti squash, delicata squash, squash, cabbage, red cabbage, napa cabbage, savoy cabbage,
+    carrot, baby carrots, cauliflower, celery, celeriac, chard, swiss chard, chayote, chicory, chili pepper,
+    chile pepper, jalapeno, serrano pepper, habanero, poblano, anaheim pepper, thai chili, collard greens,
+    collards, corn, corn on the cob, sweet corn, cucumber, english cucumber, persian cucumber, daikon,
+    eggplant, endive, escarole, fennel, frisee, garlic, garlic bulb, ginger, ginger root, green beans,
+    string beans, haricots verts, green onion, scallion, spring onion, horseradish root, jicama, kale,
+    lacinato kale, baby kale, kohlrabi, leek, lettuce, romaine, romaine lettuce, iceberg lettuce,
+    butter lettuce, green leaf lettuce, red leaf lettuce, spring mix, salad mix, mixed greens, baby spinach,
+    spinach, mesclun, microgreens, mushroom, button mushroom, cremini mushroom, portobello mushroom,
+    shiitake mushroom, oyster mushroom, enoki mushroom, chanterelle, morel, mustard greens, okra, onion,
+    red onion, yellow onion, white onion, sweet onion, vidalia onion, pearl onion, shallot, parsnip,
+    peas, snap peas, sugar snap peas, snow peas, english peas, potato, russet potato, red potato,
+    yukon gold potato, fingerling potato, baby potatoes, new potatoes, sweet potato, yam, pumpkin, radicchio,
+    radish, rutabaga, salsify, sprouts, alfalfa sprouts, tomatillo, tomato, cherry tomato, grape tomato,
+    roma tomato, heirloom tomato, beefsteak tomato, tomatoes on the vine, turnip, watercress, water chestnut,
+    zucchini, yellow squash, summer squash, cactus, nopales, taro, cassava, yuca, lemongrass,
+    fresh basil, fresh cilantro, cilantro, fresh parsley, parsley, flat leaf parsley, fresh dill, dill,
+    fresh mint, mint, fresh rosemary, fresh thyme, fresh sage, fresh chives, chives, fresh oregano,
+    fresh tarragon, fresh herbs, herbs, microherbs, coleslaw mix, broccoli slaw, stir fry vegetables,
+    veggie tray, vegetable tray, salad kit, caesar salad kit, vegetables, veggies, greens, sprout,
+    edamame in pod, fava beans, lima beans fresh, shelling beans, fiddleheads, ramps, sunchoke,
+    jerusalem artichoke, galangal, turmeric root, fresh turmeric, kaffir lime leaves, curry leaves,
+    bitter melon, long beans, chinese broccoli, gai lan, yu choy, tatsoi, mizuna, lotus root, burdock,
+    kabocha, honeynut squash, sweet potatoes, baby spinach salad, organic spinach, dandelion greens,
+    beet greens, turnip greens, pea shoots, garlic scapes, cipollini onion, banana pepper, shishito pepper,
+    mini peppers, sweet mini peppers, cubanelle pepper, hot peppers, lemon zest, lime wedges
+  `,
+  dairy: `
+    milk, whole milk, skim milk, 2% milk, 1% milk, low fat milk, nonfat milk, lactose free milk,
+    chocolate milk, strawberry milk, buttermilk, half and half, half-and-half, heavy cream,
+    heavy whipping cream, whipping cream, light cream, cream, sour cream, creme fraiche, clotted cream,
+    whipped cream, cool whip, coffee creamer, creamer, non dairy creamer, oat creamer, almond milk,
+    oat milk, soy milk, rice milk, cashew milk, coconut milk beverage, pea milk, goat milk, kefir,
+    yogurt, greek yogurt, plain yogurt, vanilla yogurt, strawberry yogurt, skyr, icelandic yogurt,
+    yogurt cups, drinkable yogurt, yogurt drink, dairy free yogurt, coconut yogurt, almond yogurt,
+    cottage cheese, ricotta, ricotta cheese, cream cheese, whipped cream cheese, neufchatel, mascarpone,
+    butter, salted butter, unsalted butter, european butter, ghee, margarine, butter spread,
+    plant butter, egg, eggs, large eggs, brown eggs, organic eggs, cage free eggs, free range eggs,
+    pasture raised eggs, egg whites, liquid eggs, egg substitute, duck eggs, quail eggs, cheese,
+    cheddar, cheddar cheese, sharp cheddar, mild cheddar, white cheddar, mozzarella, fresh mozzarella,
+    shredded mozzarella, string cheese, cheese sticks, parmesan, parmigiano reggiano, grana padano,
+    pecorino, pecorino romano, romano, asiago, swiss cheese, gruyere, emmental, jarlsberg, provolone,
+    monterey jack, pepper jack, colby, colby jack, muenster, havarti, gouda, smoked gouda, edam,
+    brie, camembert, goat cheese, chevre, feta, feta cheese, blue cheese, gorgonzola, roquefort, stilton,
+    manchego, halloumi, paneer, queso fresco, cotija, oaxaca cheese, queso blanco, burrata,
+    american cheese, cheese slices, sliced cheese, shredded cheese, mexican blend cheese,
+    italian blend cheese, cheese block, cheese spread, pimento cheese, boursin, babybel, laughing cow,
+    vegan cheese, dairy free cheese, cheese curds, fontina, taleggio, limburger, raclette, comte,
+    tofu, firm tofu, extra firm tofu, silken tofu, tempeh, seitan, pudding cups, pudding,
+    refrigerated dough, crescent rolls, biscuit dough, pizza dough, cookie dough, pie crust refrigerated,
+    orange juice refrigerated, eggnog, dulce de leche, sweetened condensed milk refrigerated, lassi,
+    probiotic drink, yakult, custard, flan, cream cheese spread, dairy, egg beaters, whipped topping,
+    hummus, guacamole, fresh salsa, pico de gallo, tzatziki, fresh pasta, refrigerated pasta, ravioli,
+    tortellini, gnocchi fresh, pesto fresh
+  `,
+  meat: `
+    meat, beef, ground beef, lean ground beef, ground chuck, ground sirloin, steak, ribeye, ribeye steak,
+    sirloin, sirloin steak, new york strip, strip steak, t-bone, porterhouse, filet mignon, tenderloin,
+    beef tenderloin, flank steak, skirt steak, hanger steak, flat iron steak, tri tip, chuck roast,
+    pot roast, brisket, beef brisket, short ribs, beef ribs, prime rib, rib roast, round steak,
+    stew meat, beef stew meat, cube steak, beef shank, oxtail, veal, veal cutlet, ground veal,
+    chicken, whole chicken, chicken breast, boneless chicken breast, chicken breasts, chicken thighs,
+    chicken thigh, boneless chicken thighs, chicken drumsticks, drumsticks, chicken legs, chicken wings,
+    wings, chicken tenders, chicken tenderloins, ground chicken, rotisserie chicken, chicken cutlets,
+    cornish hen, turkey, whole turkey, turkey breast, ground turkey, turkey legs, turkey wings,
+    duck, duck breast, goose, quail, pork, pork chops, pork chop, pork loin, pork tenderloin,
+    pork shoulder, pork butt, boston butt, pork belly, ground pork, pork ribs, spare ribs, baby back ribs,
+    ribs, country style ribs, ham, ham steak, spiral ham, bacon, thick cut bacon, turkey bacon,
+    canadian bacon, pancetta, sausage, italian sausage, breakfast sausage, sausage links, sausage patties,
+    bratwurst, brats, kielbasa, chorizo, andouille, hot dogs, hot dog, franks, frankfurters, wieners,
+    lamb, lamb chops, ground lamb, leg of lamb, rack of lamb, lamb shank, goat meat, venison, bison,
+    ground bison, elk, rabbit, liver, chicken liver, beef liver, chicken gizzards, tripe, bones,
+    soup bones, marrow bones, meatballs, burger patties, hamburger patties, hamburger, ground meat,
+    kebabs, marinated chicken, chicken sausage, turkey sausage, plant based meat, beyond meat,
+    impossible burger, veggie burger patties, pulled pork, carnitas, carne asada, fajita meat,
+    chicken fajita strips, stir fry beef, beef strips, bulgogi, lardons, salt pork, fatback, ham hock,
+    smoked ham hock, chitterlings, pork rinds raw, poultry
+  `,
+  seafood: `
+    fish, seafood, salmon, salmon fillet, atlantic salmon, sockeye salmon, coho salmon, king salmon,
+    smoked salmon, lox, tuna steak, ahi tuna, cod, cod fillet, halibut, tilapia, catfish, trout,
+    rainbow trout, sea bass, chilean sea bass, striped bass, branzino, snapper, red snapper, grouper,
+    mahi mahi, swordfish, flounder, sole, haddock, pollock, perch, walleye, pike, mackerel, sardines fresh,
+    anchovies fresh, herring, monkfish, orange roughy, arctic char, barramundi, whitefish, yellowtail,
+    shrimp, jumbo shrimp, raw shrimp, cooked shrimp, peeled shrimp, prawns, crab, crab legs, king crab,
+    snow crab, dungeness crab, crab meat, lump crab meat, imitation crab, surimi, lobster, lobster tails,
+    crawfish, crayfish, scallops, sea scallops, bay scallops, clams, littleneck clams, mussels, oysters,
+    squid, calamari, octopus, sea urchin, uni, roe, caviar, fish roe, fish fillets, fish sticks fresh,
+    poke, sashimi, sushi grade tuna, fish cakes, crab cakes, shellfish, seafood mix, ceviche
+  `,
+  deli: `
+    deli, deli meat, lunch meat, cold cuts, sliced turkey, turkey deli meat, deli turkey, smoked turkey,
+    sliced ham, deli ham, honey ham, black forest ham, roast beef, deli roast beef, pastrami, corned beef,
+    salami, genoa salami, hard salami, pepperoni, prosciutto, mortadella, bologna, capicola, soppressata,
+    chorizo sliced, liverwurst, head cheese, summer sausage, charcuterie, pate, rillettes, sliced chicken,
+    chicken salad, tuna salad, egg salad, potato salad, macaroni salad, pasta salad, coleslaw, olives,
+    olive bar, kalamata olives deli, marinated artichokes, stuffed grape leaves, dolmas, antipasto,
+    prepared meals, ready meals, sandwiches, sub sandwich, wraps deli, sushi, california roll, spring rolls,
+    fried chicken, deli sandwich, soup of the day, deli salad, lunchables, cheese tray, meat tray,
+    party platter, deviled eggs, quiche, deli cheese, sliced provolone, sliced swiss
+  `,
+  bakery: `
+    bread, white bread, wheat bread, whole wheat bread, whole grain bread, multigrain bread, rye bread,
+    pumpernickel, sourdough, sourdough bread, french bread, baguette, italian bread, ciabatta, focaccia,
+    brioche, challah, potato bread, sandwich bread, texas toast, raisin bread, cinnamon raisin bread,
+    banana bread, zucchini bread, cornbread, garlic bread, gluten free bread, ezekiel bread, sprouted bread,
+    pita, pita bread, naan, flatbread, lavash, tortillas, flour tortillas, corn tortillas, wraps,
+    tortilla wraps, bagel, bagels, english muffins, english muffin, muffin, muffins, blueberry muffins,
+    croissant, croissants, danish, pastries, pastry, scones, donut, donuts, doughnuts, cinnamon rolls,
+    sticky buns, buns, hamburger buns, hot dog buns, slider buns, brioche buns, kaiser rolls, rolls,
+    dinner rolls, hawaiian rolls, sub rolls, hoagie rolls, bread rolls, biscuits, cake, birthday cake,
+    cupcakes, cheesecake, pie, apple pie, pumpkin pie, pecan pie, cookies bakery, brownies, cannoli,
+    eclair, macarons, strudel, coffee cake, pound cake, angel food cake, breadsticks, pretzel rolls,
+    soft pretzels, crumpets, pound cake loaf, tortilla, bread crumbs fresh, croutons fresh, bakery,
+    sliced bread, loaf, artisan bread, rustic bread, king cake, babka, stollen, panettone, pan dulce,
+    conchas, empanadas, kolaches, beignets
+  `,
+  frozen: `
+    frozen, frozen vegetables, frozen peas, frozen corn, frozen broccoli, frozen spinach, frozen green beans,
+    frozen mixed vegetables, frozen stir fry, frozen fruit, frozen berries, frozen strawberries,
+    frozen blueberries, frozen mango, frozen pineapple, frozen pizza, pizza, frozen dinners, tv dinner,
+    frozen meals, frozen entrees, frozen lasagna, frozen burritos, burritos, frozen waffles, eggo waffles,
+    waffles, frozen pancakes, frozen french toast, frozen fries, french fries, tater tots, hash browns,
+    frozen hash browns, onion rings, frozen chicken nuggets, chicken nuggets, frozen chicken tenders,
+    chicken strips frozen, frozen fish sticks, fish sticks, frozen shrimp, frozen fish fillets,
+    frozen meatballs, frozen burgers, frozen dumplings, dumplings, potstickers, gyoza, egg rolls,
+    frozen egg rolls, frozen pierogies, pierogies, frozen ravioli, frozen pot pie, pot pie, frozen pie crust,
+    pie crust, puff pastry, phyllo dough, frozen bread dough, frozen garlic bread, frozen breakfast sandwiches,
+    frozen burritos breakfast, ice cream, gelato, sorbet, sherbet, frozen yogurt, ice cream bars,
+    ice cream sandwiches, popsicles, ice pops, freezer pops, fudge bars, drumsticks ice cream,
+    frozen novelties, ice cream cones frozen, ice cream cake, frozen custard, whipped topping frozen,
+    frozen cool whip, ice, bag of ice, ice cubes, frozen edamame, edamame, frozen cauliflower rice,
+    cauliflower rice, riced cauliflower, frozen riced broccoli, frozen sweet potato fries, frozen avocado,
+    frozen juice concentrate, juice concentrate, frozen lemonade, frozen appetizers, pizza rolls,
+    bagel bites, hot pockets, taquitos, frozen taquitos, mozzarella sticks, jalapeno poppers, corn dogs,
+    frozen corn dogs, frozen turkey, frozen chicken breasts, frozen ground beef, veggie burgers,
+    frozen veggie burgers, frozen falafel, frozen samosas, frozen naan, frozen rolls, frozen biscuits,
+    frozen cookie dough, frozen pie, frozen cheesecake, frozen desserts, mochi, mochi ice cream,
+    frozen smoothie packs, acai packs, acai, frozen okra, frozen lima beans, frozen collard greens,
+    frozen pearl onions, frozen butternut squash, frozen kale, frozen potatoes, frozen onions,
+    frozen peppers, frozen lobster tails, frozen scallops, frozen crab legs, frozen tilapia, frozen salmon,
+    frozen cod, frozen meals for one, lean cuisine, stouffers, frozen mac and cheese, frozen soup
+  `,
+  pantry: `
+    pantry, rice, white rice, brown rice, jasmine rice, basmati rice, wild rice, arborio rice, sushi rice,
+    instant rice, minute rice, rice pilaf, spanish rice, yellow rice, quinoa, couscous, pearl couscous,
+    bulgur, farro, barley, pearl barley, millet, freekeh, buckwheat, polenta, grits, cornmeal, amaranth,
+    pasta, spaghetti, penne, rigatoni, fusilli, rotini, farfalle, bow tie pasta, linguine, fettuccine,
+    angel hair, capellini, macaroni, elbow macaroni, elbows, shells, pasta shells, jumbo shells, orzo,
+    ziti, lasagna noodles, lasagna, manicotti, egg noodles, noodles, ramen, ramen noodles, instant ramen,
+    cup noodles, rice noodles, udon, soba, soba noodles, lo mein noodles, glass noodles, vermicelli,
+    pad thai noodles, gluten free pasta, chickpea pasta, whole wheat pasta, mac and cheese, macaroni and cheese,
+    kraft mac and cheese, boxed mac and cheese, pasta sauce, marinara, marinara sauce, spaghetti sauce,
+    alfredo sauce, vodka sauce, pesto, jarred pesto, tomato sauce, tomato paste, crushed tomatoes,
+    diced tomatoes, whole tomatoes, canned tomatoes, stewed tomatoes, fire roasted tomatoes, san marzano tomatoes,
+    sun dried tomatoes, canned beans, black beans, pinto beans, kidney beans, red kidney beans, cannellini beans,
+    white beans, great northern beans, navy beans, garbanzo beans, chickpeas, lentils, red lentils,
+    green lentils, brown lentils, split peas, black eyed peas, refried beans, baked beans, pork and beans,
+    lima beans, butter beans, dried beans, canned corn, creamed corn, canned peas, canned green beans,
+    canned carrots, canned potatoes, canned beets, canned spinach, canned pumpkin, pumpkin puree,
+    canned yams, canned vegetables, canned fruit, canned peaches, canned pears, canned pineapple,
+    mandarin oranges canned, fruit cocktail, applesauce, apple sauce, cranberry sauce, canned tuna, tuna,
+    tuna can, canned salmon, canned chicken, canned crab, sardines, anchovies, canned sardines,
+    spam, corned beef hash, vienna sausages, chili, canned chili, soup, canned soup, chicken noodle soup,
+    tomato soup, cream of mushroom soup, cream of chicken soup, minestrone, clam chowder, lentil soup,
+    broth, chicken broth, beef broth, vegetable broth, bone broth, stock, chicken stock, beef stock,
+    vegetable stock, bouillon, bouillon cubes, chicken bouillon, better than bouillon, coconut milk,
+    coconut cream, evaporated milk, sweetened condensed milk, condensed milk, powdered milk, dry milk,
+    peanut butter, creamy peanut butter, crunchy peanut butter, almond butter, cashew butter, sunflower butter,
+    nut butter, tahini, nutella, hazelnut spread, jelly, jam, grape jelly, strawberry jam, preserves,
+    marmalade, fruit spread, apple butter, honey, raw honey, maple syrup, syrup, pancake syrup, agave,
+    agave nectar, molasses, corn syrup, golden syrup, date syrup, olive oil, extra virgin olive oil,
+    vegetable oil, canola oil, coconut oil, avocado oil, sesame oil, toasted sesame oil, peanut oil,
+    sunflower oil, grapeseed oil, cooking spray, pam, shortening, crisco, lard, oil, vinegar,
+    white vinegar, apple cider vinegar, balsamic vinegar, red wine vinegar, rice vinegar, rice wine vinegar,
+    sherry vinegar, white wine vinegar, malt vinegar, cooking wine, mirin, sake cooking, breadcrumbs,
+    bread crumbs, panko, panko breadcrumbs, croutons, stuffing, stuffing mix, instant potatoes,
+    mashed potato flakes, boxed potatoes, scalloped potatoes box, rice a roni, hamburger helper, taco kit,
+    taco shells, hard taco shells, tostadas, tortilla chips taco, dinner kit, ramen packs, canned goods,
+    dry goods, nuts, almonds, walnuts, pecans, cashews, peanuts, pistachios, hazelnuts, macadamia nuts,
+    brazil nuts, pine nuts, mixed nuts, sunflower seeds, pumpkin seeds, pepitas, chia seeds, flax seeds,
+    flaxseed, ground flaxseed, hemp seeds, sesame seeds, dried fruit, raisins, golden raisins, craisins,
+    dried cranberries, dried apricots, prunes, dried dates, dried figs, dried mango, dried apples,
+    dried cherries, dried blueberries, coconut flakes, shredded coconut, nori, seaweed sheets, dried seaweed,
+    kombu, wakame, dried mushrooms, bamboo shoots, water chestnuts canned, baby corn, hearts of palm,
+    artichoke hearts, roasted red peppers, pimentos, capers, olives jarred, black olives, green olives,
+    kalamata olives, pickled peppers, banana peppers jarred, jalapenos jarred, chipotle peppers in adobo,
+    green chiles, diced green chiles, enchilada sauce, curry paste, red curry paste, green curry paste,
+    coconut water canned, instant noodles, matzo, matzo meal, gelatin, jello, unflavored gelatin,
+    pudding mix, instant pudding, protein powder, meal replacement, canned coconut milk, boxed broth,
+    soup mix, onion soup mix, ramen noodle soup, miso, miso paste, tofu shelf stable, jackfruit canned,
+    grains, lentil pasta, rice cakes plain, wild rice blend, grain bowl, microwave rice, ready rice
+  `,
+  baking: `
+    flour, all purpose flour, bread flour, cake flour, whole wheat flour, self rising flour, almond flour,
+    coconut flour, rice flour, gluten free flour, oat flour, rye flour, semolina, cornstarch, corn starch,
+    arrowroot, tapioca starch, potato starch, sugar, white sugar, granulated sugar, brown sugar,
+    light brown sugar, dark brown sugar, powdered sugar, confectioners sugar, icing sugar, cane sugar,
+    raw sugar, turbinado sugar, coconut sugar, sugar cubes, stevia, splenda, sweetener, artificial sweetener,
+    monk fruit sweetener, erythritol, baking soda, baking powder, yeast, active dry yeast, instant yeast,
+    cream of tartar, vanilla, vanilla extract, pure vanilla extract, almond extract, peppermint extract,
+    lemon extract, vanilla bean, food coloring, sprinkles, chocolate chips, semi sweet chocolate chips,
+    white chocolate chips, butterscotch chips, peanut butter chips, baking chocolate, unsweetened chocolate,
+    cocoa, cocoa powder, unsweetened cocoa, dutch process cocoa, chocolate bar baking, candy melts,
+    cake mix, brownie mix, cookie mix, muffin mix, cornbread mix, pancake mix, bisquick, baking mix,
+    pie filling, cherry pie filling, pumpkin pie filling, frosting, icing, canned frosting, marshmallow fluff,
+    marzipan, almond paste, graham cracker crumbs, graham cracker crust, pie shell, ready crust,
+    sweetened coconut, slivered almonds, sliced almonds, chopped walnuts, chopped pecans, maraschino cherries,
+    candied fruit, candied ginger, evaporated cane juice, malt powder, pectin, baking, cupcake liners,
+    parchment paper baking, decorating gel, edible glitter, meringue powder, wheat germ, oat bran,
+    vital wheat gluten, xanthan gum, dates baking, corn meal, masa, masa harina, pizza flour, 00 flour
+  `,
+  spices: `
+    spices, salt, sea salt, kosher salt, table salt, iodized salt, himalayan salt, pink salt, flaky salt,
+    pepper, black pepper, ground black pepper, peppercorns, black peppercorns, white pepper, garlic powder,
+    garlic salt, onion powder, onion salt, paprika, smoked paprika, sweet paprika, cayenne, cayenne pepper,
+    chili powder, chipotle powder, ancho chili powder, red pepper flakes, crushed red pepper, cumin,
+    ground cumin, cumin seeds, coriander, ground coriander, coriander seeds, turmeric, ground turmeric,
+    ginger powder, ground ginger, cinnamon, ground cinnamon, cinnamon sticks, nutmeg, ground nutmeg,
+    cloves, ground cloves, allspice, cardamom, cardamom pods, star anise, anise seed, fennel seeds,
+    mustard seeds, dry mustard, mustard powder, celery seed, celery salt, dill weed, dried dill, dried basil,
+    dried oregano, oregano, dried thyme, thyme, dried rosemary, rosemary, dried parsley, dried sage, sage,
+    marjoram, tarragon, bay leaves, bay leaf, dried chives, herbes de provence, italian seasoning,
+    poultry seasoning, pumpkin pie spice, apple pie spice, curry powder, garam masala, chinese five spice,
+    five spice, za'atar, sumac, ras el hanout, berbere, harissa powder, old bay, cajun seasoning,
+    creole seasoning, taco seasoning, fajita seasoning, chili seasoning, ranch seasoning, ranch packet,
+    lemon pepper, steak seasoning, montreal steak seasoning, everything bagel seasoning, seasoned salt,
+    lawry's, adobo seasoning, sazon, goya adobo, jerk seasoning, bbq rub, dry rub, meat tenderizer,
+    msg, saffron, vanilla powder, seasoning, seasonings, spice blend, spice rub, herbs and spices,
+    caraway seeds, poppy seeds, nigella seeds, fenugreek, asafoetida, smoked salt, truffle salt,
+    garlic pepper, onion flakes, dried minced onion, minced garlic dried, chili flakes, aleppo pepper,
+    urfa pepper, kashmiri chili powder, peppercorn medley, juniper berries, lavender dried, shichimi,
+    togarashi, furikake, dukkah, chili lime seasoning, tajin
+  `,
+  condiments: `
+    condiments, ketchup, catsup, mustard, yellow mustard, dijon mustard, dijon, whole grain mustard,
+    spicy brown mustard, honey mustard, mayonnaise, mayo, light mayo, vegan mayo, miracle whip, aioli,
+    relish, sweet relish, dill relish, pickles, dill pickles, bread and butter pickles, pickle spears,
+    pickle chips, gherkins, cornichons, sauerkraut, kimchi, hot sauce, sriracha, tabasco, franks red hot,
+    cholula, valentina, chili sauce, sweet chili sauce, chili garlic sauce, sambal oelek, gochujang,
+    chili crisp, chili oil, harissa, salsa, jarred salsa, salsa verde, queso dip, bbq sauce, barbecue sauce,
+    steak sauce, a1 sauce, worcestershire, worcestershire sauce, soy sauce, low sodium soy sauce, tamari,
+    coconut aminos, liquid aminos, teriyaki sauce, hoisin sauce, oyster sauce, fish sauce, ponzu,
+    stir fry sauce, sweet and sour sauce, duck sauce, plum sauce, black bean sauce, peanut sauce,
+    satay sauce, tikka masala sauce, curry sauce, butter chicken sauce, salad dressing, dressing,
+    ranch dressing, ranch, italian dressing, caesar dressing, balsamic vinaigrette, vinaigrette,
+    blue cheese dressing, thousand island, french dressing, honey mustard dressing, greek dressing,
+    sesame dressing, poppyseed dressing, tartar sauce, cocktail sauce, horseradish, prepared horseradish,
+    wasabi, pickled ginger, buffalo sauce, wing sauce, hot honey, marinade, mojo marinade, chimichurri,
+    tzatziki jarred, tahini sauce, mint jelly, cranberry relish, chutney, mango chutney, apple cider,
+    lemon juice, lime juice, bottled lemon juice, real lemon, pepper jelly, sauces, dipping sauce,
+    ketchup packets, garlic paste, ginger paste, tomato ketchup, sandwich spread, special sauce,
+    yum yum sauce, eel sauce, kewpie mayo, sriracha mayo, liquid smoke, browning sauce, kitchen bouquet,
+    gravy, gravy mix, brown gravy, turkey gravy, jarred gravy, alfredo jar, enchilada sauce jar
+  `,
+  breakfast: `
+    breakfast, cereal, cold cereal, cheerios, honey nut cheerios, corn flakes, frosted flakes,
+    raisin bran, rice krispies, special k, lucky charms, froot loops, cinnamon toast crunch, cap'n crunch,
+    fruity pebbles, cocoa puffs, chex, rice chex, corn chex, wheaties, shredded wheat, mini wheats,
+    grape nuts, kashi, bran flakes, granola, muesli, oatmeal, oats, rolled oats, old fashioned oats,
+    quick oats, steel cut oats, instant oatmeal, oatmeal packets, cream of wheat, farina, malt o meal,
+    hot cereal, pop tarts, toaster pastries, toaster strudel, breakfast bars, cereal bars, nutri grain bars,
+    granola bars breakfast, pancake syrup breakfast, waffle mix, pancake and waffle mix, crepes,
+    breakfast cereal, overnight oats, baby cereal breakfast, protein cereal, keto cereal, kids cereal
+  `,
+  snacks: `
+    snacks, chips, potato chips, kettle chips, baked chips, tortilla chips, corn chips, fritos, doritos,
+    cheetos, cheese puffs, cheese curls, pringles, lays, ruffles, sun chips, pita chips, bagel chips,
+    veggie chips, veggie straws, plantain chips, pork rinds, chicharrones, popcorn, microwave popcorn,
+    kettle corn, caramel corn, popcorn kernels, pretzels, pretzel sticks, pretzel twists, pretzel crisps,
+    crackers, saltines, saltine crackers, ritz, ritz crackers, triscuits, wheat thins, cheez its,
+    goldfish, goldfish crackers, graham crackers, animal crackers, oyster crackers, water crackers,
+    rice crackers, rice cakes, crispbread, club crackers, cheese crackers, peanut butter crackers,
+    cookies, oreos, chocolate chip cookies, sandwich cookies, shortbread, biscotti, wafers, vanilla wafers,
+    nilla wafers, fig newtons, girl scout cookies, snack cakes, twinkies, little debbie, ding dongs,
+    swiss rolls, zebra cakes, honey buns, granola bars, protein bars, energy bars, clif bars, kind bars,
+    larabars, rxbars, fruit snacks, gummies, gummy bears, gummy worms, fruit leather, fruit roll ups,
+    trail mix, snack mix, chex mix, party mix, beef jerky, jerky, turkey jerky, meat sticks, slim jims,
+    candy, chocolate, chocolate bar, candy bar, dark chocolate, milk chocolate, white chocolate, m&ms,
+    reese's, peanut butter cups, snickers, kit kat, twix, hershey's, hershey kisses, milky way,
+    three musketeers, butterfinger, almond joy, mounds, york peppermint patty, skittles, starburst,
+    jolly ranchers, twizzlers, red vines, licorice, sour patch kids, swedish fish, nerds, lollipops,
+    hard candy, breath mints, tic tacs, altoids, gum, chewing gum, bubble gum, marshmallows,
+    caramels, toffee, fudge, jelly beans, candy corn, peeps, peanut brittle, halva, nut clusters,
+    chocolate covered almonds, chocolate covered pretzels, yogurt covered raisins, seaweed snacks,
+    roasted chickpeas, edamame snack, applesauce pouches, fruit cups, snack packs, lunchbox snacks,
+    string cheese snack, cheese and crackers, dip, chip dip, french onion dip, spinach dip, bean dip,
+    salsa con queso, nacho cheese, hummus snack, pudding snack, jello cups, cracker jacks, corn nuts,
+    sesame sticks, wasabi peas, banana chips, apple chips, coconut chips, kale chips, protein chips,
+    keto snacks, sweets, treats, dessert, cupcake snack, brownie bites, cookie bites, mini muffins
+  `,
+  beverages: `
+    beverages, drinks, water, bottled water, spring water, sparkling water, seltzer, club soda, tonic water,
+    mineral water, distilled water, alkaline water, flavored water, la croix, perrier, san pellegrino,
+    coconut water, soda, pop, soft drinks, cola, coke, coca cola, diet coke, coke zero, pepsi, diet pepsi,
+    sprite, 7up, ginger ale, root beer, dr pepper, mountain dew, fanta, orange soda, cream soda,
+    grape soda, lemon lime soda, juice, orange juice, apple juice, grape juice, cranberry juice,
+    pineapple juice, grapefruit juice, tomato juice, v8, vegetable juice, lemonade, pink lemonade,
+    limeade, fruit punch, juice boxes, capri sun, kool aid, drink mix, crystal light, gatorade, powerade,
+    sports drink, electrolyte drink, pedialyte, liquid iv, body armor, vitamin water, energy drink,
+    energy drinks, red bull, monster, celsius, rockstar, iced tea, sweet tea, unsweetened tea, bottled tea,
+    arizona tea, kombucha, cold brew, iced coffee, bottled coffee, frappuccino, coffee, ground coffee,
+    whole bean coffee, coffee beans, instant coffee, decaf coffee, decaf, espresso, espresso beans,
+    k cups, coffee pods, nespresso pods, coffee filters, tea, black tea, green tea, herbal tea,
+    chamomile tea, peppermint tea, earl grey, english breakfast tea, chai, chai tea, matcha, oolong tea,
+    white tea, rooibos, tea bags, loose leaf tea, yerba mate, hot chocolate, hot cocoa, cocoa mix,
+    apple cider drink, sparkling cider, smoothies, bottled smoothie, protein shake, protein drinks,
+    ensure, boost, soylent, nesquik, ovaltine, horchata, agua fresca, aloe vera drink, shrub, tepache,
+    mixers, margarita mix, bloody mary mix, sour mix, grenadine, simple syrup, bitters, coffee syrup,
+    flavored syrup, water enhancer, mio, soda water, sparkling juice, juice concentrate shelf, nectar,
+    mango nectar, guava nectar, prune juice, carrot juice, celery juice, beet juice, cold pressed juice
+  `,
+  alcohol: `
+    alcohol, beer, lager, ale, ipa, pale ale, stout, porter, pilsner, wheat beer, hefeweizen, sour beer,
+    light beer, craft beer, beer six pack, six pack, twelve pack, case of beer, hard seltzer, white claw,
+    truly, hard cider, cider, hard lemonade, mikes hard lemonade, wine, red wine, white wine, rose,
+    rose wine, sparkling wine, champagne, prosecco, cava, moscato, riesling, chardonnay, sauvignon blanc,
+    pinot grigio, pinot gris, pinot noir, merlot, cabernet, cabernet sauvignon, malbec, zinfandel, syrah,
+    shiraz, tempranillo, sangiovese, chianti, rioja, port, sherry, vermouth, dry vermouth, sweet vermouth,
+    sake, soju, mead, boxed wine, liquor, spirits, vodka, gin, rum, white rum, dark rum, spiced rum,
+    tequila, mezcal, whiskey, whisky, bourbon, scotch, rye whiskey, irish whiskey, brandy, cognac,
+    liqueur, triple sec, cointreau, grand marnier, amaretto, kahlua, baileys, irish cream, frangelico,
+    schnapps, peach schnapps, fireball, jagermeister, aperol, campari, limoncello, absinthe, ouzo,
+    sambuca, chartreuse, st germain, coffee liqueur, canned cocktails, hard kombucha, wine coolers,
+    non alcoholic beer, na beer, booze
+  `,
+  household: `
+    household, paper towels, toilet paper, tp, bath tissue, facial tissue, tissues, kleenex, napkins,
+    paper napkins, paper plates, plastic plates, paper cups, plastic cups, solo cups, plastic utensils,
+    plastic forks, plastic spoons, plastic knives, straws, trash bags, garbage bags, kitchen bags,
+    lawn bags, recycling bags, compost bags, ziploc bags, zip lock bags, sandwich bags, freezer bags,
+    storage bags, snack bags, gallon bags, plastic wrap, cling wrap, saran wrap, aluminum foil, foil,
+    tin foil, parchment paper, wax paper, baking cups, muffin liners, food storage containers, tupperware,
+    dish soap, dishwashing liquid, dawn, dishwasher detergent, dishwasher pods, dishwasher tabs,
+    cascade, finish, rinse aid, jet dry, sponges, sponge, scrub brush, steel wool, scouring pads,
+    dish brush, dish cloths, dish towels, laundry detergent, detergent, tide, tide pods, laundry pods,
+    fabric softener, dryer sheets, bounce, downy, stain remover, oxiclean, shout, bleach, clorox,
+    color safe bleach, laundry booster, borax, washing soda, starch spray, wrinkle release,
+    all purpose cleaner, multi surface cleaner, cleaner, cleaning spray, disinfectant, disinfectant wipes,
+    clorox wipes, lysol, lysol spray, glass cleaner, windex, bathroom cleaner, toilet bowl cleaner,
+    tub and tile cleaner, scrubbing bubbles, soft scrub, comet, bar keepers friend, oven cleaner,
+    floor cleaner, swiffer, swiffer pads, mop, mop heads, broom, dustpan, vacuum bags, furniture polish,
+    pledge, wood cleaner, stainless steel cleaner, drain cleaner, drano, air freshener, febreze,
+    plug in air freshener, candles, matches, lighter, batteries, aa batteries, aaa batteries, light bulbs,
+    lightbulbs, extension cord, rubber gloves, cleaning gloves, disposable gloves, trash can liners,
+    pest control, ant traps, roach traps, mouse traps, bug spray indoor, fly paper, charcoal, lighter fluid,
+    propane, firewood, fire starters, ice melt, salt for water softener, water softener salt,
+    water filter, brita filter, coffee maker cleaner, descaler, shoe polish, lint roller, sewing kit,
+    tape, packing tape, scotch tape, duct tape, glue, super glue, zip ties, twist ties, rubber bands,
+    envelopes, stamps, printer paper, pens, pencils, markers, sharpies, notebooks, sticky notes,
+    birthday candles, gift wrap, wrapping paper, gift bags, tissue paper, greeting cards, cards,
+    cleaning supplies, paper goods, kitchen towels, microfiber cloths, rags, cotton dish towels,
+    garbage disposal cleaner, dishwasher cleaner, washing machine cleaner, toilet brush, plunger,
+    shower curtain liner, hangers, clothespins, laundry bags, storage bins, cleaning
+  `,
+  personal_care: `
+    personal care, toiletries, shampoo, conditioner, 2 in 1 shampoo, dry shampoo, hair mask,
+    leave in conditioner, hair gel, hair spray, hairspray, mousse, pomade, hair wax, hair oil,
+    hair dye, hair color, hair ties, bobby pins, hair clips, brush, hairbrush, comb, body wash,
+    shower gel, bar soap, soap, hand soap, liquid hand soap, hand sanitizer, bath bombs, bubble bath,
+    bath salts, epsom salt, loofah, shower pouf, lotion, body lotion, hand cream, moisturizer,
+    face moisturizer, face wash, cleanser, facial cleanser, toner, serum, eye cream, face mask,
+    sheet mask, exfoliator, body scrub, sunscreen, sunblock, spf, after sun, aloe vera gel, lip balm,
+    chapstick, vaseline, petroleum jelly, aquaphor, cocoa butter, shea butter, body oil, baby oil adult,
+    deodorant, antiperspirant, body spray, perfume, cologne, toothpaste, toothbrush, toothbrushes,
+    electric toothbrush heads, floss, dental floss, floss picks, mouthwash, listerine, whitening strips,
+    denture cleaner, denture adhesive, razors, razor blades, disposable razors, shaving cream,
+    shaving gel, aftershave, beard oil, trimmer, tweezers, nail clippers, nail file, emery boards,
+    nail polish, nail polish remover, cotton balls, cotton pads, cotton swabs, q tips, makeup,
+    foundation, concealer, powder, blush, bronzer, mascara, eyeliner, eyeshadow, lipstick, lip gloss,
+    makeup remover, micellar water, makeup wipes, face wipes, feminine products, tampons, pads,
+    maxi pads, panty liners, menstrual cups, feminine wash, condoms, lubricant, pregnancy test,
+    incontinence pads, adult diapers, depends, contact solution, contact lens solution, eye drops,
+    reading glasses, hair removal cream, wax strips, body powder, foot cream, foot powder, insoles,
+    deodorant spray, dry shampoo spray, beauty, hygiene, bath, self tanner, hand wipes
+  `,
+  health: `
+    health, pharmacy, medicine, vitamins, multivitamin, vitamin c, vitamin d, vitamin b12, b complex,
+    calcium, magnesium, zinc, iron supplement, fish oil, omega 3, probiotics, prebiotics, fiber supplement,
+    metamucil, melatonin, biotin, collagen, turmeric supplement, elderberry syrup, gummy vitamins,
+    kids vitamins, prenatal vitamins, supplements, pain reliever, ibuprofen, advil, motrin, acetaminophen,
+    tylenol, aspirin, naproxen, aleve, excedrin, cold medicine, flu medicine, dayquil, nyquil,
+    cough syrup, cough drops, throat lozenges, decongestant, sudafed, antihistamine, allergy medicine,
+    claritin, zyrtec, allegra, benadryl, nasal spray, saline spray, flonase, antacid, tums, rolaids,
+    pepto bismol, pepcid, prilosec, gas relief, gas x, laxative, stool softener, miralax, dulcolax,
+    anti diarrheal, imodium, dramamine, motion sickness, sleep aid, zzzquil, unisom, band aids,
+    bandaids, bandages, adhesive bandages, gauze, medical tape, first aid kit, antibiotic ointment,
+    neosporin, hydrocortisone cream, anti itch cream, calamine lotion, burn cream, rubbing alcohol,
+    hydrogen peroxide, isopropyl alcohol, thermometer, ice pack, heating pad, muscle rub, bengay,
+    icy hot, tiger balm, knee brace, ace bandage, elastic bandage, blister pads, moleskin, wart remover,
+    athlete's foot cream, antifungal cream, eye wash, ear drops, cold sore treatment, abreva,
+    nicotine gum, nicotine patches, electrolyte tablets, rehydration salts, prescription, prescriptions,
+    refill, covid test, rapid test, face masks medical, blood pressure monitor, pill organizer,
+    glucose tablets, test strips, lancets, insulin, reading glass cleaner, heartburn relief
+  `,
+  baby: `
+    baby, diapers, baby diapers, pampers, huggies, pull ups, training pants, swim diapers, baby wipes,
+    wipes, diaper cream, diaper rash cream, desitin, butt paste, baby powder, baby lotion, baby shampoo,
+    baby wash, baby oil, baby sunscreen, formula, baby formula, infant formula, similac, enfamil,
+    toddler formula, baby food, baby food pouches, baby cereal, rice cereal, oatmeal cereal baby,
+    puffs, baby puffs, teething biscuits, teething crackers, yogurt melts, toddler snacks, sippy cups,
+    baby bottles, bottle nipples, pacifier, pacifiers, teether, bibs, burp cloths, baby spoons,
+    breast pads, nursing pads, breast milk storage bags, nipple cream, baby thermometer, nasal aspirator,
+    baby tylenol, infant tylenol, infant ibuprofen, gripe water, gas drops, baby laundry detergent,
+    dreft, diaper bags, diaper pail refills, baby monitor batteries, crib sheets, onesies, baby socks,
+    kids toothpaste, kids toothbrush, kids shampoo, bubble bath kids, crayons, coloring books,
+    juice boxes kids, kids snacks, baby care
+  `,
+  pet: `
+    pet, pet food, dog food, dry dog food, wet dog food, canned dog food, puppy food, dog treats,
+    dog biscuits, milk bones, rawhide, bully sticks, dental chews, greenies, dog chews, dog toys,
+    cat food, dry cat food, wet cat food, canned cat food, kitten food, cat treats, temptations,
+    cat litter, kitty litter, litter, clumping litter, litter box liners, cat toys, catnip, scratching post,
+    bird seed, birdseed, bird food, suet, fish food, fish flakes, aquarium supplies, hamster food,
+    rabbit food, guinea pig food, timothy hay, hay, wood shavings, bedding pet, pet bedding, poop bags,
+    dog poop bags, waste bags, puppy pads, pee pads, flea treatment, flea and tick, frontline,
+    heartworm medicine, dog shampoo, pet shampoo, pet wipes, dog leash, leash, collar, dog collar,
+    pet bowls, dog bowl, cat bowl, pet supplies, pet treats, horse treats, chicken feed, reptile food,
+    crickets, mealworms, dog food topper, pet vitamins, pets
+  `,
+}
+
+let termIndex: Map<string, Department> | null = null
+
+/** Term key → department, built on first use */
+function terms(): Map<string, Department> {
+  if (!termIndex) {
+    termIndex = new Map()
+    for (const [department, list] of Object.entries(TERMS) as [Department, string][]) {
+      for (const term of list.split(',')) {
+        const key = itemNameKey(term)
+        if (key && !termIndex.has(key)) termIndex.set(key, department)
+      }
+    }
+  }
+  return termIndex
+}
+
+/** Every term, by department, for checking the data */
+export function taxonomyTerms(): [Department, string][] {
+  return (Object.entries(TERMS) as [Department, string][]).flatMap(([department, list]) =>
+    list
+      .split(',')
+      .map(term => term.trim())
+      .filter(Boolean)
+      .map((term): [Department, string] => [department, term])
+  )
+}
+
+/**
+ * The department an item belongs in, or null if the taxonomy doesn't know
+ * it. The longest known phrase in the name wins ("peanut butter" over
+ * "butter"); between phrases of the same length the last one wins, since
+ * the noun comes last ("chocolate milk" is milk).
+ */
+export function departmentFor(name: string): Department | null {
+  const words = itemNameKey(name).split(' ').filter(Boolean)
+  const index = terms()
+
+  for (let length = words.length; length > 0; length--) {
+    for (let start = words.length - length; start >= 0; start--) {
+      const department = index.get(words.slice(start, start + length).join(' '))
+      if (department) return department
+    }
+  }
+  return null
+}
+
+/** A list category, with the names it also answers to */
+export type AliasedCategory = Pick<Category, 'id' | 'name'> & { aliases?: string[] | null }
+
+/**
+ * The list's category for a department: one whose name or alias is a name
+ * for the department ("Dairy & Eggs"), or failing that, one with such a
+ * name among its words ("Frozen Foods", "Meat & Fish" for seafood).
+ */
+export function findDepartmentCategory<T extends AliasedCategory>(
+  categories: T[],
+  department: Department
+): T | null {
+  const names = new Set(DEPARTMENT_NAMES[department].map(itemNameKey))
+  const keysOf = (category: T) => [category.name, ...(category.aliases ?? [])].map(itemNameKey)
+
+  return (
+    categories.find(category => keysOf(category).some(key => names.has(key))) ??
+    categories.find(category => keysOf(category).some(key => key.split(' ').some(word => names.has(word)))) ??
+    null
+  )
+}
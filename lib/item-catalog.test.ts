@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { rankSuggestions, type CatalogEntry } from './item-catalog'
+
+const NOW = Date.parse('2026-10-01T12:00:00Z')
+
+const entry = (name: string, useCount: number, daysAgo: number): CatalogEntry => ({
+  name,
+  quantity_value: null,
+  quantity_unit: null,
+  category_name: null,
+  use_count: useCount,
+  last_used_at: new Date(NOW - daysAgo * 86_400_000).toISOString(),
+})
+
+const names = (entries: CatalogEntry[]) => entries.map(candidate => candidate.name)
+
+describe('rankSuggestions', () => {
+  it('puts name prefixes before word prefixes before other matches', () => {
+    const entries = [entry('Frozen Yogurt', 9, 0), entry('Yogurt Raisins', 1, 0), entry('Soy Yogurt', 5, 0)]
+    expect(names(rankSuggestions(entries, 'yog', NOW))).toEqual(['Yogurt Raisins', 'Frozen Yogurt', 'Soy Yogurt'])
+    expect(names(rankSuggestions(entries, 'gurt', NOW))).toEqual(['Frozen Yogurt', 'Soy Yogurt', 'Yogurt Raisins'])
+  })
+
+  it('weighs use counts by how recently an item was added', () => {
+    const entries = [entry('Greek Yogurt 32oz', 6, 90), entry('Greek Salad', 2, 1), entry('Green Beans', 4, 0)]
+    // 6 uses three half-lives ago count for less than 2 uses yesterday
+    expect(names(rankSuggestions(entries, 'gre', NOW))).toEqual(['Green Beans', 'Greek Salad', 'Greek Yogurt 32oz'])
+  })
+
+  it('leaves out entries that do not match and caps the list', () => {
+    const entries = Array.from({ length: 12 }, (_, index) => entry(`Milk ${index}`, index, 0))
+    const ranked = rankSuggestions([...entries, entry('Bread', 50, 0)], 'milk', NOW)
+    expect(ranked).toHaveLength(8)
+    expect(ranked[0].name).toBe('Milk 11')
+    expect(names(ranked)).not.toContain('Bread')
+  })
+})
@@ -0,0 +1,101 @@
+// Per-user item catalog: everything a user has added, on any list, for
+// autocomplete in the add-item form. lib/list-items.ts records each add
+// here; suggestions are ranked by how often and how lately an item was
+// added.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { itemNameKey } from './item-matcher'
+import type { ListItem } from './list-state'
+import type { QuantityUnit } from './units'
+
+/** An item_catalog row, as suggested */
+export type CatalogEntry = {
+  name: string
+  quantity_value: number | null
+  quantity_unit: QuantityUnit | null
+  category_name: string | null
+  use_count: number
+  last_used_at: string
+}
+
+export type ItemSuggestion = CatalogEntry & {
+  /** The list's category named category_name, if it has one */
+  category_id: string | null
+}
+
+export const SUGGESTION_LIMIT = 8
+
+/** Use counts halve in weight over this many days */
+const RECENCY_HALF_LIFE_DAYS = 30
+
+/**
+ * Record added items in the user's catalog. The items are already on the
+ * list by now, so a failure to record is logged rather than thrown.
+ */
+export async function recordCatalogItems(
+  supabase: SupabaseClient,
+  items: Pick<ListItem, 'name' | 'quantity_value' | 'quantity_unit' | 'category_id'>[]
+): Promise<void> {
+  if (items.length === 0) return
+
+  const categoryIds = [...new Set(items.map(item => item.category_id).filter((id): id is string => Boolean(id)))]
+  const categoryNames = new Map<string, string>()
+  if (categoryIds.length > 0) {
+    const { data, error } = await supabase.from('categories').select('id, name').in('id', categoryIds)
+    if (error) {
+      console.error('Failed to load categories for the item catalog:', error)
+    }
+    for (const category of data || []) categoryNames.set(category.id, category.name)
+  }
+
+  // One entry per name: an upsert can't touch the same row twice
+  const entries = new Map<string, Record<string, unknown>>()
+  for (const item of items) {
+    const nameKey = itemNameKey(item.name)
+    if (!nameKey) continue
+    entries.set(nameKey, {
+      name_key: nameKey,
+      name: item.name,
+      quantity_value: item.quantity_value,
+      quantity_unit: item.quantity_unit,
+      category_name: (item.category_id && categoryNames.get(item.category_id)) ?? null,
+    })
+  }
+
+  const { error } = await supabase.rpc('record_catalog_items', { entries: [...entries.values()] })
+  if (error) {
+    console.error('Failed to record items in the catalog:', error)
+  }
+}
+
+/**
+ * Catalog entries matching typed text, best first. Names starting with the
+ * text come before names with a word starting with it, then names merely
+ * containing it. Within each, entries are ordered by use count, weighted
+ * down the longer ago they were last added.
+ */
+export function rankSuggestions(
+  entries: CatalogEntry[],
+  query: string,
+  now: number = Date.now()
+): CatalogEntry[] {
+  const text = query.trim().toLowerCase()
+
+  return entries
+    .map(entry => ({ entry, match: matchStrength(entry.name.toLowerCase(), text), score: frequency(entry, now) }))
+    .filter(candidate => candidate.match > 0)
+    .sort((a, b) => b.match - a.match || b.score - a.score || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, SUGGESTION_LIMIT)
+    .map(candidate => candidate.entry)
+}
+
+function matchStrength(name: string, text: string): number {
+  if (!text || name.startsWith(text)) return 3
+  if (name.split(/\s+/).some(word => word.startsWith(text))) return 2
+  return name.includes(text) ? 1 : 0
+}
+
+function frequency(entry: CatalogEntry, now: number): number {
+  const days = Math.max(0, now - Date.parse(entry.last_used_at)) / 86_400_000
+  return entry.use_count * 0.5 ** (days / RECENCY_HALF_LIFE_DAYS)
+}
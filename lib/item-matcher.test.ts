@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import {
+  editDistance,
+  findItemMatch,
+  itemNameKey,
+  rankItemMatches,
+  scoreItemMatch,
+  singularize,
+} from './item-matcher'
+import { SPANISH } from './language-packs'
+
+describe('singularize', () => {
+  it.each([
+    ['apples', 'apple'],
+    ['berries', 'berry'],
+    ['boxes', 'box'],
+    ['peaches', 'peach'],
+    ['tomatoes', 'tomato'],
+    ['loaves', 'loaf'],
+    ['cookies', 'cookie'],
+  ])('%s → %s', (plural, singular) => {
+    expect(singularize(plural)).toBe(singular)
+  })
+
+  it('leaves words that only look plural alone', () => {
+    expect(singularize('hummus')).toBe('hummus')
+    expect(singularize('asparagus')).toBe('asparagus')
+    expect(singularize('molasses')).toBe('molasses')
+  })
+})
+
+describe('itemNameKey', () => {
+  it('ignores case, whitespace and punctuation', () => {
+    expect(itemNameKey('  Milk ')).toBe(itemNameKey('milk'))
+    expect(itemNameKey("Ben & Jerry's")).toBe(itemNameKey('ben jerrys'))
+  })
+
+  it('treats singular and plural names as the same item', () => {
+    expect(itemNameKey('Apples')).toBe(itemNameKey('apple'))
+    expect(itemNameKey('Cherry Tomatoes')).toBe(itemNameKey('cherry tomato'))
+  })
+
+  it('keeps different items apart', () => {
+    expect(itemNameKey('Milk')).not.toBe(itemNameKey('Oat Milk'))
+  })
+})
+
+describe('editDistance', () => {
+  it.each([
+    ['bread', 'bread', 0],
+    ['bred', 'bread', 1],
+    ['milk', 'silk', 1],
+    ['', 'eggs', 4],
+    ['kitten', 'sitting', 3],
+  ])('%s → %s = %i', (a, b, distance) => {
+    expect(editDistance(a, b)).toBe(distance)
+  })
+})
+
+describe('scoreItemMatch', () => {
+  it('scores identical names (ignoring plurals and articles) as 1', () => {
+    expect(scoreItemMatch('apple', 'Apples')).toBe(1)
+    expect(scoreItemMatch('the eggs', 'Eggs')).toBe(1)
+  })
+
+  it('scores partial names by how much of the item they cover', () => {
+    const cheddar = scoreItemMatch('cheese', 'Cheddar Cheese')
+    const sharpCheddar = scoreItemMatch('cheese', 'Sharp Cheddar Cheese')
+    expect(cheddar).toBeGreaterThanOrEqual(0.8)
+    expect(cheddar).toBeGreaterThan(sharpCheddar)
+  })
+
+  it('tolerates small misspellings', () => {
+    expect(scoreItemMatch('bred', 'Bread')).toBeGreaterThanOrEqual(0.7)
+  })
+
+  it('scores unrelated names as 0', () => {
+    expect(scoreItemMatch('milk', 'Bread')).toBe(0)
+    expect(scoreItemMatch('the', 'Bread')).toBe(0)
+  })
+})
+
+describe('rankItemMatches', () => {
+  it('drops weak candidates and sorts best first', () => {
+    const items = [{ name: 'Apple Juice' }, { name: 'Bread' }, { name: 'Apples' }]
+    expect(rankItemMatches('apple', items).map((match) => match.item.name)).toEqual([
+      'Apples',
+      'Apple Juice',
+    ])
+  })
+})
+
+describe('findItemMatch', () => {
+  const item = (id: string, name: string) => ({ id, name })
+
+  it('acts on a single confident match', () => {
+    const result = findItemMatch('apple', [item('1', 'Apples'), item('2', 'Bread')])
+    expect(result).toMatchObject({ kind: 'match', items: [{ id: '1' }] })
+  })
+
+  it('prefers an exact name over a partial one', () => {
+    const result = findItemMatch('apple', [item('1', 'Apple Juice'), item('2', 'Apples')])
+    expect(result).toMatchObject({ kind: 'match', items: [{ id: '2' }] })
+  })
+
+  it('finds an item from part of its name', () => {
+    const result = findItemMatch('the cheese', [item('1', 'Cheddar Cheese'), item('2', 'Milk')])
+    expect(result).toMatchObject({ kind: 'match', items: [{ id: '1' }] })
+  })
+
+  it('returns every row with the identical name', () => {
+    const result = findItemMatch('milk', [item('1', 'Milk'), item('2', 'milk'), item('3', 'Bread')])
+    expect(result).toMatchObject({ kind: 'match', items: [{ id: '1' }, { id: '2' }] })
+  })
+
+  it('reports candidates when several items match about equally', () => {
+    const result = findItemMatch('cheese', [item('1', 'Cheddar Cheese'), item('2', 'Cream Cheese')])
+    expect(result.kind).toBe('ambiguous')
+    if (result.kind === 'ambiguous') {
+      expect(result.candidates.map((c) => c.item.id).sort()).toEqual(['1', '2'])
+    }
+  })
+
+  it('reports no match when nothing is close', () => {
+    expect(findItemMatch('bananas', [item('1', 'Milk')])).toEqual({ kind: 'none' })
+  })
+
+  it("ignores the spoken language's articles", () => {
+    const items = [item('1', 'Leche'), item('2', 'Pan')]
+    expect(findItemMatch('la leche', items, SPANISH)).toMatchObject({ kind: 'match', items: [{ id: '1' }] })
+    expect(findItemMatch('la leche', items).kind).toBe('none')
+  })
+})
@@ -0,0 +1,196 @@
+// Item name comparison shared by duplicate detection and voice commands.
+// Pure string helpers, no network code.
+
+import { ENGLISH, type LanguagePack } from './language-packs'
+
+// Words that end in "s" but aren't plurals
+const SINGULAR_S_WORDS = new Set([
+  'asparagus', 'brussels', 'bus', 'citrus', 'couscous', 'molasses',
+  'hummus', 'swiss', 'floss', 'lemongrass', 'watercress', 'series',
+  'species', 'news', 'gas', 'jus',
+])
+
+// Plurals whose stems don't follow the suffix rules below
+const IRREGULAR_PLURALS: Record<string, string> = {
+  leaves: 'leaf',
+  loaves: 'loaf',
+  halves: 'half',
+  knives: 'knife',
+  potatoes: 'potato',
+  tomatoes: 'tomato',
+  mangoes: 'mango',
+  avocados: 'avocado',
+  cookies: 'cookie',
+  brownies: 'brownie',
+  smoothies: 'smoothie',
+  veggies: 'veggie',
+  geese: 'goose',
+  mice: 'mouse',
+}
+
+/**
+ * Reduce a single word to its singular form ("berries" → "berry",
+ * "boxes" → "box"). Only used for comparison keys, so an odd stem is fine
+ * as long as both spellings reduce to the same one.
+ */
+export function singularize(word: string): string {
+  if (word.length <= 3 || SINGULAR_S_WORDS.has(word)) return word
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word]
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (/(ches|shes|sses|xes|zzes)$/.test(word)) return word.slice(0, -2)
+  if (word.endsWith('oes')) return word.slice(0, -2)
+  if (word.endsWith('ss') || word.endsWith('us') || word.endsWith('is')) return word
+  if (word.endsWith('s')) return word.slice(0, -1)
+  return word
+}
+
+/**
+ * Comparison key for an item name: case-, whitespace- and
+ * plural-insensitive, so "Milk", " milk " and "Apples"/"apple" collide.
+ */
+export function itemNameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize)
+    .join(' ')
+}
+
+// Filler words spoken around item names ("remove the cheese", "quita la
+// leche") that shouldn't count toward a match, per language, as name keys
+const stopWordSets = new Map<LanguagePack['code'], Set<string>>()
+
+function stopWordsFor(language: LanguagePack): Set<string> {
+  let stopWords = stopWordSets.get(language.code)
+  if (!stopWords) {
+    stopWords = new Set(language.fillerWords.map(itemNameKey))
+    stopWordSets.set(language.code, stopWords)
+  }
+  return stopWords
+}
+
+// A candidate must score at least this to be considered at all
+const MIN_SCORE = 0.5
+// ...and at least this to be acted on without asking
+const CONFIDENT_SCORE = 0.7
+// How far ahead of the runner-up a confident match has to be
+const CONFIDENT_MARGIN = 0.15
+
+export type ScoredMatch<T> = {
+  item: T
+  score: number
+}
+
+export type MatchResult<T> =
+  | { kind: 'match'; items: T[]; score: number }
+  | { kind: 'ambiguous'; candidates: ScoredMatch<T>[] }
+  | { kind: 'none' }
+
+function matchTokens(name: string, language: LanguagePack): string[] {
+  const stopWords = stopWordsFor(language)
+  return itemNameKey(name)
+    .split(' ')
+    .filter((token) => token && !stopWords.has(token))
+}
+
+/** Levenshtein distance, for catching misheard or misspelled words. */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  const longest = Math.max(a.length, b.length)
+  // One-letter typos in very short words are usually different words
+  if (longest < 4) return 0
+  return 1 - editDistance(a, b) / longest
+}
+
+/**
+ * How well a spoken item name matches a list item's name, from 0 to 1.
+ *
+ * - 1 for the same name (ignoring case, plurals and articles)
+ * - 0.8-0.9 when every spoken word appears in the name ("cheese" →
+ *   "Cheddar Cheese"), higher the more of the name it covers
+ * - otherwise fuzzy token overlap, so "bred" still finds "Bread"
+ *
+ * Articles are the spoken language's, English by default.
+ */
+export function scoreItemMatch(query: string, name: string, language: LanguagePack = ENGLISH): number {
+  const queryTokens = matchTokens(query, language)
+  const nameTokens = matchTokens(name, language)
+  if (!queryTokens.length || !nameTokens.length) return 0
+
+  if (queryTokens.join(' ') === nameTokens.join(' ')) return 1
+
+  if (queryTokens.every((token) => nameTokens.includes(token))) {
+    return 0.8 + 0.1 * (queryTokens.length / nameTokens.length)
+  }
+
+  // Pair each spoken word with its closest word in the name; words that
+  // don't come close enough count as misses
+  const similarities = queryTokens.map((token) => {
+    const best = Math.max(...nameTokens.map((candidate) => tokenSimilarity(token, candidate)))
+    return best >= 0.75 ? best : 0
+  })
+  const matched = similarities.reduce((sum, similarity) => sum + similarity, 0)
+  const coverage = matched / Math.max(queryTokens.length, nameTokens.length)
+  return 0.9 * coverage
+}
+
+/** Candidates scoring at least MIN_SCORE, best first. */
+export function rankItemMatches<T extends { name: string }>(
+  query: string,
+  items: T[],
+  language: LanguagePack = ENGLISH
+): ScoredMatch<T>[] {
+  return items
+    .map((item) => ({ item, score: scoreItemMatch(query, item.name, language) }))
+    .filter((match) => match.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Resolve a spoken item name against a list's items. Acts only on a single
+ * confident match (several rows with the identical name count as one
+ * match); otherwise reports the candidates so the caller can ask.
+ */
+export function findItemMatch<T extends { name: string }>(
+  query: string,
+  items: T[],
+  language: LanguagePack = ENGLISH
+): MatchResult<T> {
+  const ranked = rankItemMatches(query, items, language)
+  if (!ranked.length) return { kind: 'none' }
+
+  const [best] = ranked
+  const bestKey = itemNameKey(best.item.name)
+  const sameName = ranked.filter((match) => itemNameKey(match.item.name) === bestKey)
+  const runnerUp = ranked.find((match) => itemNameKey(match.item.name) !== bestKey)
+
+  const confident =
+    best.score >= CONFIDENT_SCORE &&
+    (!runnerUp || best.score - runnerUp.score >= CONFIDENT_MARGIN || (best.score === 1 && runnerUp.score < 1))
+
+  if (confident) {
+    return { kind: 'match', items: sameName.map((match) => match.item), score: best.score }
+  }
+
+  return { kind: 'ambiguous', candidates: ranked }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import {
+  keyBetween,
+  keysBetween,
+  MAX_POSITION_LENGTH,
+  placeAfter,
+  sortByPosition,
+  type Positioned,
+} from './item-order'
+
+const ids = (items: Positioned[]) => items.map(item => item.id)
+
+/** Apply updates the way the dashboard does, then read the list back in order */
+function applyUpdates(items: Positioned[], updates: { id: string; position: string }[]) {
+  const byId = new Map(updates.map(update => [update.id, update.position]))
+  return sortByPosition(items.map(item => ({ ...item, position: byId.get(item.id) ?? item.position })))
+}
+
+describe('keyBetween', () => {
+  it('makes keys that sort between their neighbours', () => {
+    const first = keyBetween(null, null)
+    const after = keyBetween(first, null)
+    const before = keyBetween(null, first)
+    const middle = keyBetween(first, after)
+    expect([after, middle, first, before].sort()).toEqual([before, first, middle, after])
+  })
+
+  it('always finds room, going a digit deeper', () => {
+    expect(keyBetween('V', 'W')).toBe('VV')
+    expect(keyBetween('1', '1V') > '1').toBe(true)
+
+    let top = keyBetween(null, null)
+    for (let i = 0; i < 50; i++) {
+      const next = keyBetween(null, top)
+      expect(next < top).toBe(true)
+      expect(next.endsWith('0')).toBe(false)
+      top = next
+    }
+  })
+
+  it('rejects keys out of order', () => {
+    expect(() => keyBetween('b', 'a')).toThrow()
+    expect(() => keyBetween('a', 'a')).toThrow()
+  })
+
+  it('spreads several keys in order', () => {
+    const keys = keysBetween('A', 'B', 7)
+    expect(keys).toHaveLength(7)
+    expect([...keys].sort()).toEqual(keys)
+    expect(keys[0] > 'A' && keys[6] < 'B').toBe(true)
+    expect(Math.max(...keys.map(key => key.length))).toBeLessThanOrEqual(3)
+  })
+})
+
+describe('sortByPosition', () => {
+  it('puts unmoved items first, keeping their order', () => {
+    const items = [
+      { id: 'a', position: 'V' },
+      { id: 'new', position: null },
+      { id: 'b', position: 'G' },
+      { id: 'newer', position: null },
+    ]
+    expect(ids(sortByPosition(items))).toEqual(['new', 'newer', 'b', 'a'])
+  })
+})
+
+describe('placeAfter', () => {
+  const placed = [
+    { id: 'a', position: 'G' },
+    { id: 'b', position: 'V' },
+    { id: 'c', position: 'l' },
+  ]
+
+  it('moves an item by updating only its own position', () => {
+    const updates = placeAfter(placed, 'c', 'a')!
+    expect(updates.map(update => update.id)).toEqual(['c'])
+    expect(ids(applyUpdates(placed, updates))).toEqual(['a', 'c', 'b'])
+    expect(ids(applyUpdates(placed, placeAfter(placed, 'b', null)!))).toEqual(['b', 'a', 'c'])
+  })
+
+  it('places items that have no position before moving next to them', () => {
+    const items = [{ id: 'x', position: null }, { id: 'y', position: null }, ...placed]
+    const updates = placeAfter(items, 'b', 'x')!
+    expect(updates.map(update => update.id)).toEqual(['x', 'y', 'b'])
+    expect(ids(applyUpdates(items, updates))).toEqual(['x', 'b', 'y', 'a', 'c'])
+  })
+
+  it('leaves items without a position alone when moving past them', () => {
+    const items = [{ id: 'x', position: null }, ...placed]
+    expect(placeAfter(items, 'a', 'c')!.map(update => update.id)).toEqual(['a'])
+  })
+
+  it('gets past positions two concurrent moves both took', () => {
+    const items = [...placed.slice(0, 1), { id: 'd', position: 'G' }, ...placed.slice(1)]
+    expect(ids(applyUpdates(items, placeAfter(items, 'c', 'a')!))).toEqual(['a', 'd', 'c', 'b'])
+  })
+
+  it('returns null for items not on the list', () => {
+    expect(placeAfter(placed, 'zz', null)).toBeNull()
+    expect(placeAfter(placed, 'a', 'zz')).toBeNull()
+  })
+
+  it('respaces the list when a key would get too long', () => {
+    let items: Positioned[] = [{ id: 'a', position: 'V' }]
+    for (let i = 0; i < 200; i++) {
+      items = applyUpdates([...items, { id: `n${i}`, position: null }], [])
+      // A new item comes first; drag it to the end
+      const updates = placeAfter(items, `n${i}`, items[items.length - 1].id)!
+      items = applyUpdates(items, updates)
+      expect(items[items.length - 1].id).toBe(`n${i}`)
+      expect(Math.max(...items.map(item => item.position!.length))).toBeLessThanOrEqual(MAX_POSITION_LENGTH)
+    }
+    expect(ids(items)).toEqual(['a', ...Array.from({ length: 200 }, (_, i) => `n${i}`)])
+  })
+})
@@ -0,0 +1,120 @@
+// Manual item order. Each item's position is a fractional index: a string
+// key that sorts between its neighbours' keys, so moving an item rewrites
+// only that item, and members reordering a shared list at the same time
+// don't overwrite each other's moves. Items nobody has moved yet have no
+// position and come first, newest first, where new items have always
+// appeared. Keys grow as items keep landing in the same spot (at the end,
+// say), so once one would get too long the whole list is respaced.
+// Pure functions, shared by the reorder route and the dashboard.
+
+/** Base 62, in byte order to match the column's "C" collation */
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
+
+export type Positioned = { id: string; position: string | null }
+
+export type PositionUpdate = { id: string; position: string }
+
+/** Longest key a move may make before the list is respaced */
+export const MAX_POSITION_LENGTH = 8
+
+/**
+ * A key between a and b, read as base-62 fractions ("V" is about 0.5).
+ * Keys never end in the zero digit, so there is always room between two.
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keep the shared prefix, reading a missing digit of a as zero
+    let shared = 0
+    while ((a[shared] ?? '0') === b[shared]) shared++
+    if (shared > 0) return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared))
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length
+  if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)]
+
+  // Neighbouring digits: b's first digit alone fits if b goes on past it,
+  // otherwise go a digit deeper after a's
+  if (b !== null && b.length > 1) return b.slice(0, 1)
+  return DIGITS[digitA] + midpoint(a.slice(1), null)
+}
+
+/** A position between a and b; null for the start or end of the list */
+export function keyBetween(a: string | null, b: string | null): string {
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`Position ${a} is not before ${b}`)
+  }
+  return midpoint(a ?? '', b)
+}
+
+/**
+ * count positions between a and b, in order. Halving the gap each time
+ * keeps the keys short.
+ */
+export function keysBetween(a: string | null, b: string | null, count: number): string[] {
+  if (count <= 0) return []
+  const middle = keyBetween(a, b)
+  const before = Math.floor((count - 1) / 2)
+  return [...keysBetween(a, middle, before), middle, ...keysBetween(middle, b, count - before - 1)]
+}
+
+function comparePositions(a: string | null, b: string | null): number {
+  if (a === b) return 0
+  if (a === null) return -1
+  if (b === null) return 1
+  return a < b ? -1 : 1
+}
+
+/**
+ * Items in list order. Stable, so items without a position (and any that
+ * share one) keep the order they came in: newest first from the fetch.
+ */
+export function sortByPosition<T extends Pick<Positioned, 'position'>>(items: T[]): T[] {
+  return [...items].sort((a, b) => comparePositions(a.position, b.position))
+}
+
+/**
+ * The position updates that move an item to just after another one, or to
+ * the top when afterId is null. ordered is the whole list in list order.
+ * Items without a position can't have anything placed among them, so a
+ * move next to one gives them all positions first, in their current order.
+ * A move whose key would pass MAX_POSITION_LENGTH respaces every item.
+ * Null if either item isn't on the list.
+ */
+export function placeAfter(
+  ordered: Positioned[],
+  id: string,
+  afterId: string | null
+): PositionUpdate[] | null {
+  if (!ordered.some(item => item.id === id)) return null
+
+  const rest = ordered.filter(item => item.id !== id)
+  const index = afterId === null ? 0 : rest.findIndex(item => item.id === afterId) + 1
+  if (afterId !== null && index === 0) return null
+
+  const positions = rest.map(item => item.position)
+  const updates: PositionUpdate[] = []
+
+  const firstPlaced = positions.findIndex(position => position !== null)
+  const unplaced = firstPlaced === -1 ? rest.length : firstPlaced
+  if (index <= unplaced && unplaced > 0) {
+    keysBetween(null, positions[unplaced] ?? null, unplaced).forEach((position, i) => {
+      positions[i] = position
+      updates.push({ id: rest[i].id, position })
+    })
+  }
+
+  const before = index > 0 ? positions[index - 1] : null
+  // Items share a position when two members drop into the same gap at
+  // once; go past the tie rather than between equal keys
+  const after = positions.slice(index).find(position => before === null || position! > before) ?? null
+  const position = keyBetween(before, after)
+  if (position.length > MAX_POSITION_LENGTH) {
+    const order = [...rest.slice(0, index).map(item => item.id), id, ...rest.slice(index).map(item => item.id)]
+    const keys = keysBetween(null, null, order.length)
+    return order.map((itemId, i) => ({ id: itemId, position: keys[i] }))
+  }
+
+  updates.push({ id, position })
+  return updates
+}
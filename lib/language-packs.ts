@@ -0,0 +1,541 @@
+// Language packs for voice commands. Everything the parser matches on that
+// depends on the spoken language - verbs, number words, units, list and
+// category phrases, separators, questions and edit commands - lives here, so
+// supporting another language means adding a pack, not touching
+// lib/voice-parser.ts. The sentences said back (answers, confirmations and
+// questions) live here too. Users pick their language in the profile
+// (profiles.voice_language); speech recognition, parsing and replies all
+// follow it.
+
+import { UNIT_WORDS, normalizeUnit, type QuantityUnit } from './units'
+import type { VoiceQuery } from './voice-parser'
+
+// Must match the profiles_voice_language_check constraint
+// (supabase/migrations/00010_voice_language.sql)
+export const VOICE_LANGUAGES = ['en', 'es'] as const
+
+export type VoiceLanguage = (typeof VOICE_LANGUAGES)[number]
+
+/** Actions picked by a leading verb ("add", "check off", ...) */
+export type VerbAction = 'add' | 'complete' | 'uncomplete' | 'remove' | 'move'
+
+export interface NumberWords {
+  /** Whole numbers spoken as one word: "three", "nineteen", "veintidós" */
+  small: Record<string, number>
+  /** Multiples of ten, followed by a digit word: "twenty four" */
+  tens: Record<string, number>
+  /** Word between tens and ones: "treinta y dos" */
+  tensJoiner?: string
+  /** Word after hundreds or thousands: "one hundred and five" */
+  scaleJoiner?: string
+  /** Multiplies what came before: "two hundred" */
+  hundred: string[]
+  /** Hundreds spoken as one word: "doscientos" */
+  hundreds: Record<string, number>
+  /** "two thousand"; alone it means one thousand ("mil") */
+  thousand: string[]
+  /** Starts decimal digits: "one point five" */
+  point: string[]
+  /** Digits after the point */
+  digits: Record<string, string>
+  /** Fractions, also after a whole number: "three quarters", "two and a half" */
+  fractions: Record<string, number>
+  /** Read as one: "a banana", "an onion" */
+  articles: string[]
+  /** Vague amounts after an article: "a couple", "a few" */
+  vague: Record<string, number>
+  /** Multiplies by twelve: "two dozen" */
+  dozen: string[]
+}
+
+/**
+ * Sentences said back to the user. Item lists arrive already joined
+ * ("milk, eggs and bread"); list names arrive bare.
+ */
+export interface Replies {
+  // Answers to questions, read aloud
+  remaining(items: string, list: string): string
+  nothingLeft(list: string): string
+  count(left: number, checked: number, list: string): string
+  checkedOff(items: string): string
+  nothingChecked(list: string): string
+  onList(item: string, list: string): string
+  checkedAlready(item: string, list: string): string
+  notOnList(item: string, list: string): string
+  /** Several items could be the one asked about */
+  listHas(items: string, list: string): string
+  /** The rest of a long list: "3 more" */
+  more(count: number): string
+
+  // What a command did
+  added(added: number, merged: number, list: string, category?: string): string
+  checked(count: number, list: string): string
+  unchecked(count: number, list: string): string
+  removed(count: number, list: string): string
+  moved(count: number, from: string, to: string): string
+
+  // What a command would do, for the confirm step
+  previewAdd(items: string, list: string, category?: string): string
+  previewCheck(items: string, list: string): string
+  previewUncheck(items: string, list: string): string
+  previewRemove(items: string, list: string): string
+  previewMove(items: string, from: string, to: string): string
+  previewQuestion(list: string): string
+
+  // Edits, to confirm or once done
+  changed(items: string, quantity: string, list: string, tense: ReplyTense): string
+  renamed(items: string, newName: string, list: string, tense: ReplyTense): string
+  noted(items: string, note: string, list: string, tense: ReplyTense): string
+
+  // Clarification questions
+  whichList(spoken: string): string
+  whichCategory(spoken: string): string
+  whichItem(spoken: string): string
+
+  // Hands-free shopping mode
+  shoppingModeOn(wakePhrase: string): string
+  shoppingModeOff: string
+}
+
+export type ReplyTense = 'preview' | 'done'
+
+export interface LanguagePack {
+  code: VoiceLanguage
+  /** Shown in the language picker */
+  label: string
+  /** BCP 47 tag for the Web Speech API */
+  speechLang: string
+  /** Two commands and a question, for the voice button's hint */
+  examples: [string, string, string]
+  /** Start a command in hands-free shopping mode: "hopper, got the eggs" */
+  wakePhrases: string[]
+  /** End shopping mode: "I'm done" */
+  stopPhrases: string[]
+  /** Verbs that start a command, per action, longest first */
+  verbs: Record<VerbAction, string[]>
+  /** Verbs that start an edit command; they also split utterances */
+  editVerbs: string[]
+  /** Joins items ("milk and eggs") and numbers ("two and a half") */
+  and: string
+  /** Joins commands: "remove cheese then add apples" */
+  then: string[]
+  numbers: NumberWords
+  /** Unit spellings, on top of the registry's canonical abbreviations */
+  units: Record<string, QuantityUnit>
+  /** Between an amount and the item: "two pounds of chicken" */
+  of: string[]
+  /**
+   * The target list at the end of a command, its name in group 1. A
+   * pattern without a name (or with a generic one) means the default list.
+   */
+  listTargets: RegExp[]
+  /** List names that just mean "my list": "shopping", "grocery" */
+  genericListNames: string[]
+  /** Items in group 1, category in group 2: "apples to produce" */
+  categoryTarget: RegExp
+  /**
+   * After a move verb: items in group 1, the list they're on in group 2
+   * (optional), the list they go to in group 3
+   */
+  moveTarget: RegExp
+  /** Between items, next to commas: must not split "two and a half" */
+  itemSeparator: RegExp
+  /** Products that look like several items or an amount: "half and half" */
+  compounds: Record<string, string>
+  /** Dropped in front of an item name: "the", "my" */
+  determiners: string[]
+  /** Ignored when matching a spoken name to an item: "remove the cheese" */
+  fillerWords: string[]
+  /**
+   * Descriptions split off added items into their notes. A comma part that
+   * is only a description ("milk, the organic kind") goes with the item
+   * before it.
+   */
+  itemNotes: {
+    /** In front of the name, after any amount: "two organic avocados" */
+    leading: string[]
+    /** At the end of an item, the note in group 1: "bananas not too ripe" */
+    trailing: RegExp[]
+  }
+  /** Refer to the item changed last: "make that three" */
+  previousItem: string[]
+  /** Questions, matched on the whole command; "contains" captures item names */
+  questions: [RegExp, VoiceQuery][]
+  edits: {
+    /** Item in group 1, new name in group 2 */
+    rename: RegExp
+    /** Item in group 1, note in group 2 */
+    note: RegExp
+    noteWithoutText: RegExp
+    /** Item in group 1, amount or new name in group 2 */
+    change: RegExp
+    /** Amount (or amount and item) in group 1, for the previous item */
+    makeThat: RegExp
+  }
+  /** Answers to "which one did you mean?" (0-based; -1 is the last) */
+  choices: Record<string, number>
+  /** Filler words around those answers: "the", "number" */
+  choiceFillers: string[]
+  replies: Replies
+}
+
+/** "1 item", "3 items" */
+function counted(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`
+}
+
+// Unit abbreviations that read the same in any language
+const UNIT_SYMBOLS: Record<string, QuantityUnit> = {
+  lb: 'lb', lbs: 'lb', oz: 'oz', g: 'g', kg: 'kg', l: 'l', ml: 'ml',
+}
+
+export const ENGLISH: LanguagePack = {
+  code: 'en',
+  label: 'English',
+  speechLang: 'en-US',
+  examples: ['add milk', 'check off eggs', "what's left?"],
+  wakePhrases: ['hey hopper', 'ok hopper', 'okay hopper', 'hopper'],
+  stopPhrases: ["i'm done", 'im done', 'i am done', "we're done", "that's all", 'stop listening', 'stop shopping'],
+  verbs: {
+    add: ['add', 'adding', 'buy', 'get', 'need', 'pick up', 'grab'],
+    complete: ['check off', 'mark', 'complete', 'done with', 'got', 'bought'],
+    uncomplete: ['uncheck', 'unmark', 'undo'],
+    remove: ['remove', 'delete', 'clear', 'take off'],
+    move: ['move'],
+  },
+  editVerbs: ['rename', 'change', 'set', 'update', 'make'],
+  and: 'and',
+  then: ['then'],
+  numbers: {
+    small: {
+      zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+      eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, thirteen: 13,
+      fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18,
+      nineteen: 19,
+    },
+    tens: {
+      twenty: 20, thirty: 30, forty: 40, fifty: 50,
+      sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+    },
+    scaleJoiner: 'and',
+    hundred: ['hundred'],
+    hundreds: {},
+    thousand: ['thousand'],
+    point: ['point'],
+    digits: {
+      zero: '0', oh: '0', one: '1', two: '2', three: '3', four: '4',
+      five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+    },
+    fractions: {
+      half: 1 / 2, halves: 1 / 2,
+      third: 1 / 3, thirds: 1 / 3,
+      quarter: 1 / 4, quarters: 1 / 4, fourth: 1 / 4, fourths: 1 / 4,
+      eighth: 1 / 8, eighths: 1 / 8,
+    },
+    articles: ['a', 'an'],
+    vague: { couple: 2, few: 3 },
+    dozen: ['dozen', 'dozens'],
+  },
+  // Every spelling in the shared registry ("lbs", "pounds", "fl oz", ...)
+  units: Object.fromEntries(UNIT_WORDS.map(word => [word, normalizeUnit(word)!])),
+  of: ['of'],
+  listTargets: [
+    // "to my shopping list", "to the grocery list" - generic names
+    /\s+to\s+(?:my|the)\s+(shopping|grocery)\s+list$/,
+    // "to my costco list"
+    /\s+to\s+my\s+(.+?)\s+list$/,
+    // "on my costco list". Before the generic "to" pattern so "change eggs
+    // to 18 on my costco list" doesn't read "18 on my costco" as the list
+    /\s+on\s+(?:my|the)\s+(.+?)\s+list$/,
+    // "to weekend list", "to the weekend list"
+    /\s+to\s+(?:the\s+)?(.+?)\s+list$/,
+  ],
+  genericListNames: ['shopping', 'grocery'],
+  categoryTarget: /^(.+?)\s+(?:to|into|under)\s+(?:the\s+|my\s+)?(.+?)(?:\s+(?:section|aisle|category|department))?$/,
+  // "eggs to costco list", "eggs from the weekly list over to costco"
+  moveTarget: /^(.+?)(?:\s+from\s+(?:the\s+|my\s+)?(.+?)(?:\s+list)?)?\s+(?:over\s+)?(?:to|onto)\s+(?:the\s+|my\s+)?(.+?)(?:\s+list)?$/,
+  // Not the "and" in "two and a half" / "one and three quarters" /
+  // "one hundred and five"
+  itemSeparator: /(?<!\b(?:hundred|thousand))\s+and\s+(?!(?:a|an|one|two|three)\s+(?:half|halves|third|thirds|quarter|quarters|fourth|fourths|eighth|eighths)\b)/g,
+  compounds: { 'half and half': 'half-and-half' },
+  determiners: ['the', 'my', 'any', 'some'],
+  fillerWords: ['a', 'an', 'the', 'some', 'my', 'our', 'any', 'of'],
+  itemNotes: {
+    leading: [
+      'organic', 'low fat', 'low-fat', 'nonfat', 'non-fat', 'fat free', 'reduced fat', 'gluten free',
+      'sugar free', 'low sodium', 'unsalted', 'free range', 'grass fed',
+    ],
+    trailing: [
+      // "if on sale", "if they're on sale"
+      /(?:^|\s+)(if\s+(?:(?:it's|it\s+is|they're|they\s+are)\s+)?on\s+sale)$/,
+      // "brand x", "store brand"
+      /(?:^|\s+)(brand\s+.+|\S+\s+brand)$/,
+      // "the organic kind", "the green ones"
+      /(?:^|\s+)the\s+(.+?)\s+(?:kind|type|variety|ones?)$/,
+      // "not too ripe", "extra sharp"
+      /(?:^|\s+)((?:not\s+too|not\s+very|very|extra)\s+\S+)$/,
+    ],
+  },
+  previousItem: ['that', 'it'],
+  questions: [
+    [/^how\s+many\b/, 'count'],
+    [/^what\s+(?:items\s+)?(?:did|have)\s+(?:i|we)\s+(?:already\s+)?(?:check(?:ed)?|cross(?:ed)?|got|gotten|buy|bought)\b/, 'checked'],
+    [/^what(?:'s|’s|s|\s+is|\s+do\s+(?:i|we))?\s+(?:still\s+)?(?:left|remaining|on|in|need|to\s+buy)\b/, 'remaining'],
+    [/^(?:is|are|is\s+there|are\s+there|do\s+(?:i|we)\s+(?:still\s+)?need|did\s+(?:i|we)\s+add)\s+(.+?)(?:\s+(?:on|in)\s+(?:my|the|our)\s+(?:(?:shopping|grocery)\s+)?list)?$/, 'contains'],
+  ],
+  edits: {
+    rename: /^(?:rename|change\s+the\s+name\s+of)\s+(.+?)\s+(?:to|as)\s+(.+)$/,
+    note: /^(?:add\s+)?(?:a\s+)?note\s+(?:to|on|for)\s+(.+?)(?:\s*:\s*|\s+saying\s+|\s+that\s+says\s+)(.+)$/,
+    noteWithoutText: /^(?:add\s+)?(?:a\s+)?note\s+(?:to|on|for)\s+(.+)$/,
+    change: /^(?:change|set|update|make)\s+(.+?)\s+to\s+(.+)$/,
+    makeThat: /^make\s+(?:that|it)\s+(.+)$/,
+  },
+  choices: {
+    first: 0, '1st': 0, one: 0, '1': 0,
+    second: 1, '2nd': 1, two: 1, '2': 1,
+    third: 2, '3rd': 2, three: 2, '3': 2,
+    fourth: 3, '4th': 3, four: 3, '4': 3,
+    fifth: 4, '5th': 4, five: 4, '5': 4,
+    last: -1,
+  },
+  choiceFillers: ['the', 'number', 'option', 'one', 'please'],
+  replies: {
+    remaining: (items, list) => `You still need ${items} on ${list}.`,
+    nothingLeft: list => `Nothing left on ${list}.`,
+    count: (left, checked, list) => {
+      const remaining = `${counted(left, 'item', 'items')} left on ${list}`
+      return checked ? `${remaining}, ${checked} checked off.` : `${remaining}.`
+    },
+    checkedOff: items => `You checked off ${items}.`,
+    nothingChecked: list => `Nothing checked off on ${list} yet.`,
+    onList: (item, list) => `Yes, ${item} is on ${list}.`,
+    checkedAlready: (item, list) => `${item} is on ${list} but already checked off.`,
+    notOnList: (item, list) => `No, ${item.toLowerCase()} isn't on ${list}.`,
+    listHas: (items, list) => `${list} has ${items}.`,
+    more: count => `${count} more`,
+
+    added: (added, merged, list, category) => {
+      const parts: string[] = []
+      if (added > 0) parts.push(`Added ${counted(added, 'item', 'items')}`)
+      if (merged > 0) parts.push(`${parts.length ? 'merged' : 'Merged'} ${merged} into existing ${merged === 1 ? 'item' : 'items'}`)
+      return `${parts.join(', ')} to "${list}"${category ? ` under ${category}` : ''}`
+    },
+    checked: (count, list) => `Checked off ${counted(count, 'item', 'items')} on "${list}"`,
+    unchecked: (count, list) => `Unchecked ${counted(count, 'item', 'items')} on "${list}"`,
+    removed: (count, list) => `Removed ${counted(count, 'item', 'items')} from "${list}"`,
+    moved: (count, from, to) => `Moved ${counted(count, 'item', 'items')} from "${from}" to "${to}"`,
+
+    previewAdd: (items, list, category) => `Add ${items} to "${list}"${category ? ` under ${category}` : ''}`,
+    previewCheck: (items, list) => `Check off ${items} on "${list}"`,
+    previewUncheck: (items, list) => `Uncheck ${items} on "${list}"`,
+    previewRemove: (items, list) => `Remove ${items} from "${list}"`,
+    previewMove: (items, from, to) => `Move ${items} from "${from}" to "${to}"`,
+    previewQuestion: list => `Answer a question about "${list}"`,
+
+    changed: (items, quantity, list, tense) =>
+      `${tense === 'done' ? 'Changed' : 'Change'} ${items} to ${quantity} on "${list}"`,
+    renamed: (items, newName, list, tense) =>
+      `${tense === 'done' ? 'Renamed' : 'Rename'} ${items} to ${newName} on "${list}"`,
+    noted: (items, note, list, tense) =>
+      `${tense === 'done' ? 'Added' : 'Add'} note "${note}" to ${items} on "${list}"`,
+
+    whichList: spoken => `Which list did you mean by "${spoken}"?`,
+    whichCategory: spoken => `Which category did you mean by "${spoken}"?`,
+    whichItem: spoken => `Which "${spoken}" did you mean?`,
+
+    shoppingModeOn: wakePhrase => `Shopping mode on. Say ${wakePhrase}, then a command.`,
+    shoppingModeOff: 'Shopping mode off',
+  },
+}
+
+// JavaScript's \b only knows ASCII letters, so the Spanish patterns end
+// words with (?=\s|$) instead
+export const SPANISH: LanguagePack = {
+  code: 'es',
+  label: 'Español',
+  speechLang: 'es-ES',
+  examples: ['añade leche', 'marca los huevos', '¿qué me falta?'],
+  wakePhrases: ['oye hopper', 'hola hopper', 'hopper'],
+  stopPhrases: ['ya terminé', 'ya termine', 'he terminado', 'terminé', 'termine', 'eso es todo', 'deja de escuchar'],
+  verbs: {
+    add: ['necesitamos', 'necesito', 'agregar', 'añadir', 'comprar', 'agrega', 'añade', 'apunta', 'compra', 'trae', 'pon'],
+    complete: ['ya compré', 'ya tengo', 'completa', 'compré', 'marca', 'tacha'],
+    uncomplete: ['desmarca', 'destacha'],
+    remove: ['eliminar', 'elimina', 'quitar', 'borrar', 'quita', 'borra', 'saca'],
+    move: ['mover', 'mueve', 'pasa'],
+  },
+  editVerbs: ['renombra', 'cambia', 'actualiza', 'mejor'],
+  and: 'y',
+  then: ['luego', 'después', 'despues'],
+  numbers: {
+    small: {
+      cero: 0, un: 1, uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5,
+      seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10, once: 11, doce: 12,
+      trece: 13, catorce: 14, quince: 15, dieciséis: 16, dieciseis: 16,
+      diecisiete: 17, dieciocho: 18, diecinueve: 19, veintiuno: 21, veintiún: 21,
+      veintiuna: 21, veintidós: 22, veintidos: 22, veintitrés: 23, veintitres: 23,
+      veinticuatro: 24, veinticinco: 25, veintiséis: 26, veintiseis: 26,
+      veintisiete: 27, veintiocho: 28, veintinueve: 29,
+    },
+    tens: {
+      veinte: 20, treinta: 30, cuarenta: 40, cincuenta: 50,
+      sesenta: 60, setenta: 70, ochenta: 80, noventa: 90,
+    },
+    tensJoiner: 'y',
+    hundred: [],
+    hundreds: {
+      cien: 100, ciento: 100, doscientos: 200, doscientas: 200,
+      trescientos: 300, trescientas: 300, cuatrocientos: 400, cuatrocientas: 400,
+      quinientos: 500, quinientas: 500, seiscientos: 600, seiscientas: 600,
+      setecientos: 700, setecientas: 700, ochocientos: 800, ochocientas: 800,
+      novecientos: 900, novecientas: 900,
+    },
+    thousand: ['mil'],
+    point: ['coma', 'punto'],
+    digits: {
+      cero: '0', uno: '1', dos: '2', tres: '3', cuatro: '4',
+      cinco: '5', seis: '6', siete: '7', ocho: '8', nueve: '9',
+    },
+    fractions: {
+      medio: 1 / 2, media: 1 / 2, medios: 1 / 2, medias: 1 / 2,
+      tercio: 1 / 3, tercios: 1 / 3,
+      cuarto: 1 / 4, cuartos: 1 / 4,
+      octavo: 1 / 8, octavos: 1 / 8,
+    },
+    articles: ['un', 'una'],
+    vague: { par: 2 },
+    dozen: ['docena', 'docenas'],
+  },
+  units: {
+    ...UNIT_SYMBOLS,
+    gr: 'g', gramo: 'g', gramos: 'g',
+    kilo: 'kg', kilos: 'kg', kilogramo: 'kg', kilogramos: 'kg',
+    libra: 'lb', libras: 'lb',
+    onza: 'oz', onzas: 'oz',
+    litro: 'l', litros: 'l',
+    mililitro: 'ml', mililitros: 'ml',
+    galón: 'gal', galon: 'gal', galones: 'gal',
+    taza: 'cup', tazas: 'cup',
+    cucharada: 'tbsp', cucharadas: 'tbsp',
+    cucharadita: 'tsp', cucharaditas: 'tsp',
+    unidad: 'count', unidades: 'count',
+    lata: 'can', latas: 'can',
+    caja: 'box', cajas: 'box', cartón: 'box', carton: 'box', cartones: 'box',
+    bolsa: 'bag', bolsas: 'bag',
+    botella: 'bottle', botellas: 'bottle',
+    frasco: 'jar', frascos: 'jar', tarro: 'jar', tarros: 'jar',
+    paquete: 'pack', paquetes: 'pack',
+    manojo: 'bunch', manojos: 'bunch', racimo: 'bunch', racimos: 'bunch',
+  },
+  of: ['de', 'del'],
+  listTargets: [
+    // "a la lista de costco", "en mi lista de la compra", "a mi lista"
+    /\s+(?:a|en|de)\s+(?:la|mi|nuestra)\s+lista(?:\s+(?:de\s+(?:la\s+|el\s+)?)?(.+))?$/,
+  ],
+  genericListNames: ['compra', 'compras', 'súper', 'super', 'supermercado', 'mercado'],
+  categoryTarget: /^(.+?)\s+(?:(?:a|al|en)\s+(?:la\s+|el\s+)?(?:sección|seccion|pasillo|categoría|categoria|departamento)\s+(?:de\s+(?:la\s+|el\s+|los\s+|las\s+)?)?|a\s+(?:la\s+|el\s+|los\s+|las\s+|mi\s+)?)(.+)$/,
+  // "los huevos a la lista de costco", "el pan de la lista semanal a costco"
+  moveTarget: /^(.+?)(?:\s+de\s+la\s+lista\s+(?:de\s+(?:la\s+|el\s+)?)?(.+?))?\s+a\s+(?:la\s+)?(?:lista\s+(?:de\s+(?:la\s+|el\s+)?)?)?(.+)$/,
+  // "y" (or "e" before an i sound) between items, but not in "dos y medio"
+  itemSeparator: /\s+(?:y|e)\s+(?!(?:medio|media|cuarto|cuartos)(?=\s|$))/g,
+  compounds: {},
+  determiners: ['el', 'la', 'los', 'las', 'mi', 'mis', 'un', 'una', 'unos', 'unas', 'algo de'],
+  fillerWords: [
+    'el', 'la', 'los', 'las', 'lo', 'un', 'una', 'unos', 'unas', 'mi', 'mis',
+    'nuestro', 'nuestra', 'nuestros', 'nuestras', 'algo', 'de', 'del',
+  ],
+  itemNotes: {
+    // Spanish descriptions follow the noun
+    leading: [],
+    trailing: [
+      // "si está en oferta"
+      /(?:^|\s+)(si\s+(?:est[aá]n?\s+)?en\s+oferta)$/,
+      // "de marca hacendado", "marca blanca"
+      /(?:^|\s+)(?:de\s+)?(?:la\s+)?(marca\s+.+)$/,
+      // "no muy maduros", "bien maduras"
+      /(?:^|\s+)((?:no\s+(?:muy|tan|demasiado)|muy|bien)\s+\S+)$/,
+      // "ecológica", "sin lactosa", "desnatada"
+      /(?:^|\s+)((?:org[aá]nic|ecol[oó]gic|desnatad|semidesnatad|descremad)[oa]s?|sin\s+(?:gluten|lactosa|az[uú]car|sal)|bajos?\s+en\s+(?:grasa|sal))$/,
+    ],
+  },
+  previousItem: ['eso', 'esto', 'lo'],
+  questions: [
+    [/^cu[aá]nt[oa]s(?=\s|$)/, 'count'],
+    [/^qu[eé]\s+(?:he|hemos)\s+(?:ya\s+)?(?:marcado|tachado|comprado|cogido)(?=\s|$)/, 'checked'],
+    [/^qu[eé]\s+(?:(?:me|nos)\s+)?(?:falta|faltan|queda|quedan|necesito|necesitamos|hay)(?=\s|$)/, 'remaining'],
+    [/^(?:hay|est[aá]n?|ya\s+est[aá]n?)\s+(.+?)(?:\s+en\s+(?:mi|la|nuestra)\s+lista)?$/, 'contains'],
+  ],
+  edits: {
+    rename: /^(?:renombra|cambia\s+el\s+nombre\s+(?:de|a|al))\s+(.+?)\s+(?:a|por|como)\s+(.+)$/,
+    note: /^(?:(?:añade|agrega|pon)\s+)?(?:una\s+)?nota\s+(?:a|al|en|para)\s+(.+?)(?:\s*:\s*|\s+que\s+diga\s+|\s+diciendo\s+)(.+)$/,
+    noteWithoutText: /^(?:(?:añade|agrega|pon)\s+)?(?:una\s+)?nota\s+(?:a|al|en|para)\s+(.+)$/,
+    change: /^(?:cambia|actualiza)\s+(.+?)\s+(?:a|por)\s+(.+)$/,
+    makeThat: /^(?:mejor|que\s+sean?|c[aá]mbialo\s+a|ponle)\s+(.+)$/,
+  },
+  choices: {
+    primero: 0, primera: 0, uno: 0, una: 0, '1': 0,
+    segundo: 1, segunda: 1, dos: 1, '2': 1,
+    tercero: 2, tercera: 2, tercer: 2, tres: 2, '3': 2,
+    cuarto: 3, cuarta: 3, cuatro: 3, '4': 3,
+    quinto: 4, quinta: 4, cinco: 4, '5': 4,
+    último: -1, última: -1, ultimo: -1, ultima: -1,
+  },
+  choiceFillers: ['el', 'la', 'lo', 'número', 'numero', 'opción', 'opcion', 'por', 'favor'],
+  replies: {
+    remaining: (items, list) => `Todavía necesitas ${items} en ${list}.`,
+    nothingLeft: list => `No queda nada en ${list}.`,
+    count: (left, checked, list) => {
+      const remaining = `${left === 1 ? 'Queda' : 'Quedan'} ${counted(left, 'artículo', 'artículos')} en ${list}`
+      return checked ? `${remaining}, ${counted(checked, 'marcado', 'marcados')}.` : `${remaining}.`
+    },
+    checkedOff: items => `Marcaste ${items}.`,
+    nothingChecked: list => `Todavía no has marcado nada en ${list}.`,
+    onList: (item, list) => `Sí, ${item} está en ${list}.`,
+    checkedAlready: (item, list) => `${item} está en ${list}, pero ya está marcado.`,
+    notOnList: (item, list) => `No, ${item.toLowerCase()} no está en ${list}.`,
+    listHas: (items, list) => `${list} tiene ${items}.`,
+    more: count => `${count} más`,
+
+    added: (added, merged, list, category) => {
+      const parts: string[] = []
+      if (added > 0) parts.push(`Añadí ${counted(added, 'artículo', 'artículos')}`)
+      if (merged > 0) parts.push(`${parts.length ? 'sumé' : 'Sumé'} ${merged} a ${merged === 1 ? 'un artículo existente' : 'artículos existentes'}`)
+      return `${parts.join(', ')} en "${list}"${category ? `, sección ${category}` : ''}`
+    },
+    checked: (count, list) => `Marqué ${counted(count, 'artículo', 'artículos')} en "${list}"`,
+    unchecked: (count, list) => `Desmarqué ${counted(count, 'artículo', 'artículos')} en "${list}"`,
+    removed: (count, list) => `Quité ${counted(count, 'artículo', 'artículos')} de "${list}"`,
+    moved: (count, from, to) => `Pasé ${counted(count, 'artículo', 'artículos')} de "${from}" a "${to}"`,
+
+    previewAdd: (items, list, category) => `Añadir ${items} a "${list}"${category ? `, sección ${category}` : ''}`,
+    previewCheck: (items, list) => `Marcar ${items} en "${list}"`,
+    previewUncheck: (items, list) => `Desmarcar ${items} en "${list}"`,
+    previewRemove: (items, list) => `Quitar ${items} de "${list}"`,
+    previewMove: (items, from, to) => `Pasar ${items} de "${from}" a "${to}"`,
+    previewQuestion: list => `Responder una pregunta sobre "${list}"`,
+
+    changed: (items, quantity, list, tense) =>
+      `${tense === 'done' ? 'Cambié' : 'Cambiar'} ${items} a ${quantity} en "${list}"`,
+    renamed: (items, newName, list, tense) =>
+      `${tense === 'done' ? 'Renombré' : 'Renombrar'} ${items} como ${newName} en "${list}"`,
+    noted: (items, note, list, tense) =>
+      `${tense === 'done' ? 'Añadí' : 'Añadir'} la nota "${note}" a ${items} en "${list}"`,
+
+    whichList: spoken => `¿Qué lista querías decir con "${spoken}"?`,
+    whichCategory: spoken => `¿Qué sección querías decir con "${spoken}"?`,
+    whichItem: spoken => `¿A qué "${spoken}" te refieres?`,
+
+    shoppingModeOn: wakePhrase => `Modo compra activado. Di ${wakePhrase} y luego lo que necesites.`,
+    shoppingModeOff: 'Modo compra desactivado',
+  },
+}
+
+export const LANGUAGE_PACKS: Record<VoiceLanguage, LanguagePack> = {
+  en: ENGLISH,
+  es: SPANISH,
+}
+
+/** The pack for a stored language code, English for anything unknown */
+export function getLanguagePack(code: string | null | undefined): LanguagePack {
+  return LANGUAGE_PACKS[code as VoiceLanguage] ?? ENGLISH
+}
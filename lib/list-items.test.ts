@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ItemBatchError,
+  batchInverse,
+  readBatchOperations,
+  summarizeBatch,
+  type BatchOperation,
+  type BatchResult,
+} from './list-items'
+import type { ListItem } from './list-state'
+
+const row = (id: string, fields: Partial<ListItem> = {}): ListItem => ({
+  id,
+  name: 'Milk',
+  quantity_value: null,
+  quantity_unit: null,
+  notes: null,
+  is_checked: false,
+  category_id: null,
+  list_id: 'list-1',
+  position: null,
+  ...fields,
+})
+
+function batchError(value: unknown): ItemBatchError {
+  try {
+    readBatchOperations(value)
+  } catch (error) {
+    if (error instanceof ItemBatchError) return error
+    throw error
+  }
+  throw new Error('Expected the batch to be rejected')
+}
+
+describe('readBatchOperations', () => {
+  it('normalizes creates and updates', () => {
+    expect(
+      readBatchOperations([
+        { op: 'create', item: { list_id: 'list-1', name: ' Eggs ', quantity_value: '12', extra: true } },
+        { op: 'update', id: 'a', changes: { is_checked: true, quantity_value: 2, quantity_unit: 'lbs' } },
+        { op: 'delete', id: 'b' },
+      ])
+    ).toEqual([
+      {
+        op: 'create',
+        item: {
+          list_id: 'list-1',
+          name: 'Eggs',
+          quantity_value: 12,
+          quantity_unit: 'count',
+          notes: null,
+          is_checked: false,
+        },
+      },
+      { op: 'update', id: 'a', changes: { is_checked: true, quantity_value: 2, quantity_unit: 'lb' } },
+      { op: 'delete', id: 'b' },
+    ])
+  })
+
+  it('leaves a create without a category for auto-filing, unlike one with none', () => {
+    const [auto, none] = readBatchOperations([
+      { op: 'create', item: { list_id: 'list-1', name: 'Eggs' } },
+      { op: 'create', item: { list_id: 'list-1', name: 'Eggs', category_id: null } },
+    ])
+    expect(auto.op === 'create' && 'category_id' in auto.item).toBe(false)
+    expect(none).toMatchObject({ item: { category_id: null } })
+  })
+
+  it('names the operation at fault', () => {
+    const error = batchError([
+      { op: 'delete', id: 'a' },
+      { op: 'update', id: 'b', changes: { quantity_value: -1 } },
+    ])
+    expect(error.message).toBe('Operation 2: Invalid quantity')
+    expect(error.index).toBe(1)
+    expect(error.status).toBe(400)
+  })
+
+  it('rejects empty batches, unknown ops and updates that change nothing', () => {
+    expect(batchError([]).message).toBe('Operations required')
+    expect(batchError([{ op: 'upsert', id: 'a' }]).message).toBe('Operation 1: Unknown operation "upsert"')
+    expect(batchError([{ op: 'update', id: 'a', changes: { list_id: 'x' } }]).message).toBe(
+      'Operation 1: Nothing to change'
+    )
+    expect(batchError([{ op: 'create', item: { name: 'Eggs' } }]).message).toBe('Operation 1: List ID required')
+  })
+})
+
+describe('batchInverse', () => {
+  it('deletes created rows and restores updated and deleted ones', () => {
+    const operations: BatchOperation[] = [
+      { op: 'create', item: { list_id: 'list-1', name: 'Eggs', quantity_value: null, quantity_unit: null } },
+      { op: 'update', id: 'a', changes: { is_checked: true } },
+      { op: 'delete', id: 'b' },
+    ]
+    const results: BatchResult[] = [
+      { item: row('new', { name: 'Eggs' }) },
+      { item: row('a', { is_checked: true }), previous: row('a') },
+      { item: row('b', { name: 'Bread' }) },
+    ]
+
+    expect(batchInverse(operations, results)).toEqual({
+      deleteIds: ['new'],
+      restoreRows: [row('a'), row('b', { name: 'Bread' })],
+    })
+  })
+})
+
+describe('summarizeBatch', () => {
+  it('counts each kind of operation', () => {
+    expect(
+      summarizeBatch([
+        { op: 'update', id: 'a', changes: { is_checked: true } },
+        { op: 'update', id: 'b', changes: { is_checked: true } },
+        { op: 'delete', id: 'c' },
+      ])
+    ).toBe('Updated 2 items, removed 1 item')
+  })
+})
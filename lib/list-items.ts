@@ -0,0 +1,581 @@
+// Server-side list_items writes shared by the /api/items route and the
+// voice command route. Callers pass in their request-scoped Supabase
+// client, so RLS still applies.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Category, ListItem } from './list-state'
+import { combineInverses, type ItemRecord, type OperationInverse } from './operations'
+import { departmentFor, findDepartmentCategory, type AliasedCategory } from './grocery-taxonomy'
+import { recordCatalogItems } from './item-catalog'
+import { placeAfter } from './item-order'
+import { itemNameKey } from './item-matcher'
+import { mergeQuantities, normalizeQuantityFields, toQuantity, type QuantityFields } from './units'
+
+export type NewItem = QuantityFields & {
+  name: string
+  notes?: string | null
+  /** Left out to have assignCategories pick one; null for none */
+  category_id?: string | null
+}
+
+export type AddItemResult = {
+  status: 'added' | 'merged'
+  item: ListItem
+  /** The existing row before a merge changed it, for undo */
+  previous?: ListItem
+}
+
+/**
+ * Add items to a list. When the list has merge_duplicates on, an item whose
+ * name matches an unchecked item (case- and plural-insensitive) bumps that
+ * item's quantity instead of inserting a second row, as long as the units
+ * can be combined. Every add is recorded in the user's item catalog.
+ */
+export async function addOrMergeItems(
+  supabase: SupabaseClient,
+  listId: string,
+  userId: string,
+  items: NewItem[]
+): Promise<AddItemResult[]> {
+  const { data: list } = await supabase
+    .from('grocery_lists')
+    .select('merge_duplicates')
+    .eq('id', listId)
+    .single()
+
+  if (!list) {
+    throw new Error('List not found')
+  }
+
+  let existingItems: ListItem[] = []
+  if (list.merge_duplicates) {
+    const { data, error } = await supabase
+      .from('list_items')
+      .select('*')
+      .eq('list_id', listId)
+      .eq('is_checked', false)
+
+    if (error) {
+      throw new Error(`Failed to load list items: ${error.message}`)
+    }
+    existingItems = data || []
+  }
+
+  const results: AddItemResult[] = []
+
+  for (const item of items) {
+    const key = itemNameKey(item.name)
+    const existing = existingItems.find(candidate => itemNameKey(candidate.name) === key)
+    const merged = existing && mergeQuantities(toQuantity(existing), toQuantity(item))
+
+    if (existing && merged) {
+      const updates: Record<string, unknown> = {
+        quantity_value: merged.value,
+        quantity_unit: merged.unit,
+      }
+      if (!existing.category_id && item.category_id) updates.category_id = item.category_id
+      if (!existing.notes && item.notes) updates.notes = item.notes
+
+      const { data, error } = await supabase
+        .from('list_items')
+        .update(updates)
+        .eq('id', existing.id)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update "${existing.name}": ${error.message}`)
+      }
+
+      existingItems = existingItems.map(candidate => (candidate.id === data.id ? data : candidate))
+      results.push({ status: 'merged', item: data, previous: existing })
+      continue
+    }
+
+    const { data, error } = await supabase
+      .from('list_items')
+      .insert({
+        name: item.name,
+        quantity_value: item.quantity_value,
+        quantity_unit: item.quantity_unit,
+        notes: item.notes || null,
+        category_id: item.category_id || null,
+        list_id: listId,
+        user_id: userId,
+        is_checked: false,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to add "${item.name}": ${error.message}`)
+    }
+
+    existingItems.push(data)
+    results.push({ status: 'added', item: data })
+  }
+
+  // As added: a merge's quantity is the total, not what this add asked for
+  await recordCatalogItems(
+    supabase,
+    items.map((item, index) => ({ ...item, category_id: results[index].item.category_id }))
+  )
+
+  return results
+}
+
+/**
+ * File items added without a category (category_id left out, not null)
+ * using the grocery taxonomy, unless the list has auto_categorize off.
+ * Items the taxonomy doesn't know, or whose department has no category
+ * on the list, stay uncategorized.
+ */
+export async function assignCategories(
+  supabase: SupabaseClient,
+  listId: string,
+  items: NewItem[]
+): Promise<NewItem[]> {
+  if (items.every(item => item.category_id !== undefined)) return items
+
+  const [{ data: list }, { data: categories, error }] = await Promise.all([
+    supabase.from('grocery_lists').select('auto_categorize').eq('id', listId).single(),
+    supabase.from('categories').select('id, name, aliases').eq('list_id', listId).order('name'),
+  ])
+
+  if (error) {
+    throw new Error(`Failed to load categories: ${error.message}`)
+  }
+  if (!list?.auto_categorize || !categories?.length) return items
+
+  return items.map(item => {
+    if (item.category_id !== undefined) return item
+    const department = departmentFor(item.name)
+    const category = department && findDepartmentCategory(categories as AliasedCategory[], department)
+    return { ...item, category_id: category ? category.id : null }
+  })
+}
+
+/** A move or copy the user isn't allowed to make, or that makes no sense */
+export class ItemTransferError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+export type TransferMode = 'move' | 'copy'
+
+export type TransferResult = {
+  /** The items as they now are on the target list */
+  items: ListItem[]
+  /** Categories created on the target list to hold them */
+  createdCategories: Category[]
+  inverse: OperationInverse
+}
+
+/**
+ * Move or copy items to another list. Categories belong to a list, so each
+ * item's category is matched by name (case-insensitively) on the target
+ * list and created there if it's missing. The user must be a member of the
+ * target list and of every list the items come from.
+ * Moving keeps the rows, checked state included; items already on the
+ * target list stay put. It's one transaction (move_items), so a failure
+ * moves nothing. Copying adds the items unchecked, merging into existing
+ * ones like any other add.
+ */
+export async function transferItems(
+  supabase: SupabaseClient,
+  userId: string,
+  itemIds: string[],
+  targetListId: string,
+  mode: TransferMode
+): Promise<TransferResult> {
+  const ids = [...new Set(itemIds)]
+  const { data: items, error } = await supabase
+    .from('list_items')
+    .select('*')
+    .in('id', ids)
+
+  if (error) {
+    throw new Error(`Failed to load items: ${error.message}`)
+  }
+  if (!items || items.length !== ids.length) {
+    throw new ItemTransferError('Item not found', 404)
+  }
+
+  // RLS lets list members write items, but checking membership up front
+  // gives a clear error instead of a partial move
+  const listIds = [...new Set([targetListId, ...items.map(item => item.list_id)])]
+  const { data: shares, error: sharesError } = await supabase
+    .from('list_shares')
+    .select('list_id')
+    .eq('user_id', userId)
+    .in('list_id', listIds)
+
+  if (sharesError) {
+    throw new Error(`Failed to check list access: ${sharesError.message}`)
+  }
+  const member = new Set((shares || []).map(share => share.list_id))
+  if (!listIds.every(id => member.has(id))) {
+    throw new ItemTransferError("You don't have access to that list", 403)
+  }
+
+  const moving: ListItem[] = mode === 'move' ? items.filter(item => item.list_id !== targetListId) : items
+  if (moving.length === 0) {
+    throw new ItemTransferError('Those items are already on that list', 400)
+  }
+
+  if (mode === 'move') {
+    const { data, error: moveError } = await supabase.rpc('move_items', {
+      item_ids: moving.map(item => item.id),
+      target_list: targetListId,
+    })
+
+    if (moveError) {
+      throw new Error(`Failed to move items: ${moveError.message}`)
+    }
+    return {
+      items: data.items,
+      createdCategories: data.created_categories,
+      inverse: { deleteIds: [], restoreRows: moving as ItemRecord[] },
+    }
+  }
+
+  const { categoryIds, created } = await remapCategories(supabase, moving, targetListId)
+  const results = await addOrMergeItems(
+    supabase,
+    targetListId,
+    userId,
+    moving.map(item => ({
+      name: item.name,
+      quantity_value: item.quantity_value,
+      quantity_unit: item.quantity_unit,
+      notes: item.notes,
+      category_id: item.category_id ? categoryIds.get(item.category_id) : null,
+    }))
+  )
+  return {
+    items: results.map(result => result.item),
+    createdCategories: created,
+    inverse: {
+      deleteIds: results.filter(result => !result.previous).map(result => result.item.id),
+      restoreRows: results.flatMap(result => (result.previous ? [result.previous as ItemRecord] : [])),
+    },
+  }
+}
+
+/** A remap_categories row: the target list's category for a source one */
+type RemappedCategory = Pick<Category, 'id' | 'name' | 'color' | 'icon'> & {
+  source_id: string
+  created: boolean
+}
+
+/**
+ * Map the items' categories to categories of the same name on the target
+ * list, creating the missing ones with the same color and icon, in one
+ * statement (remap_categories)
+ */
+async function remapCategories(
+  supabase: SupabaseClient,
+  items: ListItem[],
+  targetListId: string
+): Promise<{ categoryIds: Map<string, string>; created: Category[] }> {
+  const categoryIds = new Map<string, string>()
+  const created: Category[] = []
+  const sourceIds = [...new Set(items.map(item => item.category_id).filter((id): id is string => id !== null))]
+  if (sourceIds.length === 0) return { categoryIds, created }
+
+  const { data, error } = await supabase.rpc('remap_categories', {
+    source_ids: sourceIds,
+    target_list: targetListId,
+  })
+
+  if (error) {
+    throw new Error(`Failed to create categories: ${error.message}`)
+  }
+
+  for (const row of (data || []) as RemappedCategory[]) {
+    categoryIds.set(row.source_id, row.id)
+    if (row.created) {
+      created.push({ id: row.id, name: row.name, color: row.color, icon: row.icon } as Category)
+    }
+  }
+  return { categoryIds, created }
+}
+
+/** Item fields a batch update can change */
+export type ItemChanges = Partial<
+  Pick<ListItem, 'name' | 'quantity_value' | 'quantity_unit' | 'notes' | 'category_id' | 'is_checked'>
+>
+
+export type BatchOperation =
+  | { op: 'create'; item: NewItem & { list_id: string; is_checked?: boolean } }
+  | { op: 'update'; id: string; changes: ItemChanges }
+  | { op: 'delete'; id: string }
+
+export type BatchResult = {
+  /** The row as written; for deletes, the row that was removed */
+  item: ListItem
+  /** The row before an update */
+  previous?: ListItem
+}
+
+/** A batch that is malformed or failed; index is the operation at fault */
+export class ItemBatchError extends Error {
+  constructor(message: string, public status: number, public index?: number) {
+    super(message)
+  }
+}
+
+export const MAX_BATCH_OPERATIONS = 200
+
+/**
+ * Validate a batch from a request body. Quantities are normalized the way
+ * the single-item routes do it, and unknown fields are dropped.
+ */
+export function readBatchOperations(value: unknown): BatchOperation[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ItemBatchError('Operations required', 400)
+  }
+  if (value.length > MAX_BATCH_OPERATIONS) {
+    throw new ItemBatchError(`At most ${MAX_BATCH_OPERATIONS} operations per batch`, 400)
+  }
+
+  return value.map((raw, index) => {
+    const fail = (message: string): never => {
+      throw new ItemBatchError(`Operation ${index + 1}: ${message}`, 400, index)
+    }
+    if (!raw || typeof raw !== 'object') fail('Invalid operation')
+    const { op, id, item, changes } = raw as Record<string, unknown>
+
+    switch (op) {
+      case 'create': {
+        if (!item || typeof item !== 'object') return fail('Item required')
+        const fields = readItemChanges(item as Record<string, unknown>, fail)
+        const listId = (item as Record<string, unknown>).list_id
+        if (typeof listId !== 'string' || !listId) return fail('List ID required')
+        if (!fields.name) return fail('Name required')
+        return {
+          op,
+          item: {
+            list_id: listId,
+            name: fields.name,
+            quantity_value: fields.quantity_value ?? null,
+            quantity_unit: fields.quantity_unit ?? null,
+            notes: fields.notes || null,
+            // Left out for applyItemBatch to pick one
+            ...(fields.category_id !== undefined && { category_id: fields.category_id }),
+            is_checked: fields.is_checked ?? false,
+          },
+        }
+      }
+
+      case 'update': {
+        if (typeof id !== 'string' || !id) return fail('Item ID required')
+        if (!changes || typeof changes !== 'object') return fail('Changes required')
+        const fields = readItemChanges(changes as Record<string, unknown>, fail)
+        if (Object.keys(fields).length === 0) return fail('Nothing to change')
+        return { op, id, changes: fields }
+      }
+
+      case 'delete':
+        if (typeof id !== 'string' || !id) return fail('Item ID required')
+        return { op, id }
+
+      default:
+        return fail(`Unknown operation "${String(op)}"`)
+    }
+  })
+}
+
+function readItemChanges(
+  source: Record<string, unknown>,
+  fail: (message: string) => never
+): ItemChanges {
+  const changes: ItemChanges = {}
+
+  if (source.name !== undefined) {
+    if (typeof source.name !== 'string' || !source.name.trim()) fail('Name required')
+    changes.name = (source.name as string).trim()
+  }
+  if (source.quantity_value !== undefined || source.quantity_unit !== undefined) {
+    const quantity = normalizeQuantityFields(source.quantity_value, source.quantity_unit)
+    if (!quantity) fail('Invalid quantity')
+    Object.assign(changes, quantity)
+  }
+  if (source.notes !== undefined) {
+    if (source.notes !== null && typeof source.notes !== 'string') fail('Invalid notes')
+    changes.notes = (source.notes as string | null) || null
+  }
+  if (source.category_id !== undefined) {
+    if (source.category_id !== null && typeof source.category_id !== 'string') fail('Invalid category')
+    changes.category_id = (source.category_id as string | null) || null
+  }
+  if (source.is_checked !== undefined) {
+    if (typeof source.is_checked !== 'boolean') fail('Invalid checked state')
+    changes.is_checked = source.is_checked as boolean
+  }
+
+  return changes
+}
+
+/**
+ * Run creates, updates and deletes in one transaction (apply_item_batch in
+ * supabase/migrations/00012_item_batches.sql). Creates are plain inserts:
+ * they don't merge into existing items, though they do go in the user's
+ * item catalog, and ones without a category_id are filed by
+ * assignCategories. Results line up with the operations. If any operation
+ * fails nothing is written, and the error says which one.
+ */
+export async function applyItemBatch(
+  supabase: SupabaseClient,
+  operations: BatchOperation[]
+): Promise<BatchResult[]> {
+  if (operations.length === 0) return []
+
+  const { data, error } = await supabase.rpc('apply_item_batch', {
+    ops: await categorizeCreates(supabase, operations),
+  })
+
+  if (error) {
+    const index = Number.parseInt(error.details ?? '', 10)
+    throw new ItemBatchError(error.message, 400, Number.isNaN(index) ? undefined : index)
+  }
+
+  const results = data as BatchResult[]
+  await recordCatalogItems(
+    supabase,
+    results.filter((_, index) => operations[index].op === 'create').map(result => result.item)
+  )
+  return results
+}
+
+/** A batch with its uncategorized creates filed by assignCategories, list by list */
+async function categorizeCreates(
+  supabase: SupabaseClient,
+  operations: BatchOperation[]
+): Promise<BatchOperation[]> {
+  type Create = Extract<BatchOperation, { op: 'create' }>
+  const uncategorized = operations.filter(
+    (operation): operation is Create => operation.op === 'create' && operation.item.category_id === undefined
+  )
+
+  const filed = new Map<BatchOperation, BatchOperation>()
+  for (const listId of new Set(uncategorized.map(operation => operation.item.list_id))) {
+    const creates = uncategorized.filter(operation => operation.item.list_id === listId)
+    const items = await assignCategories(supabase, listId, creates.map(operation => operation.item))
+    creates.forEach((operation, index) => {
+      filed.set(operation, { ...operation, item: { ...operation.item, ...items[index] } })
+    })
+  }
+  return operations.map(operation => filed.get(operation) ?? operation)
+}
+
+/** What undoes a batch: delete the created rows, restore the rest */
+export function batchInverse(operations: BatchOperation[], results: BatchResult[]): OperationInverse {
+  return combineInverses(
+    results.map((result, index) =>
+      operations[index].op === 'create'
+        ? { deleteIds: [result.item.id], restoreRows: [] }
+        : { deleteIds: [], restoreRows: [(result.previous ?? result.item) as ItemRecord] }
+    )
+  )
+}
+
+/** "Added 1 item, updated 2 items, removed 3 items" */
+export function summarizeBatch(operations: BatchOperation[]): string {
+  const counts = { create: 0, update: 0, delete: 0 }
+  for (const operation of operations) counts[operation.op]++
+
+  const verbs = { create: 'added', update: 'updated', delete: 'removed' } as const
+  const parts = (Object.keys(counts) as BatchOperation['op'][])
+    .filter(op => counts[op] > 0)
+    .map(op => `${verbs[op]} ${counts[op]} ${counts[op] === 1 ? 'item' : 'items'}`)
+  const summary = parts.join(', ')
+  return summary.charAt(0).toUpperCase() + summary.slice(1)
+}
+
+/**
+ * Where items have been placed on a list before: item name key → category
+ * of the most recently updated item with that name
+ */
+export async function loadCategoryPlacements(
+  supabase: SupabaseClient,
+  listId: string
+): Promise<Map<string, string>> {
+  const { data, error } = await supabase
+    .from('list_items')
+    .select('name, category_id')
+    .eq('list_id', listId)
+    .not('category_id', 'is', null)
+    .order('updated_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load list items: ${error.message}`)
+  }
+
+  const placements = new Map<string, string>()
+  for (const item of data || []) {
+    const key = itemNameKey(item.name)
+    if (!placements.has(key)) placements.set(key, item.category_id)
+  }
+  return placements
+}
+
+export class ItemReorderError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+/**
+ * Move an item to just after another item on its list, or to the top when
+ * afterId is null. Usually only the moved item is written; items nobody
+ * has moved yet get positions the first time something lands among them,
+ * and a list whose keys got too long is respaced. Returns the rows written.
+ */
+export async function reorderItem(
+  supabase: SupabaseClient,
+  itemId: string,
+  afterId: string | null
+): Promise<ListItem[]> {
+  const { data: item, error: itemError } = await supabase
+    .from('list_items')
+    .select('list_id')
+    .eq('id', itemId)
+    .maybeSingle()
+
+  if (itemError) {
+    throw new Error(`Failed to load item: ${itemError.message}`)
+  }
+  if (!item) {
+    throw new ItemReorderError('Item not found', 404)
+  }
+
+  const { data: ordered, error } = await supabase
+    .from('list_items')
+    .select('id, position')
+    .eq('list_id', item.list_id)
+    .order('position', { ascending: true, nullsFirst: true })
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load list items: ${error.message}`)
+  }
+
+  const updates = placeAfter(ordered || [], itemId, afterId)
+  if (!updates) {
+    throw new ItemReorderError('That item is not on the same list', 400)
+  }
+
+  // One statement, so placing unmoved items or respacing the list can't
+  // stop halfway
+  const { data, error: updateError } = await supabase.rpc('set_item_positions', {
+    target_list: item.list_id,
+    updates,
+  })
+
+  if (updateError) {
+    throw new Error(`Failed to move item: ${updateError.message}`)
+  }
+  return data as ListItem[]
+}
@@ -1,8 +1,10 @@
 import { describe, expect, it } from 'vitest'
 import {
+  applyUndoResult,
   isTempId,
   makeTempId,
   mergeFetchedItems,
+  resolveAddedItem,
   resolveTempItem,
   transformShares,
 } from './list-state'
@@ -63,6 +65,43 @@ describe('resolveTempItem', () => {
   })
 })
 
+describe('resolveAddedItem', () => {
+  it('swaps the temp item for an added item', () => {
+    const prev = [item('temp-1'), item('a')]
+    const real = item('real-1')
+    expect(resolveAddedItem(prev, 'temp-1', { status: 'added', item: real })).toEqual([real, item('a')])
+  })
+
+  it('drops the temp item and updates the row it was merged into', () => {
+    const prev = [item('temp-1', 'milk'), item('a', 'Milk')]
+    const merged = { id: 'a', name: 'Milk (2)' }
+    expect(resolveAddedItem(prev, 'temp-1', { status: 'merged', item: merged })).toEqual([merged])
+  })
+
+  it('falls back to a swap when the merged row is not in state', () => {
+    const prev = [item('temp-1'), item('b')]
+    const merged = item('a')
+    expect(resolveAddedItem(prev, 'temp-1', { status: 'merged', item: merged })).toEqual([merged, item('b')])
+  })
+})
+
+describe('applyUndoResult', () => {
+  it('removes rows the operation inserted', () => {
+    const prev = [item('a'), item('b')]
+    expect(applyUndoResult(prev, { deletedIds: ['b'], restored: [] })).toEqual([item('a')])
+  })
+
+  it('replaces changed rows in place and brings deleted rows back', () => {
+    const prev = [item('a', 'Milk (2)'), item('b')]
+    const restored = [item('a', 'Milk'), item('c')]
+    expect(applyUndoResult(prev, { deletedIds: [], restored })).toEqual([
+      item('a', 'Milk'),
+      item('b'),
+      item('c'),
+    ])
+  })
+})
+
 describe('transformShares', () => {
   const listRow = (
     id: string,
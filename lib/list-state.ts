@@ -2,11 +2,17 @@
 // optimistic-update / refetch logic. Kept free of React and network code
 // so they can be unit-tested directly.
 
+import type { QuantityUnit } from './units'
+
 export type GroceryList = {
   id: string
   name: string
   description: string | null
   is_active: boolean
+  merge_duplicates: boolean
+  auto_categorize: boolean
+  /** The store the list is usually shopped at */
+  store_id: string | null
   share_code: string | null
   created_at: string
   user_id: string
@@ -18,11 +24,14 @@ export type GroceryList = {
 export type ListItem = {
   id: string
   name: string
-  quantity: string | null
+  quantity_value: number | null
+  quantity_unit: QuantityUnit | null
   notes: string | null
   is_checked: boolean
   category_id: string | null
   list_id: string
+  /** Manual order key; null until the item is first moved */
+  position: string | null
 }
 
 export type Category = {
@@ -70,6 +79,42 @@ export function resolveTempItem<T extends { id: string }>(
   return prev.map((item) => (item.id === tempId ? realItem : item))
 }
 
+/**
+ * Apply a POST /api/items result to state. An "added" item replaces its
+ * temp item; a "merged" one means the server folded it into an existing
+ * row, so the temp item goes away and that row is updated in place.
+ */
+export function resolveAddedItem<T extends { id: string }>(
+  prev: T[],
+  tempId: string,
+  result: { status: 'added' | 'merged'; item: T }
+): T[] {
+  const { status, item } = result
+  if (status === 'merged' && prev.some((existing) => existing.id === item.id)) {
+    return prev
+      .filter((existing) => existing.id !== tempId)
+      .map((existing) => (existing.id === item.id ? item : existing))
+  }
+  return resolveTempItem(prev, tempId, item)
+}
+
+/**
+ * Apply an undo result to state: rows the operation had inserted go away,
+ * restored rows replace their current version or come back.
+ */
+export function applyUndoResult<T extends { id: string }>(
+  prev: T[],
+  result: { deletedIds: string[]; restored: T[] }
+): T[] {
+  const deleted = new Set(result.deletedIds)
+  const restoredById = new Map(result.restored.map((item) => [item.id, item]))
+  const kept = prev
+    .filter((item) => !deleted.has(item.id))
+    .map((item) => restoredById.get(item.id) ?? item)
+  const keptIds = new Set(kept.map((item) => item.id))
+  return [...kept, ...result.restored.filter((item) => !keptIds.has(item.id))]
+}
+
 type ShareRow = {
   role: string
   grocery_lists: unknown
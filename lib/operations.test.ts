@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { combineInverses } from './operations'
+
+const row = (id: string, name = id) => ({ id, name })
+
+describe('combineInverses', () => {
+  it('keeps the earliest before-state of a row', () => {
+    const combined = combineInverses([
+      { deleteIds: [], restoreRows: [row('a', 'Milk')] },
+      { deleteIds: [], restoreRows: [row('a', 'Oat Milk'), row('b')] },
+    ])
+    expect(combined).toEqual({ deleteIds: [], restoreRows: [row('a', 'Milk'), row('b')] })
+  })
+
+  it('only deletes rows an earlier step inserted', () => {
+    const combined = combineInverses([
+      { deleteIds: ['new'], restoreRows: [] },
+      { deleteIds: [], restoreRows: [row('new', 'Milk'), row('c')] },
+    ])
+    expect(combined).toEqual({ deleteIds: ['new'], restoreRows: [row('c')] })
+  })
+})
@@ -0,0 +1,173 @@
+// Undo support for voice commands and bulk operations. Each mutating
+// operation stores the inverse of what it did; undoing replays that
+// inverse with the caller's Supabase client, so RLS still applies.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+/** A list_items row exactly as read from the database */
+export type ItemRecord = { id: string } & Record<string, unknown>
+
+export type OperationInverse = {
+  /** Rows the operation inserted */
+  deleteIds: string[]
+  /** Rows as they were before the operation deleted or updated them */
+  restoreRows: ItemRecord[]
+}
+
+export type OperationKind = 'voice_command' | 'clear_checked' | 'batch'
+
+export class UndoError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+/**
+ * Merge the inverses of steps applied in order into one. A row keeps the
+ * before-state from the first step that touched it, and rows inserted by
+ * an earlier step are only deleted, never restored.
+ */
+export function combineInverses(inverses: OperationInverse[]): OperationInverse {
+  const deleteIds: string[] = []
+  const restoreRows: ItemRecord[] = []
+  const seen = new Set<string>()
+
+  for (const inverse of inverses) {
+    for (const row of inverse.restoreRows) {
+      if (seen.has(row.id)) continue
+      seen.add(row.id)
+      restoreRows.push(row)
+    }
+    for (const id of inverse.deleteIds) {
+      seen.add(id)
+      deleteIds.push(id)
+    }
+  }
+
+  return { deleteIds, restoreRows }
+}
+
+/**
+ * Write an inverse back: delete the inserted rows, then upsert the saved
+ * ones. Returns the restored rows.
+ */
+export async function applyInverse(
+  supabase: SupabaseClient,
+  inverse: OperationInverse
+): Promise<ItemRecord[]> {
+  if (inverse.deleteIds.length > 0) {
+    const { error } = await supabase
+      .from('list_items')
+      .delete()
+      .in('id', inverse.deleteIds)
+
+    if (error) throw new Error(`Failed to remove items: ${error.message}`)
+  }
+
+  if (inverse.restoreRows.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('list_items')
+    .upsert(inverse.restoreRows)
+    .select()
+
+  if (error) throw new Error(`Failed to restore items: ${error.message}`)
+  return data || []
+}
+
+/**
+ * Record an operation so it can be undone. Returns the operation id, or
+ * null when there is nothing to undo. The change itself has already
+ * happened, so a failure to record is logged rather than thrown.
+ */
+export async function recordOperation(
+  supabase: SupabaseClient,
+  operation: {
+    userId: string
+    listId: string
+    kind: OperationKind
+    summary: string
+    inverse: OperationInverse
+  }
+): Promise<string | null> {
+  const { inverse } = operation
+  if (inverse.deleteIds.length === 0 && inverse.restoreRows.length === 0) {
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('operations')
+    .insert({
+      user_id: operation.userId,
+      list_id: operation.listId,
+      kind: operation.kind,
+      summary: operation.summary,
+      inverse,
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('Failed to record operation:', error)
+    return null
+  }
+
+  return data.id
+}
+
+/**
+ * Reverse an operation: delete the rows it inserted and write back the
+ * rows it deleted or changed. Each operation can be undone once.
+ */
+export async function undoOperation(
+  supabase: SupabaseClient,
+  userId: string,
+  operationId: string
+): Promise<{ summary: string; listId: string; deletedIds: string[]; restored: ItemRecord[] }> {
+  // Claim the operation first so two undo requests can't both apply it
+  const { data: operation, error: claimError } = await supabase
+    .from('operations')
+    .update({ undone_at: new Date().toISOString() })
+    .eq('id', operationId)
+    .eq('user_id', userId)
+    .is('undone_at', null)
+    .select('id, list_id, summary, inverse')
+    .maybeSingle()
+
+  if (claimError) {
+    throw new Error(`Failed to load operation: ${claimError.message}`)
+  }
+
+  if (!operation) {
+    const { data: existing } = await supabase
+      .from('operations')
+      .select('id')
+      .eq('id', operationId)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    throw existing
+      ? new UndoError('This has already been undone', 409)
+      : new UndoError('Operation not found', 404)
+  }
+
+  const inverse = operation.inverse as OperationInverse
+
+  try {
+    const restored = await applyInverse(supabase, inverse)
+
+    return {
+      summary: operation.summary,
+      listId: operation.list_id,
+      deletedIds: inverse.deleteIds,
+      restored,
+    }
+  } catch (error) {
+    // Release the claim so the user can try again
+    await supabase
+      .from('operations')
+      .update({ undone_at: null })
+      .eq('id', operationId)
+    throw error
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { RateLimiter } from './rate-limit'
+
+describe('RateLimiter', () => {
+  it('allows up to the limit within the window', () => {
+    const limiter = new RateLimiter(2, 60_000)
+    expect(limiter.take('user', 0).allowed).toBe(true)
+    expect(limiter.take('user', 1_000).allowed).toBe(true)
+    expect(limiter.take('user', 2_000)).toEqual({ allowed: false, retryAfterMs: 58_000 })
+  })
+
+  it('frees up as hits leave the window', () => {
+    const limiter = new RateLimiter(2, 60_000)
+    limiter.take('user', 0)
+    limiter.take('user', 30_000)
+    expect(limiter.take('user', 59_999).allowed).toBe(false)
+    expect(limiter.take('user', 60_000).allowed).toBe(true)
+  })
+
+  it('counts keys separately', () => {
+    const limiter = new RateLimiter(1, 60_000)
+    expect(limiter.take('a', 0).allowed).toBe(true)
+    expect(limiter.take('b', 0).allowed).toBe(true)
+    expect(limiter.take('a', 0).allowed).toBe(false)
+  })
+})
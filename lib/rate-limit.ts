@@ -0,0 +1,44 @@
+// In-memory sliding-window rate limiting for API routes. Counts are per
+// server instance and reset on restart: enough to stop a runaway client
+// (a shopping-mode microphone picking up the store radio), not a security
+// boundary.
+
+export type RateLimitResult = {
+  allowed: boolean
+  /** Time until the next hit would be allowed; 0 when this one was */
+  retryAfterMs: number
+}
+
+export class RateLimiter {
+  // Key → timestamps of hits inside the window, oldest first
+  private hits = new Map<string, number[]>()
+
+  constructor(
+    private limit: number,
+    private windowMs: number
+  ) {}
+
+  /** Count a hit for key, unless that would go over the limit */
+  take(key: string, now = Date.now()): RateLimitResult {
+    const recent = (this.hits.get(key) ?? []).filter(time => now - time < this.windowMs)
+
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent)
+      return { allowed: false, retryAfterMs: recent[0] + this.windowMs - now }
+    }
+
+    recent.push(now)
+    this.hits.set(key, recent)
+    this.prune(now)
+    return { allowed: true, retryAfterMs: 0 }
+  }
+
+  // Drop keys with no hits left in the window, so idle users don't pile up
+  private prune(now: number) {
+    for (const [key, times] of this.hits) {
+      if (now - times[times.length - 1] >= this.windowMs) {
+        this.hits.delete(key)
+      }
+    }
+  }
+}
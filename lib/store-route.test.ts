@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { learnLayout, readLayout, sectionFor, sortByRoute, visitedSection } from './store-route'
+
+const categories = [
+  { id: 'veg', name: 'Fruit & Veg', aliases: ['Produce'] },
+  { id: 'cold', name: 'Cold Stuff', aliases: [] },
+  { id: 'home', name: 'Garden Center', aliases: [] },
+]
+
+const item = (name: string, category_id: string | null = null) => ({ name, category_id })
+
+describe('sectionFor', () => {
+  const layout = ['Produce', 'Bakery', 'Dairy', 'Frozen Foods']
+
+  it('finds the section for the category or one of its aliases', () => {
+    expect(sectionFor(layout, item('Kale', 'veg'), categories)).toBe('Produce')
+  })
+
+  it('falls back to the department of the item name', () => {
+    expect(sectionFor(layout, item('Milk', 'cold'), categories)).toBe('Dairy')
+    expect(sectionFor(layout, item('Frozen Peas'), categories)).toBe('Frozen Foods')
+    expect(sectionFor(layout, item('Flux Capacitor'), categories)).toBeNull()
+  })
+
+  it('records check-offs outside the layout under the category name', () => {
+    expect(visitedSection(layout, item('Flux Capacitor', 'home'), categories)).toBe('Garden Center')
+    expect(visitedSection(layout, item('Flux Capacitor'), categories)).toBeNull()
+  })
+})
+
+describe('sortByRoute', () => {
+  it('groups items in walking order, unplaced items last', () => {
+    const items = [item('Milk'), item('Flux Capacitor', 'home'), item('Bread'), item('Apples'), item('Yogurt')]
+    const route = sortByRoute(items, categories, ['Produce', 'Bakery', 'Dairy'])
+    expect(route.map(group => [group.section, group.items.map(entry => entry.name)])).toEqual([
+      ['Produce', ['Apples']],
+      ['Bakery', ['Bread']],
+      ['Dairy', ['Milk', 'Yogurt']],
+      [null, ['Flux Capacitor']],
+    ])
+  })
+})
+
+describe('learnLayout', () => {
+  it('swaps neighbours visited the other way round', () => {
+    expect(learnLayout(['Produce', 'Bakery', 'Dairy'], ['Bakery', 'Bakery', 'Produce', 'Dairy', 'Bakery']))
+      .toEqual(['Bakery', 'Produce', 'Dairy'])
+  })
+
+  it('moves a section visited far from its place only part of the way', () => {
+    const layout = ['Produce', 'Bakery', 'Meat', 'Dairy', 'Frozen']
+    expect(learnLayout(layout, ['Frozen', 'Produce', 'Bakery', 'Meat', 'Dairy']))
+      .toEqual(['Produce', 'Bakery', 'Frozen', 'Meat', 'Dairy'])
+  })
+
+  it('leaves unvisited sections in place and adds new ones after the previous visit', () => {
+    expect(learnLayout(['Produce', 'Bakery', 'Dairy'], ['Produce', 'Garden Center', 'dairy']))
+      .toEqual(['Produce', 'Garden Center', 'Bakery', 'Dairy'])
+  })
+})
+
+describe('readLayout', () => {
+  it('trims and drops blanks and repeats', () => {
+    expect(readLayout([' Produce ', '', 'produce', 'Aisle 5'])).toEqual(['Produce', 'Aisle 5'])
+  })
+
+  it('rejects anything but a list of names', () => {
+    expect(readLayout('Produce')).toBeNull()
+    expect(readLayout(['Produce', 5])).toBeNull()
+  })
+})
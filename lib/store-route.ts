@@ -0,0 +1,224 @@
+// Store layouts: the order a store's sections (departments, aisles) are
+// walked in, for sorting a list into a shopping route. An item is shopped
+// in the section named for its category, or failing that the one for its
+// department in the grocery taxonomy. Layouts learn from shopping trips:
+// the order sections get checked off in moves them toward the order
+// they're actually visited.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { departmentFor, findDepartmentCategory, type AliasedCategory } from './grocery-taxonomy'
+import { itemNameKey } from './item-matcher'
+import type { ListItem } from './list-state'
+
+export type Store = {
+  id: string
+  user_id: string
+  name: string
+  /** Section names in walking order */
+  layout: string[]
+}
+
+/** A shopping_trips row: one visit to a store with a list */
+export type ShoppingTrip = {
+  id: string
+  list_id: string
+  store_id: string
+  /** The section of each check-off, in order */
+  check_order: string[]
+  ended_at: string | null
+}
+
+export type RouteSection<T> = {
+  /** null for items no section fits */
+  section: string | null
+  items: T[]
+}
+
+/** Where a new store's layout starts: a typical supermarket walk */
+export const DEFAULT_LAYOUT = [
+  'Produce',
+  'Bakery',
+  'Deli',
+  'Meat',
+  'Seafood',
+  'Dairy',
+  'Breakfast',
+  'Pantry',
+  'Baking',
+  'Spices',
+  'Condiments',
+  'Snacks',
+  'Beverages',
+  'Alcohol',
+  'Frozen',
+  'Household',
+  'Personal Care',
+  'Health',
+  'Baby',
+  'Pet',
+]
+
+export const MAX_LAYOUT_SECTIONS = 100
+
+/** How far one trip moves a section from its place toward where it was visited */
+const LEARNING_RATE = 0.6
+
+/**
+ * Validate a layout from a request: section names, trimmed, without
+ * blanks or repeats. Null if it isn't a list of names.
+ */
+export function readLayout(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every(name => typeof name === 'string')) return null
+
+  const seen = new Set<string>()
+  const layout: string[] = []
+  for (const name of value.map(name => name.trim())) {
+    const key = itemNameKey(name)
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+    layout.push(name)
+  }
+  return layout.length <= MAX_LAYOUT_SECTIONS ? layout : null
+}
+
+/**
+ * The layout section an item is shopped in: the one named for its category
+ * or one of the category's aliases, else the one for its department.
+ */
+export function sectionFor(
+  layout: string[],
+  item: Pick<ListItem, 'name' | 'category_id'>,
+  categories: AliasedCategory[]
+): string | null {
+  const category = categories.find(candidate => candidate.id === item.category_id)
+  if (category) {
+    const keys = new Set([category.name, ...(category.aliases ?? [])].map(itemNameKey))
+    const section = layout.find(name => keys.has(itemNameKey(name)))
+    if (section) return section
+  }
+
+  const department = departmentFor(item.name)
+  if (!department) return null
+  const sections = layout.map(name => ({ id: name, name }))
+  return findDepartmentCategory(sections, department)?.name ?? null
+}
+
+/**
+ * The section to record a check-off under: its layout section, or its
+ * category's name so a trip can teach the layout a section it lacks.
+ */
+export function visitedSection(
+  layout: string[],
+  item: Pick<ListItem, 'name' | 'category_id'>,
+  categories: AliasedCategory[]
+): string | null {
+  return (
+    sectionFor(layout, item, categories) ??
+    categories.find(category => category.id === item.category_id)?.name ??
+    null
+  )
+}
+
+/**
+ * Group items by section in walking order, keeping their order within a
+ * section. Items no section fits come last.
+ */
+export function sortByRoute<T extends Pick<ListItem, 'name' | 'category_id'>>(
+  items: T[],
+  categories: AliasedCategory[],
+  layout: string[]
+): RouteSection<T>[] {
+  const groups = new Map<string | null, T[]>()
+  for (const item of items) {
+    const section = sectionFor(layout, item, categories)
+    const group = groups.get(section)
+    if (group) group.push(item)
+    else groups.set(section, [item])
+  }
+
+  return [...layout, null]
+    .filter(section => groups.has(section))
+    .map(section => ({ section, items: groups.get(section)! }))
+}
+
+/**
+ * Move a layout toward the order a trip visited its sections in. A section
+ * counts as visited at its first check-off. The visited sections are dealt
+ * the layout's own places for them in visit order, and each moves
+ * LEARNING_RATE of the way there, so a one-off detour shifts a section
+ * part-way rather than across the store. Sections new to the layout go
+ * in after the section visited before them.
+ */
+export function learnLayout(layout: string[], checkOrder: string[]): string[] {
+  const places = new Map(layout.map((name, index) => [itemNameKey(name), index]))
+
+  const visits: string[] = []
+  const seen = new Set<string>()
+  for (const name of checkOrder) {
+    const key = itemNameKey(name)
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+    visits.push(name)
+  }
+
+  const known = visits.filter(name => places.has(itemNameKey(name)))
+  const slots = known.map(name => places.get(itemNameKey(name))!).sort((a, b) => a - b)
+  const scores = new Map(places)
+  known.forEach((name, index) => {
+    const key = itemNameKey(name)
+    const place = places.get(key)!
+    scores.set(key, place + LEARNING_RATE * (slots[index] - place))
+  })
+
+  const added: string[] = []
+  let previous = -1
+  for (const name of visits) {
+    const key = itemNameKey(name)
+    if (!places.has(key)) {
+      previous += 0.001
+      scores.set(key, previous)
+      added.push(name)
+    } else {
+      previous = scores.get(key)!
+    }
+  }
+
+  // Stable, so ties keep the layout's order
+  return [...layout, ...added].sort(
+    (a, b) => scores.get(itemNameKey(a))! - scores.get(itemNameKey(b))!
+  )
+}
+
+/**
+ * End trips and teach their stores' layouts what they saw. A trip whose
+ * store was deleted, or that checked nothing off, just ends.
+ */
+export async function finishTrips(supabase: SupabaseClient, trips: ShoppingTrip[]): Promise<void> {
+  if (trips.length === 0) return
+
+  const { error } = await supabase
+    .from('shopping_trips')
+    .update({ ended_at: new Date().toISOString() })
+    .in('id', trips.map(trip => trip.id))
+  if (error) throw new Error(error.message)
+
+  for (const trip of trips) {
+    if (trip.check_order.length === 0) continue
+
+    const { data: store } = await supabase
+      .from('stores')
+      .select('id, layout')
+      .eq('id', trip.store_id)
+      .maybeSingle()
+    if (!store) continue
+
+    const { error: layoutError } = await supabase
+      .from('stores')
+      .update({ layout: learnLayout(store.layout, trip.check_order) })
+      .eq('id', store.id)
+    if (layoutError) {
+      // The trip is over either way; the layout just doesn't learn from it
+      console.error('Failed to update store layout:', layoutError)
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { SPANISH } from './language-packs'
+import type { Category, ListItem } from './list-state'
+import { parseImportText } from './text-import'
+
+const produce: Category = { id: 'cat-produce', name: 'Produce', color: '#22c55e', icon: null }
+const dairy: Category = { id: 'cat-dairy', name: 'Dairy', color: '#3b82f6', icon: null }
+
+const existing: ListItem = {
+  id: 'item-1',
+  name: 'Milk',
+  quantity_value: null,
+  quantity_unit: null,
+  notes: null,
+  is_checked: true,
+  category_id: dairy.id,
+  list_id: 'list-1',
+  position: null,
+}
+
+const list = { categories: [produce, dairy], items: [existing] }
+
+describe('parseImportText', () => {
+  it('strips bullets and checkboxes', () => {
+    const items = parseImportText('- [ ] bread\n* [x] eggs\n• butter\n2) jam\n☑ honey', list)
+    expect(items.map(item => [item.name, item.is_checked])).toEqual([
+      ['Bread', false],
+      ['Eggs', true],
+      ['Butter', false],
+      ['Jam', false],
+      ['Honey', true],
+    ])
+  })
+
+  it('reads "2x" counts and spoken-style amounts', () => {
+    const items = parseImportText('2x eggs\nyogurt x 3\n1.5 lb chicken', list)
+    expect(items).toMatchObject([
+      { name: 'Eggs', quantity_value: 2, quantity_unit: 'count' },
+      { name: 'Yogurt', quantity_value: 3, quantity_unit: 'count' },
+      { name: 'Chicken', quantity_value: 1.5, quantity_unit: 'lb' },
+    ])
+  })
+
+  it('splits comma-separated text and keeps descriptions as notes', () => {
+    const items = parseImportText('apples, bread; milk, the organic kind', list)
+    expect(items).toMatchObject([
+      { name: 'Apples', notes: null },
+      { name: 'Bread', notes: null },
+      { name: 'Milk', notes: 'organic' },
+    ])
+  })
+
+  it('files items under headings, or where they already are on the list', () => {
+    const items = parseImportText('Produce:\nbananas\n\n## Snacks\nchips\nmilk', list)
+    expect(items.map(item => [item.name, item.category_id])).toEqual([
+      ['Bananas', produce.id],
+      ['Chips', null],
+      ['Milk', dairy.id],
+    ])
+  })
+
+  it('parses in the given language', () => {
+    expect(parseImportText('- 2 kilos de manzanas', list, SPANISH)).toMatchObject([
+      { name: 'Manzanas', quantity_value: 2, quantity_unit: 'kg' },
+    ])
+  })
+})
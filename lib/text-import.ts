@@ -0,0 +1,84 @@
+// Paste-to-import: turn a list copied out of a text message or notes app
+// into items. Bullets, checkboxes and "2x" counts are cleaned off line by
+// line, and what's left goes through the voice parser's item parsing, so
+// "1.5 lb chicken" and "milk, the organic kind" read the same as spoken.
+
+import { itemNameKey } from './item-matcher'
+import { ENGLISH, type LanguagePack } from './language-packs'
+import type { Category, ListItem } from './list-state'
+import type { QuantityFields } from './units'
+import { itemQuantityFields, parseItemTexts } from './voice-parser'
+
+export type ImportedItem = QuantityFields & {
+  name: string
+  notes: string | null
+  category_id: string | null
+  /** Ticked in the pasted text: "- [x] eggs" */
+  is_checked: boolean
+}
+
+/** "- ", "* ", "• ", "1. ", "2) " */
+const BULLET = /^(?:[-*+•·–—]|\d+[.)])\s+/
+/** "[ ]", "[x]", "☐", "☑", "✓"; group 1 is set when ticked */
+const CHECKBOX = /^(?:\[\s?\]|☐|(\[[xX✓✔]\]|[☑☒✓✔✅]))\s*/
+/** "Produce:", "## Dairy" */
+const HEADING = /^(?:#+\s*(.+?)|(.+?):)$/
+/** "2x eggs", "2 x eggs" */
+const LEADING_TIMES = /^(\d+(?:\.\d+)?)\s*[x×]\s+/i
+/** "eggs x2", "eggs x 2" */
+const TRAILING_TIMES = /\s+[x×]\s*(\d+(?:\.\d+)?)$/i
+
+/**
+ * Parse pasted text into items, one per line or comma-separated part. A
+ * heading line ("Produce:") files the items under it in the list category
+ * of that name; other items go in the category the same item already has
+ * on the list, if any.
+ */
+export function parseImportText(
+  text: string,
+  list: { categories: Category[]; items: ListItem[] },
+  language: LanguagePack = ENGLISH
+): ImportedItem[] {
+  const categoriesByName = new Map(list.categories.map(category => [category.name.toLowerCase(), category.id]))
+  const placements = new Map(
+    list.items.filter(item => item.category_id).map(item => [itemNameKey(item.name), item.category_id])
+  )
+
+  const imported: ImportedItem[] = []
+  let headingCategory: string | null = null
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine.trim().replace(BULLET, '')
+    const checkbox = line.match(CHECKBOX)
+    if (checkbox) line = line.slice(checkbox[0].length)
+    line = line.trim()
+    if (!line) continue
+
+    const heading = !checkbox && line.match(HEADING)
+    if (heading) {
+      headingCategory = categoriesByName.get((heading[1] ?? heading[2]).trim().toLowerCase()) ?? null
+      continue
+    }
+
+    const parts = line.split(/[,;]/).map(readCount)
+    for (const item of parseItemTexts(parts, language)) {
+      imported.push({
+        name: item.name,
+        ...itemQuantityFields(item),
+        notes: item.notes ?? null,
+        category_id: headingCategory ?? placements.get(itemNameKey(item.name)) ?? null,
+        is_checked: Boolean(checkbox?.[1]),
+      })
+    }
+  }
+
+  return imported
+}
+
+/** Move a "2x" count to the front, where the parser reads amounts */
+function readCount(part: string): string {
+  const text = part.trim()
+  const trailing = text.match(TRAILING_TIMES)
+  if (trailing) return `${trailing[1]} ${text.slice(0, trailing.index)}`
+  return text.replace(LEADING_TIMES, '$1 ')
+}
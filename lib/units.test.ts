@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addQuantities,
+  convertQuantity,
+  formatQuantity,
+  humanizeQuantity,
+  mergeQuantities,
+  normalizeQuantityFields,
+  normalizeUnit,
+  parseQuantity,
+} from './units'
+
+describe('normalizeUnit', () => {
+  it('maps aliases and plurals to one canonical unit', () => {
+    for (const raw of ['lb', 'lbs', 'pound', 'Pounds', 'lb.']) {
+      expect(normalizeUnit(raw)).toBe('lb')
+    }
+  })
+
+  it('handles multi-word units', () => {
+    expect(normalizeUnit('fluid  ounces')).toBe('fl_oz')
+  })
+
+  it('returns null for unknown units', () => {
+    expect(normalizeUnit('smidgen')).toBeNull()
+  })
+})
+
+describe('parseQuantity', () => {
+  it('treats a bare number as a count', () => {
+    expect(parseQuantity('3')).toEqual({ value: 3, unit: 'count' })
+  })
+
+  it('parses decimals and fractions with units', () => {
+    expect(parseQuantity('1.5 lbs')).toEqual({ value: 1.5, unit: 'lb' })
+    expect(parseQuantity('1/2 cup')).toEqual({ value: 0.5, unit: 'cup' })
+    expect(parseQuantity('500g')).toEqual({ value: 500, unit: 'g' })
+  })
+
+  it('rejects text it cannot represent', () => {
+    expect(parseQuantity('a few')).toBeNull()
+    expect(parseQuantity('2 smidgens')).toBeNull()
+    expect(parseQuantity('0')).toBeNull()
+  })
+
+  it('reads mixed numbers and refuses a zero denominator', () => {
+    expect(parseQuantity('1 1/2 cups')).toEqual({ value: 1.5, unit: 'cup' })
+    expect(parseQuantity('3/4')).toEqual({ value: 0.75, unit: 'count' })
+    expect(parseQuantity('.5 l')).toEqual({ value: 0.5, unit: 'l' })
+    expect(parseQuantity('1/0 cup')).toBeNull()
+  })
+
+  it('adds up compound amounts in the first unit', () => {
+    expect(parseQuantity('1 lb 8 oz')).toEqual({ value: 1.5, unit: 'lb' })
+    expect(parseQuantity('2 cups 8 tbsp')).toEqual({ value: 2.5, unit: 'cup' })
+    expect(parseQuantity('1 lb 2 cans')).toBeNull()
+    expect(parseQuantity('2 3')).toBeNull()
+    expect(parseQuantity('2 lb 3')).toBeNull()
+  })
+
+  it('rejects empty input', () => {
+    expect(parseQuantity('')).toBeNull()
+    expect(parseQuantity('   ')).toBeNull()
+  })
+})
+
+describe('normalizeQuantityFields', () => {
+  it('clears the quantity for empty values', () => {
+    for (const value of ['', '  ', null, undefined]) {
+      expect(normalizeQuantityFields(value, 'lb')).toEqual({ quantity_value: null, quantity_unit: null })
+    }
+  })
+
+  it('defaults to a count and normalizes the unit', () => {
+    expect(normalizeQuantityFields(2, undefined)).toEqual({ quantity_value: 2, quantity_unit: 'count' })
+    expect(normalizeQuantityFields('2', 'pounds')).toEqual({ quantity_value: 2, quantity_unit: 'lb' })
+  })
+
+  it('rejects invalid values and units', () => {
+    expect(normalizeQuantityFields(-1, 'lb')).toBeNull()
+    expect(normalizeQuantityFields('abc', 'lb')).toBeNull()
+    expect(normalizeQuantityFields(1, 'smidgen')).toBeNull()
+    expect(normalizeQuantityFields(1, 5)).toBeNull()
+    expect(normalizeQuantityFields(Infinity, 'lb')).toBeNull()
+  })
+})
+
+describe('convertQuantity', () => {
+  it('converts between imperial and metric', () => {
+    expect(convertQuantity({ value: 1, unit: 'kg' }, 'lb')).toEqual({ value: 2.2, unit: 'lb' })
+    expect(convertQuantity({ value: 1, unit: 'gal' }, 'qt')).toEqual({ value: 4, unit: 'qt' })
+  })
+
+  it('converts dozens to counts', () => {
+    expect(convertQuantity({ value: 2, unit: 'dozen' }, 'count')).toEqual({ value: 24, unit: 'count' })
+  })
+
+  it('refuses to convert across dimensions', () => {
+    expect(convertQuantity({ value: 1, unit: 'lb' }, 'cup')).toBeNull()
+    expect(convertQuantity({ value: 1, unit: 'can' }, 'box')).toBeNull()
+  })
+})
+
+describe('humanizeQuantity', () => {
+  it('picks the largest readable unit in the same system', () => {
+    expect(humanizeQuantity({ value: 24, unit: 'oz' })).toEqual({ value: 1.5, unit: 'lb' })
+    expect(humanizeQuantity({ value: 0.5, unit: 'kg' })).toEqual({ value: 500, unit: 'g' })
+  })
+
+  it('leaves counts and packaging alone', () => {
+    expect(humanizeQuantity({ value: 12, unit: 'count' })).toEqual({ value: 12, unit: 'count' })
+    expect(humanizeQuantity({ value: 3, unit: 'can' })).toEqual({ value: 3, unit: 'can' })
+  })
+})
+
+describe('addQuantities', () => {
+  it('sums compatible quantities in the first unit', () => {
+    expect(addQuantities({ value: 1, unit: 'lb' }, { value: 8, unit: 'oz' })).toEqual({ value: 1.5, unit: 'lb' })
+  })
+
+  it('returns null for incompatible units', () => {
+    expect(addQuantities({ value: 2, unit: 'can' }, { value: 1, unit: 'lb' })).toBeNull()
+  })
+})
+
+describe('mergeQuantities', () => {
+  it('counts a missing quantity as one', () => {
+    expect(mergeQuantities(null, null)).toEqual({ value: 2, unit: 'count' })
+    expect(mergeQuantities({ value: 3, unit: 'count' }, null)).toEqual({ value: 4, unit: 'count' })
+  })
+
+  it('keeps the measured amount when the other side has none', () => {
+    expect(mergeQuantities(null, { value: 2, unit: 'gal' })).toEqual({ value: 2, unit: 'gal' })
+    expect(mergeQuantities({ value: 1, unit: 'lb' }, null)).toEqual({ value: 1, unit: 'lb' })
+  })
+
+  it('sums compatible units and rejects the rest', () => {
+    expect(mergeQuantities({ value: 1, unit: 'dozen' }, { value: 6, unit: 'count' })).toEqual({ value: 1.5, unit: 'dozen' })
+    expect(mergeQuantities({ value: 2, unit: 'can' }, { value: 1, unit: 'bag' })).toBeNull()
+  })
+})
+
+describe('formatQuantity', () => {
+  it('formats counts as bare numbers', () => {
+    expect(formatQuantity(3, 'count')).toBe('3')
+  })
+
+  it('pluralizes packaging but not abbreviations', () => {
+    expect(formatQuantity(2, 'can')).toBe('2 cans')
+    expect(formatQuantity(1, 'box')).toBe('1 box')
+    expect(formatQuantity(1.5, 'lb')).toBe('1.5 lb')
+  })
+
+  it('returns null without a value', () => {
+    expect(formatQuantity(null, null)).toBeNull()
+  })
+})
@@ -0,0 +1,272 @@
+// Canonical unit registry for grocery quantities. list_items stores a
+// numeric quantity_value plus a normalized quantity_unit; everything that
+// reads or writes quantities (voice parser, item forms, merging) goes
+// through these helpers so the same unit never shows up in three spellings.
+
+// Must match the list_items_quantity_unit_check constraint
+// (supabase/migrations/00007_structured_quantities.sql)
+export const QUANTITY_UNITS = [
+  'count',
+  'lb', 'oz', 'g', 'kg',
+  'gal', 'qt', 'pt', 'cup', 'fl_oz', 'l', 'ml', 'tbsp', 'tsp',
+  'can', 'box', 'bag', 'bottle', 'jar', 'pack', 'bunch', 'dozen',
+] as const
+
+export type QuantityUnit = (typeof QUANTITY_UNITS)[number]
+
+export type Quantity = {
+  value: number
+  unit: QuantityUnit
+}
+
+/** Column shape shared by list_items rows and the /api/items payloads. */
+export type QuantityFields = {
+  quantity_value: number | null
+  quantity_unit: QuantityUnit | null
+}
+
+/**
+ * Units only convert within a dimension. Packaging units (can, box, ...)
+ * each get their own dimension: two cans plus a box is not three of anything.
+ */
+export type UnitDimension =
+  | 'count'
+  | 'mass'
+  | 'volume'
+  | `package:${string}`
+
+type UnitDefinition = {
+  dimension: UnitDimension
+  system?: 'metric' | 'imperial'
+  /** Size in the dimension's base unit (each, grams, milliliters) */
+  toBase: number
+  singular: string
+  plural: string
+  aliases: string[]
+}
+
+export const UNITS: Record<QuantityUnit, UnitDefinition> = {
+  count: { dimension: 'count', toBase: 1, singular: '', plural: '', aliases: ['ct', 'x', 'each', 'ea', 'item', 'items', 'pc', 'pcs', 'piece', 'pieces'] },
+  dozen: { dimension: 'count', toBase: 12, singular: 'dozen', plural: 'dozen', aliases: ['doz', 'dozens'] },
+
+  oz: { dimension: 'mass', system: 'imperial', toBase: 28.349523125, singular: 'oz', plural: 'oz', aliases: ['ounce', 'ounces'] },
+  lb: { dimension: 'mass', system: 'imperial', toBase: 453.59237, singular: 'lb', plural: 'lb', aliases: ['lbs', 'pound', 'pounds'] },
+  g: { dimension: 'mass', system: 'metric', toBase: 1, singular: 'g', plural: 'g', aliases: ['gram', 'grams', 'gramme', 'grammes'] },
+  kg: { dimension: 'mass', system: 'metric', toBase: 1000, singular: 'kg', plural: 'kg', aliases: ['kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'] },
+
+  tsp: { dimension: 'volume', system: 'imperial', toBase: 4.92892159375, singular: 'tsp', plural: 'tsp', aliases: ['teaspoon', 'teaspoons'] },
+  tbsp: { dimension: 'volume', system: 'imperial', toBase: 14.78676478125, singular: 'tbsp', plural: 'tbsp', aliases: ['tablespoon', 'tablespoons'] },
+  fl_oz: { dimension: 'volume', system: 'imperial', toBase: 29.5735295625, singular: 'fl oz', plural: 'fl oz', aliases: ['fl oz', 'fluid ounce', 'fluid ounces'] },
+  cup: { dimension: 'volume', system: 'imperial', toBase: 236.5882365, singular: 'cup', plural: 'cups', aliases: [] },
+  pt: { dimension: 'volume', system: 'imperial', toBase: 473.176473, singular: 'pt', plural: 'pt', aliases: ['pint', 'pints'] },
+  qt: { dimension: 'volume', system: 'imperial', toBase: 946.352946, singular: 'qt', plural: 'qt', aliases: ['quart', 'quarts'] },
+  gal: { dimension: 'volume', system: 'imperial', toBase: 3785.411784, singular: 'gal', plural: 'gal', aliases: ['gallon', 'gallons'] },
+  ml: { dimension: 'volume', system: 'metric', toBase: 1, singular: 'ml', plural: 'ml', aliases: ['milliliter', 'milliliters', 'millilitre', 'millilitres'] },
+  l: { dimension: 'volume', system: 'metric', toBase: 1000, singular: 'l', plural: 'l', aliases: ['liter', 'liters', 'litre', 'litres'] },
+
+  can: { dimension: 'package:can', toBase: 1, singular: 'can', plural: 'cans', aliases: ['tin', 'tins'] },
+  box: { dimension: 'package:box', toBase: 1, singular: 'box', plural: 'boxes', aliases: ['carton', 'cartons'] },
+  bag: { dimension: 'package:bag', toBase: 1, singular: 'bag', plural: 'bags', aliases: [] },
+  bottle: { dimension: 'package:bottle', toBase: 1, singular: 'bottle', plural: 'bottles', aliases: [] },
+  jar: { dimension: 'package:jar', toBase: 1, singular: 'jar', plural: 'jars', aliases: [] },
+  pack: { dimension: 'package:pack', toBase: 1, singular: 'pack', plural: 'packs', aliases: ['package', 'packages', 'packet', 'packets'] },
+  bunch: { dimension: 'package:bunch', toBase: 1, singular: 'bunch', plural: 'bunches', aliases: [] },
+}
+
+const UNIT_ALIASES: Record<string, QuantityUnit> = Object.fromEntries(
+  QUANTITY_UNITS.flatMap((unit) => {
+    const { singular, plural, aliases } = UNITS[unit]
+    return [unit, singular, plural, ...aliases]
+      .filter(Boolean)
+      .map((alias) => [alias, unit] as const)
+  })
+)
+
+/**
+ * Every spelling we recognize, longest first so regex alternations built
+ * from it prefer "fluid ounces" over "ounces".
+ */
+export const UNIT_WORDS: string[] = Object.keys(UNIT_ALIASES)
+  .filter((alias) => alias !== 'x')
+  .sort((a, b) => b.length - a.length)
+
+/**
+ * Map a spoken or typed unit ("lbs", "Pounds", "oz.") to its canonical
+ * form. Returns null for anything we don't recognize.
+ */
+export function normalizeUnit(raw: string): QuantityUnit | null {
+  const key = raw.trim().toLowerCase().replace(/\.$/, '').replace(/\s+/g, ' ')
+  return UNIT_ALIASES[key] ?? null
+}
+
+/**
+ * Parse a free-text quantity like "2", "1.5 lbs", "3 cans", "1/2 cup" or
+ * "1 1/2 cups". A bare number is a plain count. Amounts in several units
+ * of one kind add up, in the first unit: "1 lb 8 oz" is 1.5 lb. Returns
+ * null when the text isn't a quantity we can represent.
+ */
+export function parseQuantity(text: string): Quantity | null {
+  const source = text.trim().toLowerCase()
+  if (!source) return null
+
+  // One amount and its unit; the unit runs up to the next amount
+  const amount = /\s*(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?|\.\d+)\s*([a-z_. ]*)/y
+  const parts: Quantity[] = []
+  while (amount.lastIndex < source.length) {
+    const match = amount.exec(source)
+    if (!match) return null
+
+    const [, number, rawUnit] = match
+    const value = readAmount(number)
+    if (!(value > 0)) return null
+
+    // Only a lone amount can leave out its unit: "2 3" is no quantity
+    if (!rawUnit.trim() && (parts.length > 0 || amount.lastIndex < source.length)) return null
+
+    const unit = rawUnit.trim() ? normalizeUnit(rawUnit) : 'count'
+    if (!unit) return null
+    parts.push({ value, unit })
+  }
+
+  return parts.slice(1).reduce<Quantity | null>((total, part) => total && addQuantities(total, part), parts[0])
+}
+
+/** "2", "1.5", "1/2" or "1 1/2"; NaN when the denominator is zero */
+function readAmount(number: string): number {
+  const [whole, fraction] = number.split(/\s+/)
+  if (fraction !== undefined) return Number(whole) + readFraction(fraction)
+  return whole.includes('/') ? readFraction(whole) : Number(whole)
+}
+
+function readFraction(text: string): number {
+  const [numerator, denominator] = text.split('/').map(Number)
+  return denominator === 0 ? NaN : numerator / denominator
+}
+
+/**
+ * Validate quantity fields from a request body. A missing or empty value
+ * clears the quantity; a value without a unit is a plain count. Returns
+ * null when the fields can't be stored.
+ */
+export function normalizeQuantityFields(
+  value: unknown,
+  unit: unknown
+): QuantityFields | null {
+  if (value === null || value === undefined || (typeof value === 'string' && !value.trim())) {
+    return { quantity_value: null, quantity_unit: null }
+  }
+
+  const numeric = typeof value === 'string' ? Number(value) : value
+  if (typeof numeric !== 'number' || !Number.isFinite(numeric) || numeric <= 0) {
+    return null
+  }
+
+  const normalizedUnit =
+    unit === null || unit === undefined || unit === ''
+      ? 'count'
+      : typeof unit === 'string'
+        ? normalizeUnit(unit)
+        : null
+  if (!normalizedUnit) return null
+
+  return { quantity_value: numeric, quantity_unit: normalizedUnit }
+}
+
+export function areUnitsCompatible(a: QuantityUnit, b: QuantityUnit): boolean {
+  return UNITS[a].dimension === UNITS[b].dimension
+}
+
+/**
+ * Convert a quantity to another unit of the same dimension
+ * (lb → oz, l → cup). Returns null across dimensions.
+ */
+export function convertQuantity(quantity: Quantity, to: QuantityUnit): Quantity | null {
+  if (!areUnitsCompatible(quantity.unit, to)) return null
+  if (quantity.unit === to) return quantity
+  const value = (quantity.value * UNITS[quantity.unit].toBase) / UNITS[to].toBase
+  return { value: roundQuantity(value), unit: to }
+}
+
+// Display ladders, smallest first. Counts stay in "each" rather than
+// turning 12 eggs into "1 dozen".
+const DISPLAY_LADDERS: Record<string, QuantityUnit[]> = {
+  'mass:imperial': ['oz', 'lb'],
+  'mass:metric': ['g', 'kg'],
+  'volume:imperial': ['tsp', 'tbsp', 'cup', 'qt', 'gal'],
+  'volume:metric': ['ml', 'l'],
+}
+
+/**
+ * Re-express a quantity in the most readable unit of the same measurement
+ * system: 24 oz → 1.5 lb, 0.5 kg → 500 g. Packaging and counts are left
+ * alone.
+ */
+export function humanizeQuantity(quantity: Quantity): Quantity {
+  const { dimension, system } = UNITS[quantity.unit]
+  const ladder = system ? DISPLAY_LADDERS[`${dimension}:${system}`] : undefined
+  if (!ladder || !ladder.includes(quantity.unit)) return quantity
+
+  // Largest unit that still gives at least 1
+  const base = quantity.value * UNITS[quantity.unit].toBase
+  const best =
+    [...ladder].reverse().find((unit) => base / UNITS[unit].toBase >= 1) ?? ladder[0]
+  return convertQuantity(quantity, best) ?? quantity
+}
+
+/**
+ * Sum two quantities of compatible units, expressed in the first one's
+ * unit. Returns null when they can't be combined (2 cans + 1 lb).
+ */
+export function addQuantities(a: Quantity, b: Quantity): Quantity | null {
+  const converted = convertQuantity(b, a.unit)
+  if (!converted) return null
+  return { value: roundQuantity(a.value + converted.value), unit: a.unit }
+}
+
+/**
+ * Combine the quantity of an item already on the list with one being added
+ * again. A missing quantity counts as one of the item, except next to a
+ * measured amount (milk + 2 gal is still 2 gal). Returns null when the two
+ * can't be combined, so the caller can keep them as separate items.
+ */
+export function mergeQuantities(
+  existing: Quantity | null,
+  incoming: Quantity | null
+): Quantity | null {
+  if (!existing && incoming && UNITS[incoming.unit].dimension !== 'count') return incoming
+  if (!incoming && existing && UNITS[existing.unit].dimension !== 'count') return existing
+  return addQuantities(
+    existing ?? { value: 1, unit: 'count' },
+    incoming ?? { value: 1, unit: 'count' }
+  )
+}
+
+/** Read the quantity columns of a row, or null when it has none. */
+export function toQuantity(fields: QuantityFields): Quantity | null {
+  if (fields.quantity_value === null || fields.quantity_unit === null) return null
+  return { value: Number(fields.quantity_value), unit: fields.quantity_unit }
+}
+
+/** Short label for a unit, as shown in unit pickers. */
+export function unitLabel(unit: QuantityUnit): string {
+  return unit === 'count' ? 'count' : UNITS[unit].singular
+}
+
+/** Display text for a stored quantity: "3", "1.5 lb", "2 cans". */
+export function formatQuantity(
+  value: number | null,
+  unit: QuantityUnit | null
+): string | null {
+  if (value === null) return null
+
+  const number = String(roundQuantity(value))
+  if (!unit || unit === 'count') return number
+
+  const { singular, plural } = UNITS[unit]
+  return `${number} ${value === 1 ? singular : plural}`
+}
+
+/** Two decimals: enough for "0.33 cup" without float noise */
+export function roundQuantity(value: number): number {
+  return Math.round(value * 100) / 100
+}
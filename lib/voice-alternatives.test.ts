@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { pickBestAlternative, readAlternatives, scoreParse, type KnownItem } from './voice-alternatives'
+import { parseVoiceCommand } from './voice-parser'
+
+const known: KnownItem[] = [
+  { name: 'Bread', listId: 'list-1', listName: 'Groceries' },
+  { name: 'Milk', listId: 'list-1', listName: 'Groceries' },
+  { name: 'Paper Towels', listId: 'list-2', listName: 'Costco' },
+]
+
+function alternatives(...guesses: [string, number][]) {
+  return guesses.map(([transcript, confidence]) => ({
+    transcript,
+    confidence,
+    commands: parseVoiceCommand(transcript),
+  }))
+}
+
+describe('pickBestAlternative', () => {
+  it('prefers the guess that names an item on the list', () => {
+    const guesses = alternatives(['check off bred', 0.9], ['check off bread', 0.6])
+    expect(pickBestAlternative(guesses, known)).toBe(1)
+  })
+
+  it('prefers items from the user history for adds', () => {
+    const guesses = alternatives(['add silk', 0.8], ['add milk', 0])
+    expect(pickBestAlternative(guesses, known)).toBe(1)
+  })
+
+  it('falls back to confidence, then recognizer order', () => {
+    expect(pickBestAlternative(alternatives(['add kale', 0.4], ['add cale', 0.7]), known)).toBe(1)
+    expect(pickBestAlternative(alternatives(['add kale', 0], ['add cale', 0]), known)).toBe(0)
+  })
+
+  it('only counts items on the target list', () => {
+    const guesses = alternatives(['remove paper towels', 0.5], ['remove bread', 0.5])
+    expect(pickBestAlternative(guesses, known, 'list-1')).toBe(1)
+    expect(pickBestAlternative(guesses, known, 'list-2')).toBe(0)
+  })
+})
+
+describe('scoreParse', () => {
+  it('penalizes acting on items that are not there', () => {
+    expect(scoreParse(parseVoiceCommand('check off bread'), known)).toBe(1)
+    expect(scoreParse(parseVoiceCommand('check off caviar'), known)).toBe(-1)
+    expect(scoreParse(parseVoiceCommand('add caviar'), known)).toBe(0)
+  })
+})
+
+describe('readAlternatives', () => {
+  it('keeps valid alternatives', () => {
+    expect(
+      readAlternatives({
+        transcript: 'add milk',
+        alternatives: [{ transcript: 'add milk', confidence: 0.9 }, { transcript: '' }, { transcript: 'add silk' }],
+      })
+    ).toEqual([
+      { transcript: 'add milk', confidence: 0.9 },
+      { transcript: 'add silk', confidence: 0 },
+    ])
+  })
+
+  it('falls back to the transcript', () => {
+    expect(readAlternatives({ transcript: 'add milk', alternatives: 'nope' })).toEqual([
+      { transcript: 'add milk', confidence: 0 },
+    ])
+    expect(readAlternatives({})).toEqual([])
+  })
+})
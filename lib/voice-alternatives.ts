@@ -0,0 +1,133 @@
+// Choosing between speech recognition alternatives. The browser returns
+// several guesses for one utterance ("check off bread", "check off bred");
+// each is parsed and scored by how well its item names fit what the user
+// actually has: the target list's items for commands on existing items,
+// their item history for adds. The recognizer's confidence only breaks
+// near-ties, since browsers often report 0 for every guess but the first.
+// Pure functions; the caller loads the known items.
+
+import { rankItemMatches } from './item-matcher'
+import { ENGLISH, type LanguagePack } from './language-packs'
+import type { ParsedCommand } from './voice-parser'
+
+/** One recognition guess, as sent by VoiceInput */
+export type TranscriptAlternative = {
+  transcript: string
+  /** 0-1, when the browser reports one */
+  confidence: number
+}
+
+/** An item name the user has used, with the list it's on */
+export type KnownItem = {
+  name: string
+  listId: string
+  listName: string
+}
+
+export type ParsedAlternative = TranscriptAlternative & {
+  commands: ParsedCommand[]
+}
+
+/** More guesses rarely help and each one costs a parse */
+export const MAX_ALTERNATIVES = 5
+
+// How much the recognizer's own confidence counts next to the item fit
+const CONFIDENCE_WEIGHT = 0.25
+
+// Score for a name that must exist but matches nothing: the command would fail
+const MISSING_ITEM_SCORE = -1
+
+/**
+ * Read the alternatives from a voice request body. Falls back to the single
+ * transcript when the client sent no usable alternatives.
+ */
+export function readAlternatives(body: { transcript?: unknown; alternatives?: unknown }): TranscriptAlternative[] {
+  const alternatives = Array.isArray(body.alternatives)
+    ? body.alternatives
+        .filter(
+          (alternative): alternative is { transcript: string; confidence?: unknown } =>
+            typeof alternative?.transcript === 'string' && alternative.transcript.trim() !== ''
+        )
+        .map(alternative => ({
+          transcript: alternative.transcript,
+          confidence: typeof alternative.confidence === 'number' ? alternative.confidence : 0,
+        }))
+        .slice(0, MAX_ALTERNATIVES)
+    : []
+
+  if (alternatives.length > 0) return alternatives
+  return typeof body.transcript === 'string' && body.transcript.trim() !== ''
+    ? [{ transcript: body.transcript, confidence: 0 }]
+    : []
+}
+
+/**
+ * How plausible a parse is given the user's items, roughly -1 to 1.
+ * Commands on existing items score by their best match on the target list;
+ * adds and "is X on my list" by their best match in the item history, with
+ * unknown names scoring 0 since new items are normal.
+ */
+export function scoreParse(
+  commands: ParsedCommand[],
+  known: KnownItem[],
+  listId?: string,
+  language: LanguagePack = ENGLISH
+): number {
+  if (commands.length === 0) return MISSING_ITEM_SCORE
+
+  const scores = commands.map(command => {
+    const names = command.items.filter(item => !item.previous && item.name)
+    // Nothing to check ("what's left", "make that three")
+    if (names.length === 0) return 0
+
+    const needsExisting = command.action !== 'add' && command.action !== 'query'
+    const candidates = needsExisting ? known.filter(item => isOnTargetList(item, command, listId)) : known
+
+    const itemScores = names.map(item => {
+      const [best] = rankItemMatches(item.name, candidates, language)
+      if (best) return best.score
+      return needsExisting ? MISSING_ITEM_SCORE : 0
+    })
+    return average(itemScores)
+  })
+
+  return average(scores)
+}
+
+/**
+ * Index of the most plausible alternative. Ties go to the earlier one,
+ * which the recognizer ranked higher.
+ */
+export function pickBestAlternative(
+  alternatives: ParsedAlternative[],
+  known: KnownItem[],
+  listId?: string,
+  language: LanguagePack = ENGLISH
+): number {
+  let bestIndex = 0
+  let bestScore = -Infinity
+
+  alternatives.forEach((alternative, index) => {
+    const score = scoreParse(alternative.commands, known, listId, language) + CONFIDENCE_WEIGHT * alternative.confidence
+    if (score > bestScore) {
+      bestScore = score
+      bestIndex = index
+    }
+  })
+
+  return bestIndex
+}
+
+/**
+ * Whether an item is on the list the command will act on. Without a
+ * dashboard list or a spoken one, any of the user's lists counts.
+ */
+function isOnTargetList(item: KnownItem, command: ParsedCommand, listId?: string): boolean {
+  if (listId) return item.listId === listId
+  if (command.targetList) return item.listName.toLowerCase().includes(command.targetList)
+  return true
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { SPANISH } from './language-packs'
+import { describeVoicePlan, type VoicePlan } from './voice-commands'
+
+const list = { id: 'list-1', name: 'Costco' }
+
+describe('describeVoicePlan', () => {
+  it('lists additions with their quantities', () => {
+    const plan: VoicePlan = {
+      action: 'add',
+      list,
+      additions: [
+        { name: 'Chicken', quantity_value: 2, quantity_unit: 'lb' },
+        { name: 'Milk', quantity_value: null, quantity_unit: null },
+      ],
+      targets: [],
+    }
+    expect(describeVoicePlan(plan)).toBe('Add 2 lb Chicken, 1 Milk to "Costco"')
+  })
+
+  it('names the matched items for other actions', () => {
+    const targets = [
+      { id: 'a', name: 'Eggs', is_checked: false, updated_at: '2026-01-01T00:00:00Z' },
+      { id: 'b', name: 'Bread', is_checked: false, updated_at: '2026-01-01T00:00:00Z' },
+    ]
+    expect(describeVoicePlan({ action: 'complete', list, additions: [], targets })).toBe(
+      'Check off Eggs, Bread on "Costco"'
+    )
+    expect(describeVoicePlan({ action: 'remove', list, additions: [], targets })).toBe(
+      'Remove Eggs, Bread from "Costco"'
+    )
+  })
+
+  it('describes edits with the new values', () => {
+    const targets = [{ id: 'a', name: 'Milk', is_checked: false, updated_at: '2026-01-01T00:00:00Z' }]
+    expect(
+      describeVoicePlan({
+        action: 'set_quantity',
+        list,
+        additions: [],
+        targets,
+        edit: { quantity_value: 2, quantity_unit: 'gal' },
+      })
+    ).toBe('Change Milk to 2 gal on "Costco"')
+    expect(
+      describeVoicePlan({ action: 'add_note', list, additions: [], targets, edit: { notes: 'oat' } })
+    ).toBe('Add note "oat" to Milk on "Costco"')
+  })
+
+  it("describes plans in the user's language", () => {
+    const targets = [{ id: 'a', name: 'Leche', is_checked: false, updated_at: '2026-01-01T00:00:00Z' }]
+    expect(describeVoicePlan({ action: 'complete', list, additions: [], targets }, SPANISH)).toBe(
+      'Marcar Leche en "Costco"'
+    )
+    expect(
+      describeVoicePlan(
+        { action: 'set_quantity', list, additions: [], targets, edit: { quantity_value: 2, quantity_unit: 'l' } },
+        SPANISH
+      )
+    ).toBe('Cambiar Leche a 2 l en "Costco"')
+  })
+})
@@ -0,0 +1,1102 @@
+// Server-side execution of parsed voice commands, split in two steps:
+//
+// 1. planVoiceCommand resolves the target list and the list items the
+//    command refers to, without writing anything. When a choice is
+//    ambiguous it throws ClarificationNeeded instead of guessing.
+// 2. writeVoicePlan performs the writes and returns their inverse.
+//
+// An utterance can hold several commands ("add milk and check off bread").
+// runVoiceRequest plans and writes them one after another, rolls back
+// everything on failure and records a single undoable operation.
+//
+// Questions ("what's left on the costco list") skip both steps:
+// answerVoiceQuery only reads and returns a sentence to speak.
+//
+// A clarification carries a short-lived encrypted token holding the parsed
+// commands plus the choices made so far; the route re-runs them with the
+// user's answer once it comes back. A preview hands out a similar token
+// holding the plans themselves, so confirming applies exactly what was shown,
+// and only once.
+
+import { randomUUID } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { decryptObject, encryptObject } from './crypto'
+import { findItemMatch, itemNameKey } from './item-matcher'
+import { ENGLISH, getLanguagePack, type LanguagePack, type ReplyTense } from './language-packs'
+import {
+  addOrMergeItems,
+  applyItemBatch,
+  assignCategories,
+  batchInverse,
+  loadCategoryPlacements,
+  transferItems,
+  type BatchOperation,
+  type NewItem,
+} from './list-items'
+import type { ListItem } from './list-state'
+import {
+  applyInverse,
+  combineInverses,
+  recordOperation,
+  type ItemRecord,
+  type OperationInverse,
+} from './operations'
+import { RateLimiter, type RateLimitResult } from './rate-limit'
+import { formatQuantity, normalizeQuantityFields } from './units'
+import { pickBestAlternative, readAlternatives, type KnownItem } from './voice-alternatives'
+import { itemQuantityFields, parseChoice, parseVoiceCommand, type ParsedCommand } from './voice-parser'
+
+export type VoiceContext = {
+  supabase: SupabaseClient
+  userId: string
+  /** The user's voice language, for parsing transcripts and spoken answers */
+  language: LanguagePack
+}
+
+type TargetList = { id: string; name: string }
+
+type TargetCategory = { id: string; name: string }
+
+type ListItemRow = { id: string; name: string; is_checked: boolean; updated_at: string }
+
+/** Fields an edit command changes, as accepted by PATCH /api/items */
+export type ItemEdit = Partial<Pick<ListItem, 'name' | 'quantity_value' | 'quantity_unit' | 'notes'>>
+
+export type VoicePlan = {
+  action: ParsedCommand['action']
+  list: TargetList
+  /** Items to insert or merge (add) */
+  additions: NewItem[]
+  /** Spoken category the additions go in (add) */
+  category?: TargetCategory
+  /** Existing items the command acts on (everything but add) */
+  targets: ListItemRow[]
+  /** List the targets go to (move) */
+  destination?: TargetList
+  /** The change to make (set_quantity, rename, add_note); notes are appended */
+  edit?: ItemEdit
+}
+
+/** Planning options: the dashboard's list and earlier clarification answers */
+export type PlanOptions = { listId?: string; resolutions?: Resolutions }
+
+/** Choices made in earlier clarification rounds */
+export type Resolutions = {
+  listId?: string
+  /** List a move goes to */
+  destinationListId?: string
+  categoryId?: string
+  /** Spoken item name → chosen list item id */
+  items?: Record<string, string>
+}
+
+export type ClarificationOption = {
+  id: string
+  label: string
+}
+
+type PendingChoice = { kind: 'list' | 'destination' } | { kind: 'category' } | { kind: 'item'; query: string }
+
+/** A problem with the command itself, worth showing to the user as-is */
+export class VoiceCommandError extends Error {}
+
+/**
+ * Raised while planning when the command could refer to several lists or
+ * items. The route turns it into a needsClarification response.
+ */
+export class ClarificationNeeded extends Error {
+  constructor(
+    public question: string,
+    public options: ClarificationOption[],
+    public pending: PendingChoice
+  ) {
+    super(question)
+  }
+
+  /** Which command of the utterance asked; set by runVoiceRequest */
+  commandIndex = 0
+}
+
+const MAX_OPTIONS = 5
+
+// Rows of item history read when choosing between recognition alternatives
+const KNOWN_ITEMS_LIMIT = 500
+
+// Voice requests per user per minute, across the voice routes. Hands-free
+// shopping mode keeps the microphone open, so this stops a stuck loop from
+// flooding the list.
+const VOICE_COMMANDS_PER_MINUTE = 30
+const voiceLimiter = new RateLimiter(VOICE_COMMANDS_PER_MINUTE, 60 * 1000)
+
+/** Count a voice request against the user's per-minute cap */
+export function takeVoiceCommand(userId: string): RateLimitResult {
+  return voiceLimiter.take(userId)
+}
+
+/** The voice language pack the user picked in their profile */
+export async function loadLanguagePack(supabase: SupabaseClient, userId: string): Promise<LanguagePack> {
+  const { data } = await supabase
+    .from('profiles')
+    .select('voice_language')
+    .eq('id', userId)
+    .single()
+
+  return getLanguagePack(data?.voice_language)
+}
+
+/**
+ * A parsed utterance on its way through the pipeline: its commands in
+ * spoken order, plus the choices made for each in clarification rounds
+ */
+export type VoiceRequest = {
+  commands: ParsedCommand[]
+  /** The recognition alternative the commands were parsed from, cleaned up */
+  transcript?: string
+  /** That alternative exactly as the browser heard it */
+  rawTranscript?: string
+  /** The dashboard's list, when the command came from one */
+  listId?: string
+  /** One entry per command */
+  resolutions: Resolutions[]
+}
+
+/**
+ * Turn a voice request body into commands to run: either a new
+ * { transcript, alternatives?, listId? } or { token, choice | choiceText }
+ * answering a needsClarification response. With several recognition
+ * alternatives, the one that best fits the user's items wins.
+ */
+export async function readVoiceRequest(
+  ctx: VoiceContext,
+  body: {
+    transcript?: string
+    alternatives?: unknown
+    listId?: string
+    token?: string
+    choice?: unknown
+    choiceText?: unknown
+  }
+): Promise<VoiceRequest> {
+  if (body.token) {
+    // Answer to an earlier clarification: restore the commands and the
+    // choices made so far
+    return resumeClarification(ctx, body.token, {
+      index: typeof body.choice === 'number' ? body.choice : undefined,
+      text: typeof body.choiceText === 'string' ? body.choiceText : undefined,
+    })
+  }
+
+  const alternatives = readAlternatives(body)
+  if (alternatives.length === 0) {
+    throw new VoiceCommandError('No transcript provided')
+  }
+
+  // Clean transcripts - remove trailing punctuation from speech recognition
+  // - and parse each guess
+  const parsed = alternatives.map(alternative => {
+    const transcript = alternative.transcript.trim().replace(/[.,!?;:]+$/, '')
+    return {
+      ...alternative,
+      transcript,
+      rawTranscript: alternative.transcript,
+      commands: parseVoiceCommand(transcript, ctx.language),
+    }
+  })
+  const listId = body.listId || undefined
+
+  const best =
+    parsed.length > 1 ? parsed[pickBestAlternative(parsed, await loadKnownItems(ctx), listId, ctx.language)] : parsed[0]
+
+  return {
+    commands: best.commands,
+    transcript: best.transcript,
+    rawTranscript: best.rawTranscript,
+    listId,
+    resolutions: best.commands.map(() => ({})),
+  }
+}
+
+/**
+ * Item names on the user's lists, recently touched first, for scoring
+ * recognition alternatives. Checked items count too: they're the history.
+ */
+async function loadKnownItems(ctx: VoiceContext): Promise<KnownItem[]> {
+  const { data, error } = await ctx.supabase
+    .from('list_items')
+    .select('name, list_id, grocery_lists!inner (name)')
+    .order('updated_at', { ascending: false })
+    .limit(KNOWN_ITEMS_LIMIT)
+
+  if (error) {
+    // Scoring is a nicety; fall back to the recognizer's order
+    console.error('Failed to load item history:', error)
+    return []
+  }
+
+  return (data || []).map(row => ({
+    name: row.name,
+    listId: row.list_id,
+    listName: (row.grocery_lists as unknown as { name: string }).name,
+  }))
+}
+
+/**
+ * Resolve everything the command touches. Pure reads: safe to call for
+ * previews.
+ */
+export async function planVoiceCommand(
+  ctx: VoiceContext,
+  command: ParsedCommand,
+  options: PlanOptions = {}
+): Promise<VoicePlan> {
+  const resolutions = options.resolutions ?? {}
+  const list = await resolveTargetList(ctx, command, options.listId ?? resolutions.listId)
+
+  const plan: VoicePlan = { action: command.action, list, additions: [], targets: [] }
+
+  switch (command.action) {
+    case 'add': {
+      if (command.targetCategory) {
+        const category = await matchCategory(ctx, list.id, command.targetCategory, resolutions)
+        if (category) {
+          plan.category = category
+        } else if (!command.targetList) {
+          // "add milk to costco": a list named without the word "list"
+          plan.list = await resolveTargetList(
+            ctx,
+            { ...command, targetList: command.targetCategory },
+            resolutions.listId
+          ).catch(error => {
+            if (error instanceof VoiceCommandError) {
+              throw new VoiceCommandError(`No category or list called "${command.targetCategory}"`)
+            }
+            throw error
+          })
+        } else {
+          throw new VoiceCommandError(`No category called "${command.targetCategory}" on "${list.name}"`)
+        }
+      }
+
+      // Without a spoken category, items go where they went on this list
+      // before, or failing that where the grocery taxonomy puts them
+      const placements = plan.category ? null : await loadCategoryPlacements(ctx.supabase, plan.list.id)
+      plan.additions = await assignCategories(
+        ctx.supabase,
+        plan.list.id,
+        command.items.map(item => ({
+          name: item.name,
+          ...itemQuantityFields(item),
+          notes: item.notes ?? null,
+          category_id: plan.category?.id ?? placements?.get(itemNameKey(item.name)),
+        }))
+      )
+      break
+    }
+
+    case 'complete':
+    case 'uncomplete': {
+      const checked = command.action === 'complete'
+      // Only consider items that would actually change
+      plan.targets = await matchListItems(ctx, list.id, command, resolutions, row => row.is_checked !== checked)
+      break
+    }
+
+    case 'remove':
+      plan.targets = await matchListItems(ctx, list.id, command, resolutions)
+      break
+
+    case 'move':
+      if (!command.destinationList) {
+        throw new VoiceCommandError('Which list should they go to? Try "move eggs to costco list"')
+      }
+      plan.destination = await resolveTargetList(
+        ctx,
+        { ...command, targetList: command.destinationList },
+        resolutions.destinationListId,
+        'destination'
+      )
+      if (plan.destination.id === list.id) {
+        throw new VoiceCommandError(`Those items are already on "${list.name}"`)
+      }
+      plan.targets = await matchListItems(ctx, list.id, command, resolutions)
+      break
+
+    case 'set_quantity':
+    case 'rename':
+    case 'add_note':
+      plan.edit = editFields(command)
+      plan.targets = await matchListItems(ctx, list.id, command, resolutions)
+      break
+
+    default:
+      throw new VoiceCommandError('Unknown action')
+  }
+
+  return plan
+}
+
+/** The item fields an edit command sets */
+function editFields(command: ParsedCommand): ItemEdit {
+  const [item] = command.items
+
+  switch (command.action) {
+    case 'set_quantity': {
+      const quantity = normalizeQuantityFields(item.quantity, item.unit)
+      if (!quantity || quantity.quantity_value === null) {
+        throw new VoiceCommandError('Invalid quantity')
+      }
+      return quantity
+    }
+    case 'rename':
+      if (!item.newName) {
+        throw new VoiceCommandError('What should the new name be?')
+      }
+      return { name: item.newName }
+    default:
+      if (!item.note) {
+        throw new VoiceCommandError('What should the note say? Try "add a note to bread saying whole wheat"')
+      }
+      return { notes: item.note }
+  }
+}
+
+/** What running an utterance did, for the response */
+export type VoiceResult = {
+  message: string
+  /** Recorded operation covering every write, for undo */
+  operationId: string | null
+  /** Spoken answers, when the utterance asked something */
+  answer?: string
+  /** Items added, changed or removed */
+  itemIds: string[]
+}
+
+type WrittenPlan = { list: TargetList; message: string; inverse: OperationInverse }
+
+/**
+ * Run an utterance's commands in spoken order. Each command is planned only
+ * once the one before it is written, so "add milk then make that two" finds
+ * the milk. It's all or nothing: when a command fails or needs a
+ * clarification, the writes made so far are rolled back before rethrowing,
+ * and the clarification answer re-runs the whole utterance. A rollback that
+ * fails is reported in place of the original error.
+ */
+export async function runVoiceRequest(
+  ctx: VoiceContext,
+  request: VoiceRequest
+): Promise<VoiceResult> {
+  const written: WrittenPlan[] = []
+  const messages: string[] = []
+  const answers: string[] = []
+
+  for (const [index, command] of request.commands.entries()) {
+    const options: PlanOptions = { listId: request.listId, resolutions: request.resolutions[index] }
+    try {
+      // Questions only read; the answer is meant to be spoken back
+      if (command.action === 'query') {
+        const answer = await answerVoiceQuery(ctx, command, options)
+        answers.push(answer)
+        messages.push(answer)
+        continue
+      }
+
+      const plan = await planVoiceCommand(ctx, command, options)
+      const result = await writeVoicePlan(ctx, plan)
+      written.push({ list: plan.list, ...result })
+      messages.push(result.message)
+    } catch (error) {
+      if (error instanceof ClarificationNeeded) {
+        error.commandIndex = index
+      }
+      await rollBack(ctx, written)
+      throw error
+    }
+  }
+
+  return {
+    message: messages.join('; '),
+    ...(await recordWrites(ctx, written)),
+    answer: answers.length > 0 ? answers.join(' ') : undefined,
+  }
+}
+
+/**
+ * Plan every command of an utterance without writing, for previews.
+ * Commands are planned against the list as it is now, before any of them
+ * runs.
+ */
+export async function planVoiceRequest(
+  ctx: VoiceContext,
+  request: VoiceRequest
+): Promise<VoicePlan[]> {
+  const plans: VoicePlan[] = []
+  for (const [index, command] of request.commands.entries()) {
+    if (command.action === 'query') {
+      throw new VoiceCommandError('Ask questions separately from changes')
+    }
+    try {
+      plans.push(
+        await planVoiceCommand(ctx, command, { listId: request.listId, resolutions: request.resolutions[index] })
+      )
+    } catch (error) {
+      if (error instanceof ClarificationNeeded) {
+        error.commandIndex = index
+      }
+      throw error
+    }
+  }
+  return plans
+}
+
+/**
+ * Perform the writes for confirmed plans, all or nothing. nonce is the plan
+ * token's: it's claimed first, so the same preview never applies twice.
+ * Returns a message for the user and the id of the recorded operation, for
+ * undo.
+ */
+export async function applyVoicePlans(
+  ctx: VoiceContext,
+  plans: VoicePlan[],
+  nonce: string
+): Promise<VoiceResult> {
+  await claimPlan(ctx, nonce)
+
+  const written: WrittenPlan[] = []
+  for (const plan of plans) {
+    try {
+      written.push({ list: plan.list, ...(await writeVoicePlan(ctx, plan)) })
+    } catch (error) {
+      await rollBack(ctx, written)
+      // Nothing stayed applied, so the preview can be confirmed again
+      await releasePlan(ctx, nonce)
+      throw error
+    }
+  }
+
+  return {
+    message: written.map(result => result.message).join('; '),
+    ...(await recordWrites(ctx, written)),
+  }
+}
+
+/** One undoable operation for everything an utterance wrote, and the items it touched */
+async function recordWrites(
+  ctx: VoiceContext,
+  written: WrittenPlan[]
+): Promise<Pick<VoiceResult, 'operationId' | 'itemIds'>> {
+  if (written.length === 0) return { operationId: null, itemIds: [] }
+
+  const inverse = combineInverses(written.map(result => result.inverse))
+  const operationId = await recordOperation(ctx.supabase, {
+    userId: ctx.userId,
+    listId: written[0].list.id,
+    kind: 'voice_command',
+    summary: written.map(result => result.message).join('; '),
+    inverse,
+  })
+
+  // Inserted rows, then the rows changed or removed
+  return { operationId, itemIds: [...inverse.deleteIds, ...inverse.restoreRows.map(row => row.id)] }
+}
+
+/**
+ * Undo earlier commands of a failed utterance, newest first. Throws, in
+ * place of the original failure, when some could not be undone, naming the
+ * changes that stayed.
+ */
+async function rollBack(ctx: VoiceContext, written: WrittenPlan[]): Promise<void> {
+  const stuck: string[] = []
+  for (const { inverse, message } of [...written].reverse()) {
+    try {
+      await applyInverse(ctx.supabase, inverse)
+    } catch {
+      // Keep going: the remaining inverses are independent of this one
+      stuck.push(message)
+    }
+  }
+
+  if (stuck.length > 0) {
+    throw new Error(`Command failed and could not be fully undone; still applied: ${stuck.reverse().join('; ')}`)
+  }
+}
+
+async function writeVoicePlan(
+  ctx: VoiceContext,
+  plan: VoicePlan
+): Promise<{ message: string; inverse: OperationInverse }> {
+  const { supabase } = ctx
+  const { replies } = ctx.language
+  const ids = plan.targets.map(target => target.id)
+  const count = plan.targets.length
+
+  switch (plan.action) {
+    case 'add': {
+      const results = await addOrMergeItems(supabase, plan.list.id, ctx.userId, plan.additions)
+      const added = results.filter(result => result.status === 'added').length
+      return {
+        message: replies.added(added, results.length - added, plan.list.name, plan.category?.name),
+        inverse: {
+          deleteIds: results.filter(result => !result.previous).map(result => result.item.id),
+          restoreRows: results.flatMap(result => (result.previous ? [result.previous as ItemRecord] : [])),
+        },
+      }
+    }
+
+    case 'complete':
+    case 'uncomplete': {
+      const checked = plan.action === 'complete'
+      const inverse = await writeBatch(ctx, ids.map(id => ({ op: 'update', id, changes: { is_checked: checked } })))
+      return {
+        message: checked ? replies.checked(count, plan.list.name) : replies.unchecked(count, plan.list.name),
+        inverse,
+      }
+    }
+
+    case 'remove': {
+      const inverse = await writeBatch(ctx, ids.map(id => ({ op: 'delete', id })))
+      return {
+        message: replies.removed(count, plan.list.name),
+        inverse,
+      }
+    }
+
+    case 'move': {
+      if (!plan.destination) {
+        throw new VoiceCommandError('Which list should they go to?')
+      }
+      // Categories follow the items by name
+      const { inverse } = await transferItems(supabase, ctx.userId, ids, plan.destination.id, 'move')
+      return {
+        message: replies.moved(count, plan.list.name, plan.destination.name),
+        inverse,
+      }
+    }
+
+    case 'set_quantity':
+    case 'rename':
+    case 'add_note': {
+      const edit = plan.edit ?? {}
+      const before = plan.action === 'add_note' ? await loadItemRecords(ctx, ids) : []
+
+      const inverse = await writeBatch(
+        ctx,
+        ids.map(id => {
+          // A note goes after any note the item already has
+          const notes = before.find(row => row.id === id)?.notes
+          return { op: 'update', id, changes: notes ? { notes: `${notes}; ${edit.notes}` } : edit }
+        })
+      )
+
+      const names = plan.targets.map(target => target.name).join(', ')
+      return {
+        message: describeEdit(ctx.language, plan, names, edit, 'done'),
+        inverse,
+      }
+    }
+
+    default:
+      throw new VoiceCommandError('Unknown action')
+  }
+}
+
+/** Write a command's item changes together; returns what undoes them */
+async function writeBatch(ctx: VoiceContext, operations: BatchOperation[]): Promise<OperationInverse> {
+  const results = await applyItemBatch(ctx.supabase, operations)
+  return batchInverse(operations, results)
+}
+
+/** Full rows for the items a command is about to change */
+async function loadItemRecords(ctx: VoiceContext, ids: string[]): Promise<ItemRecord[]> {
+  const { data, error } = await ctx.supabase
+    .from('list_items')
+    .select('*')
+    .in('id', ids)
+
+  if (error) {
+    throw new Error(`Failed to load list items: ${error.message}`)
+  }
+  return data || []
+}
+
+/**
+ * What applying a plan would do, for the confirm step, in the user's
+ * language: 'Add 2 lb Chicken, 1 Milk to "Costco"'
+ */
+export function describeVoicePlan(plan: VoicePlan, language: LanguagePack = ENGLISH): string {
+  const { replies } = language
+  const listName = plan.list.name
+  const names = plan.targets.map(item => item.name).join(', ')
+
+  switch (plan.action) {
+    case 'add': {
+      const items = plan.additions.map(item => {
+        const notes = item.notes ? ` (${item.notes})` : ''
+        return `${formatQuantity(item.quantity_value ?? 1, item.quantity_unit ?? 'count')} ${item.name}${notes}`
+      })
+      return replies.previewAdd(items.join(', '), listName, plan.category?.name)
+    }
+    case 'complete':
+      return replies.previewCheck(names, listName)
+    case 'uncomplete':
+      return replies.previewUncheck(names, listName)
+    case 'remove':
+      return replies.previewRemove(names, listName)
+    case 'move':
+      return replies.previewMove(names, listName, plan.destination?.name ?? '')
+    case 'set_quantity':
+    case 'rename':
+    case 'add_note':
+      return describeEdit(language, plan, names, plan.edit ?? {}, 'preview')
+    case 'query':
+      return replies.previewQuestion(listName)
+  }
+}
+
+/**
+ * 'Change Milk to 2 gal on "Costco"' for previews, 'Changed Milk to 2 gal
+ * on "Costco"' once done
+ */
+function describeEdit(
+  language: LanguagePack,
+  plan: VoicePlan,
+  names: string,
+  edit: ItemEdit,
+  tense: ReplyTense
+): string {
+  const { replies } = language
+  switch (plan.action) {
+    case 'set_quantity': {
+      const quantity = formatQuantity(edit.quantity_value ?? null, edit.quantity_unit ?? null) ?? ''
+      return replies.changed(names, quantity, plan.list.name, tense)
+    }
+    case 'rename':
+      return replies.renamed(names, edit.name ?? '', plan.list.name, tense)
+    default:
+      return replies.noted(names, edit.notes ?? '', plan.list.name, tense)
+  }
+}
+
+// ============================================================================
+// QUESTIONS
+// ============================================================================
+
+/** How many item names an answer reads out before "and N more" */
+const MAX_SPOKEN_ITEMS = 8
+
+type QueryItemRow = Pick<ListItem, 'id' | 'name' | 'quantity_value' | 'quantity_unit' | 'is_checked'>
+
+/**
+ * Answer a read-only question about a list with a sentence meant to be
+ * read aloud, in the user's language: "You still need milk, 2 lb chicken
+ * and eggs on Costco."
+ */
+export async function answerVoiceQuery(
+  ctx: VoiceContext,
+  command: ParsedCommand,
+  options: PlanOptions = {}
+): Promise<string> {
+  const resolutions = options.resolutions ?? {}
+  const list = await resolveTargetList(ctx, command, options.listId ?? resolutions.listId)
+
+  const { data, error } = await ctx.supabase
+    .from('list_items')
+    .select('id, name, quantity_value, quantity_unit, is_checked')
+    .eq('list_id', list.id)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load list items: ${error.message}`)
+  }
+
+  const { language } = ctx
+  const { replies } = language
+  const items = (data || []) as QueryItemRow[]
+  const unchecked = items.filter(item => !item.is_checked)
+  const checked = items.filter(item => item.is_checked)
+
+  switch (command.query) {
+    case 'remaining':
+      return unchecked.length
+        ? replies.remaining(joinSpoken(unchecked.map(spokenItem), language), list.name)
+        : replies.nothingLeft(list.name)
+
+    case 'count':
+      return replies.count(unchecked.length, checked.length, list.name)
+
+    case 'checked':
+      return checked.length
+        ? replies.checkedOff(joinSpoken(checked.map(item => item.name), language))
+        : replies.nothingChecked(list.name)
+
+    case 'contains':
+      return command.items.map(item => answerContains(item.name, items, list.name, language)).join(' ')
+
+    default:
+      throw new VoiceCommandError("Sorry, I didn't understand the question")
+  }
+}
+
+function answerContains(name: string, items: QueryItemRow[], listName: string, language: LanguagePack): string {
+  const { replies } = language
+  const result = findItemMatch(name, items, language)
+
+  if (result.kind === 'none') {
+    return replies.notOnList(name, listName)
+  }
+
+  if (result.kind === 'ambiguous') {
+    const names = result.candidates.slice(0, MAX_OPTIONS).map(candidate => candidate.item.name)
+    return replies.listHas(joinSpoken(names, language), listName)
+  }
+
+  const [item] = result.items
+  return result.items.some(row => !row.is_checked)
+    ? replies.onList(spokenItem(item), listName)
+    : replies.checkedAlready(item.name, listName)
+}
+
+/** "2 lb Chicken", "Milk" */
+function spokenItem(item: QueryItemRow): string {
+  const quantity = formatQuantity(item.quantity_value, item.quantity_unit)
+  return quantity ? `${quantity} ${item.name}` : item.name
+}
+
+/** "milk, eggs and bread", capped at MAX_SPOKEN_ITEMS */
+function joinSpoken(names: string[], language: LanguagePack): string {
+  const shown = names.length > MAX_SPOKEN_ITEMS ? names.slice(0, MAX_SPOKEN_ITEMS) : names
+  const rest = names.length - shown.length
+  const parts = rest > 0 ? [...shown, language.replies.more(rest)] : shown
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} ${language.and} ${parts[parts.length - 1]}` : parts[0]
+}
+
+/**
+ * Find the list a command targets: an explicit list id (the dashboard's
+ * selected list, or an earlier clarification), a spoken list name, or the
+ * user's newest active list
+ */
+async function resolveTargetList(
+  ctx: VoiceContext,
+  command: ParsedCommand,
+  listId?: string,
+  choice: 'list' | 'destination' = 'list'
+): Promise<TargetList> {
+  const { supabase, userId } = ctx
+
+  if (listId) {
+    const { data: list } = await supabase
+      .from('grocery_lists')
+      .select('id, name')
+      .eq('id', listId)
+      .single()
+
+    if (!list) {
+      throw new VoiceCommandError('List not found')
+    }
+    return list
+  }
+
+  if (command.targetList) {
+    // Spoken list names match any list the user can access, shared included
+    const { data: shares } = await supabase
+      .from('list_shares')
+      .select('grocery_lists!inner (id, name, is_active)')
+      .eq('user_id', userId)
+
+    const spoken = command.targetList.toLowerCase()
+    const accessible = (shares || []).map(share => share.grocery_lists as unknown as TargetList & { is_active: boolean })
+    const matches = accessible.filter(list => list.name.toLowerCase().includes(spoken))
+    const exact = matches.filter(list => list.name.toLowerCase() === spoken)
+
+    if (exact.length === 1) return exact[0]
+    if (matches.length === 1) return matches[0]
+
+    if (matches.length === 0) {
+      throw new VoiceCommandError(`Could not find a list matching "${command.targetList}"`)
+    }
+
+    // Active lists first, they're the likelier target
+    const candidates = [...matches].sort((a, b) => Number(b.is_active) - Number(a.is_active))
+    throw new ClarificationNeeded(
+      ctx.language.replies.whichList(command.targetList),
+      candidates.slice(0, MAX_OPTIONS).map(list => ({ id: list.id, label: list.name })),
+      { kind: choice }
+    )
+  }
+
+  const { data: activeList } = await supabase
+    .from('grocery_lists')
+    .select('id, name')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .single()
+
+  if (!activeList) {
+    throw new VoiceCommandError('No active shopping list found. Create a list first!')
+  }
+
+  return activeList
+}
+
+/**
+ * Match a spoken category name against the list's categories ("dairy" →
+ * "Dairy & Eggs"). Returns null when nothing matches.
+ */
+async function matchCategory(
+  ctx: VoiceContext,
+  listId: string,
+  spoken: string,
+  resolutions: Resolutions
+): Promise<TargetCategory | null> {
+  const { data, error } = await ctx.supabase
+    .from('categories')
+    .select('id, name')
+    .eq('list_id', listId)
+
+  if (error) {
+    throw new Error(`Failed to load categories: ${error.message}`)
+  }
+
+  const categories = (data || []) as TargetCategory[]
+  const chosen = categories.find(category => category.id === resolutions.categoryId)
+  if (chosen) return chosen
+
+  const result = findItemMatch(spoken, categories, ctx.language)
+
+  if (result.kind === 'ambiguous') {
+    throw new ClarificationNeeded(
+      ctx.language.replies.whichCategory(spoken),
+      result.candidates
+        .slice(0, MAX_OPTIONS)
+        .map(candidate => ({ id: candidate.item.id, label: candidate.item.name })),
+      { kind: 'category' }
+    )
+  }
+
+  return result.kind === 'match' ? result.items[0] : null
+}
+
+/**
+ * Resolve spoken item names to list items with the fuzzy matcher
+ * ("apple" → "Apples", "cheese" → "Cheddar Cheese"). Ambiguous names use
+ * an earlier clarification answer when there is one, and ask otherwise.
+ * "that" / "it" is the most recently changed item.
+ */
+async function matchListItems(
+  ctx: VoiceContext,
+  listId: string,
+  command: ParsedCommand,
+  resolutions: Resolutions,
+  include: (row: ListItemRow) => boolean = () => true
+): Promise<ListItemRow[]> {
+  const { data, error } = await ctx.supabase
+    .from('list_items')
+    .select('id, name, is_checked, updated_at')
+    .eq('list_id', listId)
+
+  if (error) {
+    throw new Error(`Failed to load list items: ${error.message}`)
+  }
+
+  const pool = ((data || []) as ListItemRow[]).filter(include)
+  const matched = new Map<string, ListItemRow>()
+
+  for (const item of command.items) {
+    if (item.previous) {
+      const [latest] = [...pool].sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+      if (latest) matched.set(latest.id, latest)
+      continue
+    }
+
+    const chosenId = resolutions.items?.[item.name]
+    const chosen = chosenId && pool.find(row => row.id === chosenId)
+    if (chosen) {
+      matched.set(chosen.id, chosen)
+      continue
+    }
+
+    const result = findItemMatch(item.name, pool, ctx.language)
+
+    if (result.kind === 'ambiguous') {
+      throw new ClarificationNeeded(
+        ctx.language.replies.whichItem(item.name),
+        result.candidates
+          .slice(0, MAX_OPTIONS)
+          .map(candidate => ({ id: candidate.item.id, label: candidate.item.name })),
+        { kind: 'item', query: item.name }
+      )
+    }
+
+    if (result.kind === 'match') {
+      result.items.forEach(row => matched.set(row.id, row))
+    }
+  }
+
+  if (matched.size === 0) {
+    throw new VoiceCommandError('No matching items found')
+  }
+
+  return [...matched.values()]
+}
+
+// ============================================================================
+// CLARIFICATION AND CONFIRMATION TOKENS
+// ============================================================================
+
+const CLARIFICATION_TTL_MS = 2 * 60 * 1000
+const PLAN_TTL_MS = 5 * 60 * 1000
+
+type ClarificationState = {
+  userId: string
+  request: VoiceRequest
+  /** The command that asked */
+  commandIndex: number
+  pending: PendingChoice
+  options: ClarificationOption[]
+  expiresAt: number
+}
+
+/**
+ * Encrypt the state needed to finish an utterance once the user picks an
+ * option. AES-GCM also authenticates it, so the options can't be tampered
+ * with client-side.
+ */
+export function createClarificationToken(
+  ctx: VoiceContext,
+  request: VoiceRequest,
+  clarification: ClarificationNeeded
+): string {
+  const state: ClarificationState = {
+    userId: ctx.userId,
+    request,
+    commandIndex: clarification.commandIndex,
+    pending: clarification.pending,
+    options: clarification.options,
+    expiresAt: Date.now() + CLARIFICATION_TTL_MS,
+  }
+  return encryptObject(state)
+}
+
+/**
+ * Decode a clarification token and fold the user's answer - a tapped
+ * option index or a spoken reply like "the first one" - into the asking
+ * command's resolutions, ready to run again
+ */
+export function resumeClarification(
+  ctx: VoiceContext,
+  token: string,
+  answer: { index?: number; text?: string }
+): VoiceRequest {
+  let state: ClarificationState
+  try {
+    state = decryptObject<ClarificationState>(token)
+  } catch {
+    throw new VoiceCommandError('That question has expired. Please try the command again.')
+  }
+
+  if (state.userId !== ctx.userId || state.expiresAt < Date.now()) {
+    throw new VoiceCommandError('That question has expired. Please try the command again.')
+  }
+
+  const index =
+    answer.index ??
+    (answer.text ? parseChoice(answer.text, state.options.map(option => option.label), ctx.language) : null)
+  const option = index !== null ? state.options[index] : undefined
+  if (!option) {
+    throw new VoiceCommandError('Please pick one of the options')
+  }
+
+  const previous = state.request.resolutions[state.commandIndex] ?? {}
+  let resolutions: Resolutions
+  switch (state.pending.kind) {
+    case 'list':
+      resolutions = { ...previous, listId: option.id }
+      break
+    case 'destination':
+      resolutions = { ...previous, destinationListId: option.id }
+      break
+    case 'category':
+      resolutions = { ...previous, categoryId: option.id }
+      break
+    default:
+      resolutions = {
+        ...previous,
+        items: { ...previous.items, [state.pending.query]: option.id },
+      }
+  }
+
+  return {
+    ...state.request,
+    resolutions: state.request.resolutions.map((entry, i) => (i === state.commandIndex ? resolutions : entry)),
+  }
+}
+
+type PlanState = {
+  userId: string
+  plans: VoicePlan[]
+  /** The request the plans came from, for the voice history */
+  request: VoiceRequest
+  /** Claimed in voice_plan_uses when applied, so the token works once */
+  nonce: string
+  expiresAt: number
+}
+
+/** Token for previewed plans, applied as-is when the user confirms */
+export function createPlanToken(ctx: VoiceContext, plans: VoicePlan[], request: VoiceRequest): string {
+  const state: PlanState = {
+    userId: ctx.userId,
+    plans,
+    request,
+    nonce: randomUUID(),
+    expiresAt: Date.now() + PLAN_TTL_MS,
+  }
+  return encryptObject(state)
+}
+
+export function readPlanToken(
+  ctx: VoiceContext,
+  token: string
+): { plans: VoicePlan[]; request: VoiceRequest; nonce: string } {
+  let state: PlanState
+  try {
+    state = decryptObject<PlanState>(token)
+  } catch {
+    throw new VoiceCommandError('That preview has expired. Please try the command again.')
+  }
+
+  if (state.userId !== ctx.userId || state.expiresAt < Date.now()) {
+    throw new VoiceCommandError('That preview has expired. Please try the command again.')
+  }
+
+  return { plans: state.plans, request: state.request, nonce: state.nonce }
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+/** Mark a plan token used; a token used before is refused */
+async function claimPlan(ctx: VoiceContext, nonce: string): Promise<void> {
+  const { error } = await ctx.supabase
+    .from('voice_plan_uses')
+    .insert({ nonce, user_id: ctx.userId })
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    throw new VoiceCommandError('That change has already been applied')
+  }
+  if (error) {
+    throw new Error(`Failed to claim preview: ${error.message}`)
+  }
+}
+
+/** Let a plan token be used again after its apply was rolled back */
+async function releasePlan(ctx: VoiceContext, nonce: string): Promise<void> {
+  const { error } = await ctx.supabase
+    .from('voice_plan_uses')
+    .delete()
+    .eq('nonce', nonce)
+
+  if (error) {
+    throw new Error(`Failed to release preview: ${error.message}`)
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { formatParserTests, readExpectedParse, toExpectedParse, VoiceHistoryError } from './voice-history'
+import { parseVoiceCommand } from './voice-parser'
+
+const entry = (transcript: string, correction: string, createdAt: string) => ({
+  language: 'en',
+  cleaned_transcript: transcript,
+  corrected_parsed: toExpectedParse(parseVoiceCommand(correction)),
+  created_at: createdAt,
+})
+
+describe('formatParserTests', () => {
+  it('writes one case per corrected transcript', () => {
+    const file = formatParserTests([
+      entry('add milk the organic kind', 'add milk, the organic kind', '2026-10-02T10:00:00Z'),
+      { ...entry('add eggs', 'add eggs', '2026-10-01T10:00:00Z'), corrected_parsed: null },
+    ])
+
+    expect(file).toContain(
+      '["en", "add milk the organic kind", [{"action":"add","items":[{"name":"Milk","notes":"organic"}]}]],'
+    )
+    expect(file).not.toContain('"add eggs"')
+    expect(file).toContain("describe('corrected voice commands'")
+  })
+
+  it('leaves raw text out of the expectations', () => {
+    const file = formatParserTests([entry('at milk', 'add milk', '2026-10-01T10:00:00Z')])
+    expect(file).not.toContain('"raw"')
+    expect(file).not.toContain('originalText')
+  })
+
+  it('expects the parse the user confirmed', () => {
+    const file = formatParserTests([
+      {
+        ...entry('add two dozen eggs', 'add two dozen eggs', '2026-10-01T10:00:00Z'),
+        corrected_parsed: [{ action: 'add', items: [{ name: 'Eggs', quantity: 24 }] }],
+      },
+    ])
+    expect(file).toContain('"add two dozen eggs", [{"action":"add","items":[{"name":"Eggs","quantity":24}]}]],')
+  })
+
+  it('keeps the latest correction of a transcript', () => {
+    const file = formatParserTests([
+      entry('add bred', 'add bread', '2026-10-02T10:00:00Z'),
+      entry('add bred', 'add bread rolls', '2026-10-01T10:00:00Z'),
+    ])
+    expect(file).toContain('"name":"Bread"}')
+    expect(file).not.toContain('Bread Rolls')
+  })
+})
+
+describe('toExpectedParse', () => {
+  it('drops raw text', () => {
+    expect(toExpectedParse(parseVoiceCommand('add 2 apples to costco list'))).toEqual([
+      { action: 'add', items: [{ name: 'Apples', quantity: 2 }], targetList: 'costco' },
+    ])
+  })
+})
+
+describe('readExpectedParse', () => {
+  it('keeps the fields the parser produces', () => {
+    expect(
+      readExpectedParse([
+        {
+          action: 'move',
+          items: [{ name: 'Eggs', quantity: 12, unit: 'dozen', originalText: 'eggs', extra: 1 }],
+          targetList: ' home ',
+          destinationList: 'costco',
+          raw: 'move eggs to costco',
+        },
+      ])
+    ).toEqual([
+      {
+        action: 'move',
+        items: [{ name: 'Eggs', quantity: 12, unit: 'dozen' }],
+        targetList: 'home',
+        destinationList: 'costco',
+      },
+    ])
+  })
+
+  it.each([
+    ['no commands', []],
+    ['an unknown action', [{ action: 'buy', items: [] }]],
+    ['an unknown unit', [{ action: 'add', items: [{ name: 'Milk', unit: 'barrel' }] }]],
+    ['a zero quantity', [{ action: 'add', items: [{ name: 'Milk', quantity: 0 }] }]],
+    ['a missing name', [{ action: 'add', items: [{ quantity: 2 }] }]],
+    ['a blank list', [{ action: 'add', items: [{ name: 'Milk' }], targetList: ' ' }]],
+  ])('rejects %s', (_, value) => {
+    expect(() => readExpectedParse(value)).toThrow(VoiceHistoryError)
+  })
+})
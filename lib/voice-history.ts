@@ -0,0 +1,213 @@
+// Voice command history. Each voice request is logged with what was heard,
+// how it parsed and what happened, so users can look back over their
+// commands in the Voice history view, re-run them or correct them.
+// A correction is the text the user meant plus the parse they confirmed
+// for it; corrected commands export as test cases for lib/voice-parser.ts.
+
+import { QUANTITY_UNITS, type QuantityUnit } from './units'
+import type { VoiceContext, VoiceRequest } from './voice-commands'
+import type { ParsedCommand, ParsedItem, VoiceQuery } from './voice-parser'
+
+export type VoiceOutcome = 'applied' | 'answered' | 'clarification' | 'previewed' | 'failed'
+
+/** A parsed command as a correction expects it: the fields the parser decides, without raw text */
+export type ExpectedCommand = Omit<ParsedCommand, 'raw' | 'items'> & {
+  items: Omit<ParsedItem, 'originalText'>[]
+}
+
+/** A voice_commands row */
+export type VoiceHistoryEntry = {
+  id: string
+  list_id: string | null
+  language: string
+  raw_transcript: string
+  cleaned_transcript: string
+  parsed: ParsedCommand[]
+  outcome: VoiceOutcome
+  message: string | null
+  error: string | null
+  item_ids: string[]
+  operation_id: string | null
+  /** What the user meant, entered in the Voice history view */
+  corrected_transcript: string | null
+  /** What the transcript should have parsed to, as confirmed by the user */
+  corrected_parsed: ExpectedCommand[] | null
+  created_at: string
+}
+
+/** Most recent entries shown in the Voice history view */
+export const VOICE_HISTORY_LIMIT = 100
+
+/**
+ * Log a voice request and its outcome. The command has already run (or
+ * failed) by now, so a failure to log is reported rather than thrown.
+ */
+export async function logVoiceCommand(
+  ctx: VoiceContext,
+  request: VoiceRequest,
+  result: {
+    outcome: VoiceOutcome
+    message?: string
+    error?: string
+    itemIds?: string[]
+    operationId?: string | null
+  }
+): Promise<void> {
+  if (!request.transcript) return
+
+  const { error } = await ctx.supabase
+    .from('voice_commands')
+    .insert({
+      user_id: ctx.userId,
+      list_id: request.listId ?? null,
+      language: ctx.language.code,
+      raw_transcript: request.rawTranscript ?? request.transcript,
+      cleaned_transcript: request.transcript,
+      parsed: request.commands,
+      outcome: result.outcome,
+      message: result.message ?? null,
+      error: result.error ?? null,
+      item_ids: result.itemIds ?? [],
+      operation_id: result.operationId ?? null,
+    })
+
+  if (error) {
+    console.error('Failed to log voice command:', error)
+  }
+}
+
+export class VoiceHistoryError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+const ACTIONS: ParsedCommand['action'][] = [
+  'add',
+  'complete',
+  'uncomplete',
+  'remove',
+  'move',
+  'set_quantity',
+  'rename',
+  'add_note',
+  'query',
+]
+
+const QUERIES: VoiceQuery[] = ['remaining', 'count', 'contains', 'checked']
+
+/**
+ * A parse without its raw text, as the starting point the Voice history
+ * view offers for a correction
+ */
+export function toExpectedParse(commands: ParsedCommand[]): ExpectedCommand[] {
+  return JSON.parse(JSON.stringify(commands, withoutRawText))
+}
+
+function withoutRawText(key: string, value: unknown): unknown {
+  return key === 'raw' || key === 'originalText' ? undefined : value
+}
+
+/**
+ * Validate a correction's expected parse from a request body. Fields the
+ * parser doesn't produce are dropped, so the export only checks real ones.
+ */
+export function readExpectedParse(value: unknown): ExpectedCommand[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new VoiceHistoryError('Expected parse required', 400)
+  }
+
+  return value.map((raw, index) => {
+    const fail = (message: string): never => {
+      throw new VoiceHistoryError(`Command ${index + 1}: ${message}`, 400)
+    }
+    if (!raw || typeof raw !== 'object') return fail('Invalid command')
+    const { action, query, items, targetList, targetCategory, destinationList } = raw as Record<string, unknown>
+
+    if (!ACTIONS.includes(action as ParsedCommand['action'])) return fail('Unknown action')
+    if (query !== undefined && !QUERIES.includes(query as VoiceQuery)) return fail('Unknown query')
+    if (!Array.isArray(items)) return fail('Items required')
+
+    const command: ExpectedCommand = {
+      action: action as ParsedCommand['action'],
+      items: items.map(item => readExpectedItem(item, fail)),
+    }
+    if (query !== undefined) command.query = query as VoiceQuery
+    for (const [key, text] of Object.entries({ targetList, targetCategory, destinationList })) {
+      if (text === undefined) continue
+      if (typeof text !== 'string' || !text.trim()) return fail(`Invalid ${key}`)
+      command[key as 'targetList' | 'targetCategory' | 'destinationList'] = text.trim()
+    }
+    return command
+  })
+}
+
+function readExpectedItem(raw: unknown, fail: (message: string) => never): ExpectedCommand['items'][number] {
+  if (!raw || typeof raw !== 'object') return fail('Invalid item')
+  const { name, quantity, unit, previous, newName, note, notes } = raw as Record<string, unknown>
+
+  if (typeof name !== 'string') return fail('Item name required')
+  const item: ExpectedCommand['items'][number] = { name: name.trim() }
+
+  if (quantity !== undefined) {
+    if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0) {
+      return fail('Invalid quantity')
+    }
+    item.quantity = quantity
+  }
+  if (unit !== undefined) {
+    if (!QUANTITY_UNITS.includes(unit as QuantityUnit)) return fail('Unknown unit')
+    item.unit = unit as QuantityUnit
+  }
+  if (previous !== undefined) {
+    if (typeof previous !== 'boolean') return fail('Invalid previous')
+    item.previous = previous
+  }
+  for (const [key, text] of Object.entries({ newName, note, notes })) {
+    if (text === undefined) continue
+    if (typeof text !== 'string') return fail(`Invalid ${key}`)
+    item[key as 'newName' | 'note' | 'notes'] = text
+  }
+  return item
+}
+
+/**
+ * Turn corrected history entries into a vitest file for lib/: each cleaned
+ * transcript must parse to the parse the user confirmed. Raw text is left
+ * out of the expectations since it differs between the two by definition.
+ * A transcript corrected more than once keeps its latest correction.
+ */
+export function formatParserTests(
+  entries: Pick<VoiceHistoryEntry, 'language' | 'cleaned_transcript' | 'corrected_parsed' | 'created_at'>[]
+): string {
+  const cases = new Map<string, string>()
+  const corrected = entries
+    .filter(entry => entry.corrected_parsed)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+  for (const entry of corrected) {
+    const expected = JSON.stringify(entry.corrected_parsed, withoutRawText)
+    cases.set(
+      `${entry.language}\n${entry.cleaned_transcript}`,
+      `    [${JSON.stringify(entry.language)}, ${JSON.stringify(entry.cleaned_transcript)}, ${expected}],`
+    )
+  }
+
+  return [
+    '// Voice commands corrected in the Voice history view. Each transcript',
+    '// should parse the way the user confirmed.',
+    '',
+    "import { describe, expect, it } from 'vitest'",
+    "import { getLanguagePack } from './language-packs'",
+    "import { parseVoiceCommand } from './voice-parser'",
+    '',
+    "describe('corrected voice commands', () => {",
+    '  it.each([',
+    ...cases.values(),
+    "  ])('%s: %s', (language, transcript, expected) => {",
+    '    expect(parseVoiceCommand(transcript, getLanguagePack(language))).toMatchObject(expected)',
+    '  })',
+    '})',
+    '',
+  ].join('\n')
+}
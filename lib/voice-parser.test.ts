@@ -0,0 +1,438 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatCommandSummary,
+  itemQuantityFields,
+  parseChoice,
+  parseSpokenNumber,
+  parseVoiceCommand,
+  readWakeUtterance,
+} from './voice-parser'
+import { ENGLISH, SPANISH } from './language-packs'
+
+describe('parseSpokenNumber', () => {
+  it.each([
+    // digits, decimals, fractions
+    ['3 apples', 3, 'apples'],
+    ['1.5 pounds', 1.5, 'pounds'],
+    ['3/4 cup', 0.75, 'cup'],
+    ['1 1/2 cups', 1.5, 'cups'],
+    ['500g flour', 500, 'g flour'],
+    // cardinal words and compounds
+    ['twelve eggs', 12, 'eggs'],
+    ['twenty four cans', 24, 'cans'],
+    ['twenty-four cans', 24, 'cans'],
+    ['one hundred grams', 100, 'grams'],
+    ['one hundred and five napkins', 105, 'napkins'],
+    ['a hundred', 100, ''],
+    ['a thousand grams', 1000, 'grams'],
+    ['two thousand five hundred ml', 2500, 'ml'],
+    ['one point five liters', 1.5, 'liters'],
+    // fractions and mixed numbers
+    ['half a pound', 0.5, 'pound'],
+    ['a half gallon', 0.5, 'gallon'],
+    ['a quarter pound', 0.25, 'pound'],
+    ['three quarters cup', 0.75, 'cup'],
+    ['three quarters of a pound', 0.75, 'of a pound'],
+    ['two thirds cup', 0.67, 'cup'],
+    ['two and a half pounds', 2.5, 'pounds'],
+    ['one and three quarters cups', 1.75, 'cups'],
+    ['2 and 1/2 lbs', 2.5, 'lbs'],
+    // articles and vague amounts
+    ['a banana', 1, 'banana'],
+    ['an onion', 1, 'onion'],
+    ['a couple of lemons', 2, 'of lemons'],
+    ['a few apples', 3, 'apples'],
+    // dozen multiplier
+    ['a dozen eggs', 12, 'eggs'],
+    ['two dozen eggs', 24, 'eggs'],
+    ['half a dozen eggs', 6, 'eggs'],
+    ['dozen eggs', 12, 'eggs'],
+  ])('reads "%s" as %s', (text, value, rest) => {
+    expect(parseSpokenNumber(text)).toEqual({ value, rest })
+  })
+
+  it.each([
+    ['milk'],
+    ['half and half'],
+    ['zero apples'],
+    [''],
+  ])('finds no number in "%s"', (text) => {
+    expect(parseSpokenNumber(text)).toBeNull()
+  })
+})
+
+describe('parseVoiceCommand quantities', () => {
+  it.each([
+    ['add 1.5 pounds of ground beef', 'Ground Beef', 1.5, 'lb'],
+    ['add a dozen eggs', 'Eggs', 12, undefined],
+    ['add twenty four cans of soda', 'Soda', 24, 'can'],
+    ['add two and a half pounds of chicken', 'Chicken', 2.5, 'lb'],
+    ['add a couple of lemons', 'Lemons', 2, undefined],
+    ['add 3/4 cup of sugar', 'Sugar', 0.75, 'cup'],
+    ['add half a gallon of milk', 'Milk', 0.5, 'gal'],
+    ['add three quarters of a pound of turkey', 'Turkey', 0.75, 'lb'],
+    ['add one hundred and five napkins', 'Napkins', 105, undefined],
+    ['add a hundred napkins', 'Napkins', 100, undefined],
+    ['add dozen eggs', 'Eggs', 12, undefined],
+    ['add half and half', 'Half-and-half', undefined, undefined],
+  ])('parses "%s"', (transcript, name, quantity, unit) => {
+    const [item] = parseVoiceCommand(transcript)[0].items
+    expect(item.name).toBe(name)
+    expect(item.quantity).toBe(quantity)
+    expect(item.unit).toBe(unit)
+  })
+
+  it('splits items without breaking mixed numbers', () => {
+    const command = parseVoiceCommand('add two and a half pounds of chicken and a dozen eggs')[0]
+    expect(command.items.map(item => [item.name, item.quantity])).toEqual([
+      ['Chicken', 2.5],
+      ['Eggs', 12],
+    ])
+    expect(parseVoiceCommand('add one hundred and five napkins and milk')[0].items.map(item => item.name)).toEqual([
+      'Napkins',
+      'Milk',
+    ])
+  })
+})
+
+describe('parseVoiceCommand multiple commands', () => {
+  it('splits at action verbs', () => {
+    const commands = parseVoiceCommand('add milk and eggs and check off bread')
+    expect(commands.map(command => [command.action, command.items.map(item => item.name)])).toEqual([
+      ['add', ['Milk', 'Eggs']],
+      ['complete', ['Bread']],
+    ])
+  })
+
+  it('splits at "then" and commas', () => {
+    const commands = parseVoiceCommand('remove cheese, then add two apples')
+    expect(commands.map(command => command.action)).toEqual(['remove', 'add'])
+    expect(commands[1].items[0]).toMatchObject({ name: 'Apples', quantity: 2 })
+  })
+
+  it('applies a spoken list to every command', () => {
+    const commands = parseVoiceCommand('add milk and check off bread on my costco list')
+    expect(commands.map(command => command.targetList)).toEqual(['costco', 'costco'])
+  })
+
+  it('keeps a single command whole', () => {
+    expect(parseVoiceCommand('add bread and butter and jam')).toHaveLength(1)
+  })
+})
+
+describe('parseVoiceCommand categories', () => {
+  it.each([
+    ['add apples to produce', 'produce', ['Apples']],
+    ['add yogurt and milk under dairy', 'dairy', ['Yogurt', 'Milk']],
+    ['add chips to the snacks aisle', 'snacks', ['Chips']],
+  ])('reads "%s" as a %s category', (transcript, category, names) => {
+    const command = parseVoiceCommand(transcript)[0]
+    expect(command.targetCategory).toBe(category)
+    expect(command.items.map(item => item.name)).toEqual(names)
+  })
+
+  it('tells a list target apart from a category', () => {
+    const command = parseVoiceCommand('add milk to costco list')[0]
+    expect(command).toMatchObject({ targetList: 'costco', targetCategory: undefined })
+  })
+
+  it('only looks for categories on adds', () => {
+    expect(parseVoiceCommand('remove apples')[0].targetCategory).toBeUndefined()
+  })
+})
+
+describe('parseVoiceCommand questions', () => {
+  it.each([
+    ["what's left on the costco list", 'remaining'],
+    ["what's on my list", 'remaining'],
+    ['what do I need', 'remaining'],
+    ['how many items are unchecked', 'count'],
+    ['what did I check off', 'checked'],
+    ['is milk on my list', 'contains'],
+    ['do I need eggs', 'contains'],
+  ])('reads "%s" as a %s question', (transcript, query) => {
+    expect(parseVoiceCommand(transcript)[0]).toMatchObject({ action: 'query', query })
+  })
+
+  it('keeps the list and item names', () => {
+    expect(parseVoiceCommand("what's left on the costco list")[0].targetList).toBe('costco')
+    expect(parseVoiceCommand('do I need eggs and milk')[0].items.map(item => item.name)).toEqual(['Eggs', 'Milk'])
+    expect(parseVoiceCommand('is milk on my list')[0].items.map(item => item.name)).toEqual(['Milk'])
+  })
+
+  it('still treats "I need" as an add', () => {
+    expect(parseVoiceCommand('I need eggs')[0].action).toBe('add')
+  })
+})
+
+describe('parseVoiceCommand edit commands', () => {
+  it('changes a quantity', () => {
+    const command = parseVoiceCommand('change milk to two gallons')[0]
+    expect(command.action).toBe('set_quantity')
+    expect(command.items[0]).toMatchObject({ name: 'Milk', quantity: 2, unit: 'gal' })
+    expect(formatCommandSummary(command)).toBe('Changed Milk to 2 gal')
+  })
+
+  it('reads "make that" as the previous item', () => {
+    expect(parseVoiceCommand('make that three')[0].items[0]).toMatchObject({ previous: true, quantity: 3 })
+    expect(parseVoiceCommand('make that three apples')[0].items[0]).toMatchObject({ name: 'Apples', quantity: 3 })
+  })
+
+  it('renames items', () => {
+    for (const transcript of ['rename soda to sparkling water', 'change soda to sparkling water']) {
+      const command = parseVoiceCommand(transcript)[0]
+      expect(command.action).toBe('rename')
+      expect(command.items[0]).toMatchObject({ name: 'Soda', newName: 'Sparkling Water' })
+    }
+  })
+
+  it('adds notes', () => {
+    for (const transcript of ['add a note to bread: whole wheat', 'add a note to the bread saying whole wheat']) {
+      const command = parseVoiceCommand(transcript)[0]
+      expect(command.action).toBe('add_note')
+      expect(command.items[0]).toMatchObject({ name: 'Bread', note: 'whole wheat' })
+    }
+  })
+
+  it('keeps the target list', () => {
+    const command = parseVoiceCommand('change eggs to 18 on my costco list')[0]
+    expect(command).toMatchObject({ action: 'set_quantity', targetList: 'costco' })
+    expect(command.items[0]).toMatchObject({ name: 'Eggs', quantity: 18 })
+  })
+
+  it('leaves plain adds alone', () => {
+    expect(parseVoiceCommand('add milk and eggs')[0].action).toBe('add')
+  })
+})
+
+describe('parseVoiceCommand move', () => {
+  it('reads the destination list', () => {
+    expect(parseVoiceCommand('move eggs to costco list')).toEqual([
+      expect.objectContaining({
+        action: 'move',
+        items: [expect.objectContaining({ name: 'Eggs' })],
+        targetList: undefined,
+        destinationList: 'costco',
+      }),
+    ])
+    expect(parseVoiceCommand('move milk and bread over to the weekend list')[0]).toMatchObject({
+      items: [expect.objectContaining({ name: 'Milk' }), expect.objectContaining({ name: 'Bread' })],
+      destinationList: 'weekend',
+    })
+  })
+
+  it('reads the list the items come from', () => {
+    expect(parseVoiceCommand('move eggs from my weekly list to costco')[0]).toMatchObject({
+      targetList: 'weekly',
+      destinationList: 'costco',
+    })
+  })
+
+  it('reads Spanish moves', () => {
+    expect(parseVoiceCommand('mueve los huevos a la lista de costco', SPANISH)[0]).toMatchObject({
+      action: 'move',
+      destinationList: 'costco',
+    })
+  })
+})
+
+describe('parseChoice', () => {
+  const options = ['Cheddar Cheese', 'Cream Cheese', 'Cottage Cheese']
+
+  it.each([
+    ['the first one', 0],
+    ['Second.', 1],
+    ['number three', 2],
+    ['one', 0],
+    ['the last one', 2],
+  ])('picks "%s" by position', (answer, expected) => {
+    expect(parseChoice(answer, options)).toBe(expected)
+  })
+
+  it('picks an option by name', () => {
+    expect(parseChoice('the cream cheese', options)).toBe(1)
+    expect(parseChoice('cottage', options)).toBe(2)
+  })
+
+  it('returns null for out-of-range or unclear answers', () => {
+    expect(parseChoice('the fifth one', options)).toBeNull()
+    expect(parseChoice('cheese', options)).toBeNull()
+    expect(parseChoice('bananas', options)).toBeNull()
+  })
+})
+
+describe('itemQuantityFields', () => {
+  it('keeps a spoken unit', () => {
+    expect(itemQuantityFields({ name: 'Milk', quantity: 2, unit: 'gal', originalText: '2 gallons of milk' })).toEqual({
+      quantity_value: 2,
+      quantity_unit: 'gal',
+    })
+  })
+
+  it('stores counts above one only', () => {
+    expect(itemQuantityFields({ name: 'Apples', quantity: 3, originalText: '3 apples' })).toEqual({ quantity_value: 3, quantity_unit: 'count' })
+    expect(itemQuantityFields({ name: 'Apple', quantity: 1, originalText: 'an apple' })).toEqual({ quantity_value: null, quantity_unit: null })
+  })
+})
+
+describe('Spanish language pack', () => {
+  it.each([
+    ['dos kilos', 2, 'kilos'],
+    ['treinta y dos latas', 32, 'latas'],
+    ['doscientos cincuenta gramos', 250, 'gramos'],
+    ['mil gramos', 1000, 'gramos'],
+    ['dos y medio kilos', 2.5, 'kilos'],
+    ['media docena de huevos', 6, 'de huevos'],
+    ['un par de limones', 2, 'de limones'],
+    ['uno coma cinco litros', 1.5, 'litros'],
+  ])('reads "%s" as %s', (text, value, rest) => {
+    expect(parseSpokenNumber(text, SPANISH)).toEqual({ value, rest })
+  })
+
+  it.each([
+    ['añade dos kilos de manzanas', 'Manzanas', 2, 'kg'],
+    ['añade un kilo y medio de carne', 'Carne', 1.5, 'kg'],
+    ['compra una docena de huevos', 'Huevos', 12, undefined],
+    ['añade un cuarto de kilo de jamón', 'Jamón', 0.25, 'kg'],
+    ['agrega tres latas de atún', 'Atún', 3, 'can'],
+  ])('parses "%s"', (transcript, name, quantity, unit) => {
+    const [item] = parseVoiceCommand(transcript, SPANISH)[0].items
+    expect(item).toMatchObject({ name, quantity, unit })
+  })
+
+  it('splits items on "y" but not inside amounts', () => {
+    const command = parseVoiceCommand('añade leche, pan y dos kilos y medio de papas', SPANISH)[0]
+    expect(command.items.map(item => [item.name, item.quantity])).toEqual([
+      ['Leche', undefined],
+      ['Pan', undefined],
+      ['Papas', 2.5],
+    ])
+  })
+
+  it('reads actions, lists and categories', () => {
+    expect(parseVoiceCommand('marca el pan', SPANISH)[0]).toMatchObject({
+      action: 'complete',
+      items: [expect.objectContaining({ name: 'Pan' })],
+    })
+    expect(parseVoiceCommand('quita el queso', SPANISH)[0]).toMatchObject({
+      action: 'remove',
+      items: [expect.objectContaining({ name: 'Queso' })],
+    })
+    expect(parseVoiceCommand('añade leche a la lista de costco', SPANISH)[0]).toMatchObject({
+      action: 'add',
+      targetList: 'costco',
+    })
+    expect(parseVoiceCommand('añade leche a mi lista de la compra', SPANISH)[0].targetList).toBeUndefined()
+    expect(parseVoiceCommand('añade manzanas a frutas', SPANISH)[0]).toMatchObject({
+      targetCategory: 'frutas',
+      items: [expect.objectContaining({ name: 'Manzanas' })],
+    })
+  })
+
+  it.each([
+    ['quita la leche', 'remove', ['Leche']],
+    ['tacha los huevos', 'complete', ['Huevos']],
+    ['añade el pan y las galletas', 'add', ['Pan', 'Galletas']],
+    ['¿hay leche en mi lista?', 'query', ['Leche']],
+    ['mueve los huevos a la lista de costco', 'move', ['Huevos']],
+  ])('drops articles from item names in "%s"', (transcript, action, names) => {
+    const [command] = parseVoiceCommand(transcript, SPANISH)
+    expect(command.action).toBe(action)
+    expect(command.items.map(item => item.name)).toEqual(names)
+  })
+
+  it('splits several commands', () => {
+    const commands = parseVoiceCommand('añade leche y marca el pan', SPANISH)
+    expect(commands.map(command => command.action)).toEqual(['add', 'complete'])
+  })
+
+  it('answers questions and edits', () => {
+    expect(parseVoiceCommand('¿qué me falta?', SPANISH)[0]).toMatchObject({ action: 'query', query: 'remaining' })
+    expect(parseVoiceCommand('cuántos quedan', SPANISH)[0]).toMatchObject({ action: 'query', query: 'count' })
+    expect(parseVoiceCommand('cambia la leche a dos litros', SPANISH)[0]).toMatchObject({
+      action: 'set_quantity',
+      items: [expect.objectContaining({ name: 'Leche', quantity: 2, unit: 'l' })],
+    })
+    expect(parseVoiceCommand('cambia el refresco por agua con gas', SPANISH)[0]).toMatchObject({
+      action: 'rename',
+      items: [expect.objectContaining({ name: 'Refresco', newName: 'Agua Con Gas' })],
+    })
+  })
+
+  it('picks clarification options', () => {
+    expect(parseChoice('la segunda', ['Queso Azul', 'Queso Fresco'], SPANISH)).toBe(1)
+    expect(parseChoice('el último', ['Queso Azul', 'Queso Fresco'], SPANISH)).toBe(1)
+  })
+})
+
+describe('item notes', () => {
+  const items = (transcript: string, language = ENGLISH) =>
+    parseVoiceCommand(transcript, language)[0].items.map(item => [item.name, item.quantity, item.notes])
+
+  it.each([
+    ['add bananas not too ripe', [['Bananas', undefined, 'not too ripe']]],
+    ['add two organic avocados', [['Avocados', 2, 'organic']]],
+    ['add salmon if on sale', [['Salmon', undefined, 'if on sale']]],
+    ['add peanut butter jif brand', [['Peanut Butter', undefined, 'jif brand']]],
+    ['add 2 lb low fat cottage cheese brand x if on sale', [['Cottage Cheese', 2, 'low fat; brand x; if on sale']]],
+    ['add cheese extra sharp and crackers', [['Cheese', undefined, 'extra sharp'], ['Crackers', undefined, undefined]]],
+  ])('%s', (transcript, expected) => {
+    expect(items(transcript)).toEqual(expected)
+  })
+
+  it('puts a description after a comma on the item before it', () => {
+    expect(items('add milk, the organic kind')).toEqual([['Milk', undefined, 'organic']])
+    expect(items('add eggs, bread, the whole wheat kind, and butter')).toEqual([
+      ['Eggs', undefined, undefined],
+      ['Bread', undefined, 'whole wheat'],
+      ['Butter', undefined, undefined],
+    ])
+  })
+
+  it('keeps comma lists and bare descriptions as items', () => {
+    expect(items('add milk, eggs, and bread').map(([name]) => name)).toEqual(['Milk', 'Eggs', 'Bread'])
+    expect(items('add organic')).toEqual([['Organic', undefined, undefined]])
+    expect(items('add extra')).toEqual([['Extra', undefined, undefined]])
+  })
+
+  it('only splits notes off added items', () => {
+    expect(parseVoiceCommand('check off organic milk')[0].items[0]).toMatchObject({ name: 'Organic Milk' })
+    expect(parseVoiceCommand('check off organic milk')[0].items[0].notes).toBeUndefined()
+  })
+
+  it('reads Spanish descriptions', () => {
+    expect(items('añade leche desnatada y plátanos no muy maduros', SPANISH)).toEqual([
+      ['Leche', undefined, 'desnatada'],
+      ['Plátanos', undefined, 'no muy maduros'],
+    ])
+    expect(items('añade atún de marca hacendado si está en oferta', SPANISH)).toEqual([
+      ['Atún', undefined, 'marca hacendado; si está en oferta'],
+    ])
+  })
+})
+
+describe('readWakeUtterance', () => {
+  it('strips the wake phrase and keeps the command as spoken', () => {
+    expect(readWakeUtterance('hopper, got the eggs')).toEqual({ kind: 'command', text: 'got the eggs' })
+    expect(readWakeUtterance('Hey, Hopper. Add milk, eggs and bread')).toEqual({
+      kind: 'command',
+      text: 'Add milk, eggs and bread',
+    })
+  })
+
+  it('ignores speech without the wake phrase', () => {
+    expect(readWakeUtterance('got the eggs')).toBeNull()
+    expect(readWakeUtterance('hoppers are great')).toBeNull()
+    expect(readWakeUtterance('hopper')).toBeNull()
+  })
+
+  it('stops with or without the wake phrase', () => {
+    expect(readWakeUtterance("I'm done")).toEqual({ kind: 'stop' })
+    expect(readWakeUtterance('Hopper, that’s all.')).toEqual({ kind: 'stop' })
+  })
+
+  it('reads Spanish wake and stop phrases', () => {
+    expect(readWakeUtterance('Oye Hopper, marca el pan', SPANISH)).toEqual({ kind: 'command', text: 'marca el pan' })
+    expect(readWakeUtterance('ya terminé', SPANISH)).toEqual({ kind: 'stop' })
+  })
+})
@@ -9,93 +9,214 @@
  * - "check off bread" → Mark item complete
  * - "remove cheese" → Delete item
  * - "add milk to costco list" → Target specific list
+ * - "add apples to produce", "add yogurt under dairy" → Target category
+ * - "change milk to two gallons" / "make that three" → Set quantity
+ * - "rename soda to sparkling water" → Rename item
+ * - "add a note to bread: whole wheat" → Add note
+ * - "what's left on the costco list", "is milk on my list" → Questions
+ * - "add milk and eggs and check off bread" → Several commands in order
+ *
+ * Verbs, number words, units and phrases come from a language pack
+ * (lib/language-packs.ts); English unless another pack is passed in.
  */
 
+import { formatQuantity, roundQuantity, type QuantityFields, type QuantityUnit } from './units'
+import { findItemMatch } from './item-matcher'
+import { ENGLISH, type LanguagePack, type NumberWords, type VerbAction } from './language-packs'
+
 export interface ParsedCommand {
-  action: 'add' | 'complete' | 'uncomplete' | 'remove'
+  action: 'add' | 'complete' | 'uncomplete' | 'remove' | 'move' | 'set_quantity' | 'rename' | 'add_note' | 'query'
+  /** What a query asks; items hold the names for "contains" */
+  query?: VoiceQuery
   items: ParsedItem[]
   targetList?: string // List name if specified
-  raw: string // Original transcript
+  /**
+   * Category name for adds ("to produce", "under dairy"). A "to" target may
+   * also turn out to be a list named without the word "list".
+   */
+  targetCategory?: string
+  /** List the items go to (move); targetList is the one they're on */
+  destinationList?: string
+  raw: string // Transcript of this command
 }
 
+/**
+ * Read-only questions:
+ * - remaining: "what's left on the costco list", "what do I need"
+ * - count: "how many items are unchecked"
+ * - contains: "is milk on my list", "do I need eggs"
+ * - checked: "what did I check off"
+ */
+export type VoiceQuery = 'remaining' | 'count' | 'contains' | 'checked'
+
 export interface ParsedItem {
   name: string
   quantity?: number
-  unit?: string
+  unit?: QuantityUnit
   originalText: string
+  /** "that" / "it": the item changed most recently ("make that three") */
+  previous?: boolean
+  /** New name (rename) */
+  newName?: string
+  /** Note text (add_note) */
+  note?: string
+  /** Descriptions spoken with an added item ("organic; not too ripe"), for its notes */
+  notes?: string
 }
 
-// Action verb mappings
-const ACTION_VERBS = {
-  add: ['add', 'adding', 'buy', 'get', 'need', 'pick up', 'grab'],
-  complete: ['check off', 'mark', 'complete', 'done with', 'got', 'bought'],
-  uncomplete: ['uncheck', 'unmark', 'undo'],
-  remove: ['remove', 'delete', 'clear', 'take off'],
+/**
+ * Patterns built from a language pack, compiled once per language
+ */
+type Grammar = {
+  pack: LanguagePack
+  /** Verbs per action, longest first */
+  verbs: [VerbAction, string[]][]
+  /** Unit spelling → canonical unit */
+  units: Map<string, QuantityUnit>
+  /**
+   * A unit right after the amount, maybe after "of": "pounds", "de kilo".
+   * Group 1 is an article before the unit ("of a pound"), group 2 the unit.
+   */
+  leadingUnit: RegExp
+  /** A separator ("and", a comma, "then") followed by a command verb */
+  commandBoundary: RegExp
+  compounds: [RegExp, string][]
+  /** Leading "the", "my", ... */
+  determiners: RegExp
+  /** Leading "of" */
+  of: RegExp
+  /** A leading description word, for notes: "organic" */
+  leadingNote: RegExp | null
 }
 
-// Common quantity patterns
-const QUANTITY_PATTERNS = [
-  // Numbers: "3 apples", "12 eggs"
-  /^(\d+)\s+(.+)$/,
-
-  // Text numbers: "two apples", "three bags of chips"
-  /^(one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\s+(.+)$/i,
+const grammars = new Map<LanguagePack['code'], Grammar>()
 
-  // Fractions: "half a pound", "quarter cup"
-  /^(half|quarter)\s+(.+)$/i,
+function grammarFor(language: LanguagePack): Grammar {
+  let grammar = grammars.get(language.code)
+  if (!grammar) {
+    grammar = compileGrammar(language)
+    grammars.set(language.code, grammar)
+  }
+  return grammar
+}
 
-  // Units: "2 pounds of", "3 cans of"
-  /^(\d+)\s+(pound|pounds|lb|lbs|ounce|ounces|oz|can|cans|box|boxes|bag|bags|bottle|bottles|gallon|gallons|quart|quarts|cup|cups|dozen)\s+(?:of\s+)?(.+)$/i,
+function compileGrammar(pack: LanguagePack): Grammar {
+  const verbs = alternation([...Object.values(pack.verbs).flat(), ...pack.editVerbs])
+  const then = alternation(pack.then)
+  const of = alternation(pack.of)
 
-  // Text units: "two pounds of", "three cans of"
-  /^(one|two|three|four|five|six|seven|eight|nine|ten)\s+(pound|pounds|lb|lbs|ounce|ounces|oz|can|cans|box|boxes|bag|bags|bottle|bottles|gallon|gallons|quart|quarts|cup|cups|dozen)\s+(?:of\s+)?(.+)$/i,
-]
+  return {
+    pack,
+    verbs: Object.entries(pack.verbs).map(([action, words]) => [
+      action as VerbAction,
+      [...words].sort((a, b) => b.length - a.length),
+    ]),
+    units: new Map(Object.entries(pack.units)),
+    leadingUnit: new RegExp(
+      `^(?:(?:${of})\\s+(?:(${alternation(pack.numbers.articles)})\\s+)?)?(${alternation(Object.keys(pack.units))})(?=\\s|$)`
+    ),
+    commandBoundary: new RegExp(
+      `(?:\\s*,\\s*(?:${pack.and}\\s+)?|\\s+${pack.and}\\s+)(?:(?:${then})\\s+)?(?=(?:${verbs})(?:\\s|$))|\\s+(?:${then})\\s+`
+    ),
+    compounds: Object.entries(pack.compounds).map(([phrase, compound]) => [
+      new RegExp(`(?<!\\p{L})${alternation([phrase])}(?!\\p{L})`, 'gu'),
+      compound,
+    ]),
+    determiners: new RegExp(`^(?:(?:${alternation(pack.determiners)})\\s+)+`),
+    of: new RegExp(`^(?:${of})(?:\\s+|$)`),
+    leadingNote: pack.itemNotes.leading.length
+      ? new RegExp(`^(${alternation(pack.itemNotes.leading)})(?:\\s+|$)`)
+      : null,
+  }
+}
 
-// Text number to digit conversion
-const TEXT_TO_NUMBER: Record<string, number> = {
-  one: 1, two: 2, three: 3, four: 4, five: 5,
-  six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
-  eleven: 11, twelve: 12,
-  half: 0.5, quarter: 0.25,
+/** Regex alternation of literal phrases, longest first ("fl oz" before "oz") */
+function alternation(phrases: string[]): string {
+  return [...phrases]
+    .sort((a, b) => b.length - a.length)
+    .map(phrase => phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'))
+    .join('|')
 }
 
 /**
- * Main parsing function
+ * Main parsing function. An utterance can hold several commands ("add milk
+ * and check off bread"); they come back in the order spoken. Words are read
+ * in the given language, English by default.
  */
-export function parseVoiceCommand(transcript: string): ParsedCommand {
-  const normalized = transcript.toLowerCase().trim()
+export function parseVoiceCommand(transcript: string, language: LanguagePack = ENGLISH): ParsedCommand[] {
+  const grammar = grammarFor(language)
+  // "¿qué me falta?" → "qué me falta"
+  const normalized = transcript.toLowerCase().trim().replace(/^[¿¡]+|[?!]+$/g, '').trim()
+
+  const commands = normalized
+    .split(grammar.commandBoundary)
+    .map(segment => segment.trim())
+    .filter(Boolean)
+    .map(segment => parseSingleCommand(segment, grammar))
+
+  // A list named once applies to the whole utterance
+  const spokenList = commands.find(command => command.targetList)?.targetList
+  return commands.map(command => (command.targetList ? command : { ...command, targetList: spokenList }))
+}
 
+function parseSingleCommand(normalized: string, grammar: Grammar): ParsedCommand {
   // Detect action verb
-  const action = detectAction(normalized)
+  const action = detectAction(normalized, grammar)
+
+  // A move names two lists: where the items are and where they go
+  if (action === 'move') {
+    const move = parseMoveCommand(removeActionVerb(normalized, action, grammar), grammar)
+    if (move) {
+      return { ...move, raw: normalized }
+    }
+  }
 
   // Extract target list if specified
-  const { text: withoutList, targetList } = extractTargetList(normalized)
+  const { text: withoutList, targetList } = extractTargetList(normalized, grammar)
+
+  const query = parseQuery(withoutList, grammar)
+  if (query) {
+    return { ...query, targetList, raw: normalized }
+  }
+
+  // Edits name a single item and carry their own verbs
+  const edit = parseEditCommand(withoutList, grammar)
+  if (edit) {
+    return { ...edit, targetList, raw: normalized }
+  }
 
   // Remove action verb from text
-  const withoutAction = removeActionVerb(withoutList, action)
+  const withoutAction = removeActionVerb(withoutList, action, grammar)
+
+  // Only adds place items in a category
+  const { text: withoutCategory, targetCategory } =
+    action === 'add' ? extractTargetCategory(withoutAction, grammar) : { text: withoutAction, targetCategory: undefined }
 
   // Split by "and" or commas to handle multiple items
-  const itemTexts = splitItems(withoutAction)
+  const itemTexts = splitItems(withoutCategory, grammar)
 
-  // Parse each item for quantity/unit
-  const items = itemTexts.map(parseItem)
+  // Parse each item for quantity/unit. Added items keep descriptions as
+  // notes; other commands match names as spoken.
+  const items =
+    action === 'add' ? parseAddedItems(itemTexts, grammar) : itemTexts.map(text => parseItem(text, grammar))
 
   return {
     action,
     items,
     targetList,
-    raw: transcript,
+    targetCategory,
+    raw: normalized,
   }
 }
 
 /**
  * Detect the action verb (add, complete, remove, etc.)
  */
-function detectAction(text: string): ParsedCommand['action'] {
-  for (const [action, verbs] of Object.entries(ACTION_VERBS)) {
+function detectAction(text: string, grammar: Grammar): VerbAction {
+  for (const [action, verbs] of grammar.verbs) {
     for (const verb of verbs) {
       if (text.startsWith(verb) || text.includes(` ${verb} `)) {
-        return action as ParsedCommand['action']
+        return action
       }
     }
   }
@@ -104,59 +225,160 @@ function detectAction(text: string): ParsedCommand['action'] {
   return 'add'
 }
 
+/**
+ * Recognize a read-only question. Returns null for anything else.
+ */
+function parseQuery(text: string, grammar: Grammar): Pick<ParsedCommand, 'action' | 'query' | 'items'> | null {
+  for (const [pattern, query] of grammar.pack.questions) {
+    const match = text.match(pattern)
+    if (!match) continue
+
+    const items =
+      query === 'contains'
+        ? splitItems(match[1], grammar).map(item => parseItem(item, grammar))
+        : []
+    return { action: 'query', query, items }
+  }
+  return null
+}
+
+/**
+ * Parse quantity, rename and note commands. Returns null for anything else.
+ */
+function parseEditCommand(text: string, grammar: Grammar): Pick<ParsedCommand, 'action' | 'items'> | null {
+  const { edits } = grammar.pack
+
+  let match = text.match(edits.rename)
+  if (match) {
+    return {
+      action: 'rename',
+      items: [{ ...parseTarget(match[1], grammar), newName: capitalize(match[2].trim()) }],
+    }
+  }
+
+  match = text.match(edits.note) ?? text.match(edits.noteWithoutText)
+  if (match) {
+    // A missing note text is reported when the command runs
+    return {
+      action: 'add_note',
+      items: [{ ...parseTarget(match[1], grammar), note: match[2]?.trim() ?? '' }],
+    }
+  }
+
+  match = text.match(edits.change)
+  if (match) {
+    const amount = parseAmount(match[2], grammar)
+    // "change soda to sparkling water" is a rename
+    return amount
+      ? { action: 'set_quantity', items: [{ ...parseTarget(match[1], grammar), ...amount }] }
+      : { action: 'rename', items: [{ ...parseTarget(match[1], grammar), newName: capitalize(match[2].trim()) }] }
+  }
+
+  match = text.match(edits.makeThat)
+  if (match) {
+    // "make that two gallons" → the previous item; "make that three
+    // apples" names the item again
+    const amount = parseAmount(match[1], grammar)
+    if (amount) {
+      return { action: 'set_quantity', items: [{ name: '', previous: true, originalText: text, ...amount }] }
+    }
+    const item = parseItem(match[1], grammar)
+    return item.quantity ? { action: 'set_quantity', items: [item] } : null
+  }
+
+  return null
+}
+
+/**
+ * Parse "eggs from the weekly list to costco list" after the move verb.
+ * Returns null without a destination.
+ */
+function parseMoveCommand(
+  text: string,
+  grammar: Grammar
+): Pick<ParsedCommand, 'action' | 'items' | 'targetList' | 'destinationList'> | null {
+  const match = text.match(grammar.pack.moveTarget)
+  if (!match) return null
+
+  const source = match[2]?.trim()
+  return {
+    action: 'move',
+    items: splitItems(match[1], grammar).map(item => parseItem(item, grammar)),
+    targetList: source && !grammar.pack.genericListNames.includes(source) ? source : undefined,
+    destinationList: match[3].trim(),
+  }
+}
+
+/**
+ * The item an edit refers to: a name, or "that" / "it" for the previous one
+ */
+function parseTarget(text: string, grammar: Grammar): ParsedItem {
+  const name = text.trim().replace(grammar.determiners, '')
+  if (grammar.pack.previousItem.includes(name)) {
+    return { name: '', previous: true, originalText: text }
+  }
+  return { name: capitalize(name), originalText: text }
+}
+
+/**
+ * A bare amount with an optional unit: "three", "two gallons", "a dozen"
+ */
+function parseAmount(text: string, grammar: Grammar): { quantity: number; unit?: QuantityUnit } | null {
+  const amount = readLeadingAmount(text, grammar)
+  if (!amount || amount.rest) return null
+  return amount.unit ? { quantity: amount.quantity, unit: amount.unit } : { quantity: amount.quantity }
+}
+
 /**
  * Extract target list name if specified
  * Examples:
  * - "add milk to costco list"
  * - "add eggs to my shopping list"
- * - "add bread to my grocery list"
  * - "add butter to the weekend list"
+ * - "añade pan a la lista de costco"
  */
-function extractTargetList(text: string): { text: string; targetList?: string } {
-  const patterns = [
-    // "to my shopping list" or "to my grocery list" - use generic keyword
-    /\s+to\s+my\s+(shopping|grocery)\s+list$/i,
-    // "to the shopping list"
-    /\s+to\s+the\s+(shopping|grocery)\s+list$/i,
-    // "to my [name] list" (e.g., "to my costco list")
-    /\s+to\s+my\s+(.+?)\s+list$/i,
-    // "to [name] list" (e.g., "to weekend list")
-    /\s+to\s+(?:the\s+)?(.+?)\s+list$/i,
-    // "on my [name] list"
-    /\s+on\s+(?:my|the)\s+(.+?)\s+list$/i,
-  ]
-
-  for (const pattern of patterns) {
+function extractTargetList(text: string, grammar: Grammar): { text: string; targetList?: string } {
+  for (const pattern of grammar.pack.listTargets) {
     const match = text.match(pattern)
-    if (match) {
-      const listName = match[1].trim().toLowerCase()
-
-      // Map generic terms to null (means "use default list")
-      if (listName === 'shopping' || listName === 'grocery') {
-        return {
-          text: text.replace(pattern, '').trim(),
-          targetList: undefined, // Use default list
-        }
-      }
+    if (!match) continue
 
-      return {
-        text: text.replace(pattern, '').trim(),
-        targetList: listName,
-      }
+    const listName = match[1]?.trim()
+    const remaining = text.replace(pattern, '').trim()
+
+    // No name or a generic one ("my shopping list") means the default list
+    if (!listName || grammar.pack.genericListNames.includes(listName)) {
+      return { text: remaining, targetList: undefined }
     }
+
+    return { text: remaining, targetList: listName }
   }
 
   return { text }
 }
 
+/**
+ * Extract a category for the added items. Runs after the list target is
+ * gone, so "to costco list" never gets here.
+ * Examples:
+ * - "apples to produce"
+ * - "yogurt and milk under dairy"
+ * - "chips to the snacks aisle"
+ */
+function extractTargetCategory(text: string, grammar: Grammar): { text: string; targetCategory?: string } {
+  const match = text.match(grammar.pack.categoryTarget)
+  if (!match) return { text }
+  return { text: match[1].trim(), targetCategory: match[2].trim() }
+}
+
 /**
  * Remove action verb from beginning of text
  */
-function removeActionVerb(text: string, action: ParsedCommand['action']): string {
-  const verbs = ACTION_VERBS[action]
+function removeActionVerb(text: string, action: VerbAction, grammar: Grammar): string {
+  const verbs = grammar.verbs.find(([verbAction]) => verbAction === action)?.[1] ?? []
 
   for (const verb of verbs) {
-    if (text.startsWith(verb)) {
+    // Whole words only: "adding milk" isn't "add" + "ing milk"
+    if (text.startsWith(verb) && /^(?:\s|$)/.test(text.slice(verb.length))) {
       return text.slice(verb.length).trim()
     }
   }
@@ -168,9 +390,14 @@ function removeActionVerb(text: string, action: ParsedCommand['action']): string
  * Split text into individual items
  * Handles: "milk and eggs", "milk, eggs, and bread", "milk and eggs and cheese"
  */
-function splitItems(text: string): string[] {
-  // Replace " and " with comma for consistent splitting
-  const withCommas = text.replace(/\s+and\s+/gi, ', ')
+function splitItems(text: string, grammar: Grammar): string[] {
+  // Replace " and " with comma for consistent splitting, except inside an
+  // amount like "two and a half pounds" or a product like "half-and-half"
+  let withCommas = text
+  for (const [pattern, compound] of grammar.compounds) {
+    withCommas = withCommas.replace(pattern, compound)
+  }
+  withCommas = withCommas.replace(grammar.pack.itemSeparator, ', ')
 
   // Split by comma
   const parts = withCommas.split(',').map(s => s.trim()).filter(Boolean)
@@ -180,47 +407,435 @@ function splitItems(text: string): string[] {
 }
 
 /**
- * Parse individual item for quantity and unit
+ * Parse individual item for quantity and unit, and with withNotes set,
+ * descriptions for its notes
  */
-function parseItem(text: string): ParsedItem {
+function parseItem(text: string, grammar: Grammar, withNotes = false): ParsedItem {
   const cleaned = text.trim()
-
-  // Try each quantity pattern
-  for (const pattern of QUANTITY_PATTERNS) {
-    const match = cleaned.match(pattern)
-    if (match) {
-      const [, quantityText, possibleUnit, possibleName] = match
-
-      // Convert text number to digit
-      const quantity = TEXT_TO_NUMBER[quantityText.toLowerCase()] || parseInt(quantityText)
-
-      // Check if we captured a unit
-      if (possibleName) {
-        // Pattern had unit: "2 pounds of chicken"
-        return {
-          name: capitalize(possibleName.trim()),
-          quantity,
-          unit: possibleUnit,
-          originalText: text,
-        }
-      } else {
-        // Pattern had no unit: "3 apples"
-        return {
-          name: capitalize(possibleUnit.trim()),
-          quantity,
-          originalText: text,
-        }
-      }
+  const amount = readLeadingAmount(cleaned, grammar)
+
+  // An amount needs something after it to be the item ("add two" isn't)
+  if (amount && amount.rest) {
+    return {
+      ...describedName(amount.rest, grammar, withNotes),
+      quantity: amount.quantity,
+      unit: amount.unit,
+      originalText: text,
     }
   }
 
   // No quantity found - just a plain item
   return {
-    name: capitalize(cleaned),
+    ...describedName(cleaned, grammar, withNotes),
     originalText: text,
   }
 }
 
+/**
+ * Parse the items of an add. A part that is only a description ("milk,
+ * the organic kind") is a note on the item before it rather than an item,
+ * so comma lists still split as before.
+ */
+function parseAddedItems(texts: string[], grammar: Grammar): ParsedItem[] {
+  const items: ParsedItem[] = []
+
+  for (const text of texts) {
+    const previous = items.at(-1)
+    const description = splitNotes(text, grammar)
+    if (previous && !description.name && description.notes.length > 0) {
+      previous.notes = [previous.notes, ...description.notes].filter(Boolean).join('; ')
+      continue
+    }
+    items.push(parseItem(text, grammar, true))
+  }
+
+  return items
+}
+
+/**
+ * Parse items written down rather than spoken, like the lines of a pasted
+ * list: each text is an item ("2 lb chicken") or a description of the one
+ * before it ("the organic kind").
+ */
+export function parseItemTexts(texts: string[], language: LanguagePack = ENGLISH): ParsedItem[] {
+  const normalized = texts.map(text => text.toLowerCase().trim()).filter(Boolean)
+  return parseAddedItems(normalized, grammarFor(language))
+}
+
+/** Item name, with descriptions split off into notes when asked */
+function describedName(text: string, grammar: Grammar, withNotes: boolean): Pick<ParsedItem, 'name' | 'notes'> {
+  const description = withNotes ? splitNotes(text, grammar) : null
+  // A description needs a name left over: "add extra" is an item
+  if (!description?.name || description.notes.length === 0) {
+    return { name: capitalize(withoutDeterminers(text, grammar)) }
+  }
+  return { name: capitalize(withoutDeterminers(description.name, grammar)), notes: description.notes.join('; ') }
+}
+
+/** "the milk" → "milk", "la leche" → "leche"; the words alone stay a name */
+function withoutDeterminers(text: string, grammar: Grammar): string {
+  return text.replace(grammar.determiners, '') || text
+}
+
+/**
+ * Split descriptions off item text using the pack's itemNotes rules:
+ * "organic bananas not too ripe" → "bananas" + ["organic", "not too ripe"].
+ * The name is empty when the text is only a description.
+ */
+function splitNotes(text: string, grammar: Grammar): { name: string; notes: string[] } {
+  let name = text.trim()
+  const leading: string[] = []
+  const trailing: string[] = []
+
+  // Trailing descriptions, last spoken first: "brand x if on sale"
+  let match: RegExpMatchArray | null
+  while (name && (match = matchTrailingNote(name, grammar))) {
+    trailing.unshift(match[1].trim())
+    name = name.slice(0, match.index).trim()
+  }
+
+  while (name && grammar.leadingNote && (match = name.match(grammar.leadingNote))) {
+    leading.push(match[1])
+    name = name.slice(match[0].length).trim()
+  }
+
+  return { name, notes: [...leading, ...trailing] }
+}
+
+function matchTrailingNote(text: string, grammar: Grammar): RegExpMatchArray | null {
+  for (const pattern of grammar.pack.itemNotes.trailing) {
+    const match = text.match(pattern)
+    if (match) return match
+  }
+  return null
+}
+
+/**
+ * Split a leading amount off item text: "two and a half pounds of chicken"
+ * → 2.5 lb + "chicken". A trailing "of" goes with the amount.
+ */
+function readLeadingAmount(text: string, grammar: Grammar): { quantity: number; unit?: QuantityUnit; rest: string } | null {
+  const number = readSpokenNumber(text, grammar)
+  if (!number) return null
+
+  let quantity = number.value
+  let rest = number.rest
+  let unit: QuantityUnit | undefined
+  const unitMatch = rest.match(grammar.leadingUnit)
+  // Only part of a unit takes an article: "three quarters of a pound"
+  if (unitMatch && (!unitMatch[1] || quantity < 1)) {
+    unit = grammar.units.get(unitMatch[2].replace(/\s+/g, ' '))
+    rest = rest.slice(unitMatch[0].length).trim()
+
+    // A fraction after the unit: "dos kilos y medio", "a pound and a half"
+    const words = rest.split(/\s+/)
+    const fraction = words[0] === grammar.pack.and ? readFraction(words, 1, grammar.pack.numbers) : null
+    if (fraction) {
+      quantity = roundQuantity(quantity + fraction.value)
+      rest = words.slice(fraction.end).join(' ')
+    }
+  }
+  rest = rest.replace(grammar.of, '').trim()
+
+  return { quantity, unit, rest }
+}
+
+// ============================================================================
+// SPOKEN NUMBERS
+// ============================================================================
+
+const DECIMAL_TOKEN = /^(?:\d+(?:\.\d+)?|\.\d+)$/
+const FRACTION_TOKEN = /^(\d+)\/(\d+)$/
+
+/** A number word's value; own keys only, so "constructor" isn't a number */
+function wordValue<T>(table: Record<string, T>, word: string | undefined): T | undefined {
+  return word !== undefined && Object.hasOwn(table, word) ? table[word] : undefined
+}
+
+/**
+ * Read a spoken or written number at the start of text and return it with
+ * the text that follows. Understands:
+ * - digits, decimals and fractions: "12", "1.5", "3/4", "1 1/2"
+ * - cardinal words and compounds: "twenty four", "one hundred and five",
+ *   "a hundred"
+ * - "point" decimals: "one point five"
+ * - fractions and mixed numbers: "half", "three quarters", "two and a half"
+ * - "a" / "an" as one, "a couple" as two, "a few" as three
+ * - "dozen" as a multiplier: "a dozen", "two dozen", "half a dozen", or
+ *   alone as twelve
+ * Number words come from the language pack, English by default.
+ * Returns null when the text doesn't start with a number.
+ */
+export function parseSpokenNumber(
+  text: string,
+  language: LanguagePack = ENGLISH
+): { value: number; rest: string } | null {
+  return readSpokenNumber(text, grammarFor(language))
+}
+
+function readSpokenNumber(text: string, grammar: Grammar): { value: number; rest: string } | null {
+  const words = text
+    .trim()
+    .toLowerCase()
+    // "twenty-four" → "twenty four"
+    .replace(/(\p{L})-(\p{L})/gu, '$1 $2')
+    // "500g" → "500 g"
+    .replace(/^(\d+(?:\.\d+)?)(\p{L}+)(?!\p{L})/u, (match, number, unit) => (grammar.units.has(unit) ? `${number} ${unit}` : match))
+    .split(/\s+/)
+    .filter(Boolean)
+
+  const read = readNumber(words, grammar.pack)
+  if (!read || !(read.value > 0)) return null
+
+  return { value: roundQuantity(read.value), rest: words.slice(read.end).join(' ') }
+}
+
+function readNumber(words: string[], pack: LanguagePack): { value: number; end: number } | null {
+  const { numbers } = pack
+  let value: number
+  let i: number
+  const first = words[0]
+  if (first === undefined) return null
+
+  const vague = wordValue(numbers.vague, first)
+  const fraction = wordValue(numbers.fractions, first)
+
+  if (numbers.articles.includes(first) && !isScale(words[1], numbers)) {
+    // "a couple", "a few", "a half", or just "a"
+    const next = wordValue(numbers.vague, words[1]) ?? wordValue(numbers.fractions, words[1])
+    if (next !== undefined) {
+      value = next
+      i = 2
+    } else {
+      value = 1
+      i = 1
+    }
+  } else if (vague !== undefined) {
+    value = vague
+    i = 1
+  } else if (fraction !== undefined) {
+    // "half a pound", "quarter cup"
+    value = fraction
+    i = 1
+  } else if (numbers.dozen.includes(first)) {
+    // "dozen eggs": one dozen, multiplied below
+    value = 1
+    i = 0
+  } else {
+    const cardinal = readCardinal(words, 0, numbers)
+    if (!cardinal) return null
+    value = cardinal.value
+    i = cardinal.end
+
+    // "three quarters", "one third"
+    const part = wordValue(numbers.fractions, words[i])
+    if (part !== undefined) {
+      value *= part
+      i++
+    }
+  }
+
+  // "two and a half", "one and three quarters"; not "half and half"
+  if (words[i] === pack.and && value >= 1) {
+    const mixed = readFraction(words, i + 1, numbers)
+    if (mixed) {
+      value += mixed.value
+      i = mixed.end
+    }
+  }
+
+  // The article in "half a dozen" / "half a pound" belongs to the fraction
+  if (value < 1 && numbers.articles.includes(words[i])) i++
+
+  // "a dozen", "two dozen"
+  if (numbers.dozen.includes(words[i])) {
+    value *= 12
+    i++
+  }
+
+  // "half and half" is a product, not an amount
+  if (words[i] === pack.and) return null
+
+  return { value, end: i }
+}
+
+/**
+ * A whole or decimal number: digits ("12", "1.5", "3/4", "1 1/2") or words
+ * ("twenty four", "one hundred", "one point five")
+ */
+function readCardinal(words: string[], start: number, numbers: NumberWords): { value: number; end: number } | null {
+  const first = words[start]
+
+  if (DECIMAL_TOKEN.test(first)) {
+    const value = Number(first)
+    // "1 1/2"
+    const fraction = words[start + 1]?.match(FRACTION_TOKEN)
+    if (fraction && Number(fraction[2]) > 0) {
+      return { value: value + Number(fraction[1]) / Number(fraction[2]), end: start + 2 }
+    }
+    return { value, end: start + 1 }
+  }
+
+  const fraction = first.match(FRACTION_TOKEN)
+  if (fraction) {
+    return Number(fraction[2]) > 0 ? { value: Number(fraction[1]) / Number(fraction[2]), end: start + 1 } : null
+  }
+
+  // Words: ones/teens after tens ("twenty four"), scales after either.
+  // An article before a scale is one: "a hundred"
+  let total = 0
+  let current = 0
+  let last: 'small' | 'tens' | 'scale' | null = null
+  let i = start
+
+  while (i < words.length) {
+    const word = words[i]
+    const small =
+      wordValue(numbers.small, word) ??
+      (i === start && numbers.articles.includes(word) && isScale(words[i + 1], numbers) ? 1 : undefined)
+    const tens = wordValue(numbers.tens, word)
+    const hundreds = wordValue(numbers.hundreds, word)
+
+    if (small !== undefined && (last === null || last === 'scale' || (last === 'tens' && small < 10))) {
+      current += small
+      last = 'small'
+    } else if (tens !== undefined && (last === null || last === 'scale')) {
+      current += tens
+      last = 'tens'
+    } else if (word === numbers.tensJoiner && last === 'tens' && (wordValue(numbers.small, words[i + 1]) ?? 10) < 10) {
+      // "treinta y dos": the next word adds the ones
+    } else if (
+      word === numbers.scaleJoiner &&
+      last === 'scale' &&
+      (wordValue(numbers.small, words[i + 1]) ?? wordValue(numbers.tens, words[i + 1])) !== undefined
+    ) {
+      // "one hundred and five": the next words add the rest
+    } else if (hundreds !== undefined && (last === null || last === 'scale')) {
+      // "doscientos"
+      current += hundreds
+      last = 'scale'
+    } else if (numbers.hundred.includes(word) && last !== null && last !== 'scale') {
+      current *= 100
+      last = 'scale'
+    } else if (numbers.thousand.includes(word) && last !== 'scale') {
+      // "mil" on its own is a thousand
+      total += (last === null ? 1 : current) * 1000
+      current = 0
+      last = 'scale'
+    } else {
+      break
+    }
+    i++
+  }
+
+  if (last === null) return null
+  let value = total + current
+
+  // "one point five"
+  if (numbers.point.includes(words[i]) && wordValue(numbers.digits, words[i + 1]) !== undefined) {
+    let digits = ''
+    i++
+    let digit: string | undefined
+    while ((digit = wordValue(numbers.digits, words[i])) !== undefined) {
+      digits += digit
+      i++
+    }
+    value = Number(`${value}.${digits}`)
+  }
+
+  return { value, end: i }
+}
+
+/** "hundred" or "thousand" */
+function isScale(word: string | undefined, numbers: NumberWords): boolean {
+  return word !== undefined && (numbers.hundred.includes(word) || numbers.thousand.includes(word))
+}
+
+/**
+ * The fraction after "and": "a half", "one quarter", "three quarters",
+ * "1/2", or a bare fraction word ("y medio")
+ */
+function readFraction(words: string[], start: number, numbers: NumberWords): { value: number; end: number } | null {
+  const first = words[start]
+  if (first === undefined) return null
+
+  const numeric = first.match(FRACTION_TOKEN)
+  if (numeric && Number(numeric[2]) > 0) {
+    return { value: Number(numeric[1]) / Number(numeric[2]), end: start + 1 }
+  }
+
+  const bare = wordValue(numbers.fractions, first)
+  if (bare !== undefined) {
+    return { value: bare, end: start + 1 }
+  }
+
+  const numerator = numbers.articles.includes(first) ? 1 : wordValue(numbers.small, first)
+  const denominator = wordValue(numbers.fractions, words[start + 1])
+  if (numerator === undefined || denominator === undefined) return null
+  return { value: numerator * denominator, end: start + 2 }
+}
+
+/**
+ * Interpret a spoken answer to a clarification question: "the first one",
+ * "number two", "the last one", or (part of) one option's name.
+ * Returns the chosen option's index, or null if it isn't clear.
+ */
+export function parseChoice(answer: string, options: string[], language: LanguagePack = ENGLISH): number | null {
+  const normalized = answer.toLowerCase().trim().replace(/^[¿¡]+|[.,!?;:]+$/g, '')
+  const words = normalized
+    .split(/\s+/)
+    .filter(word => !language.choiceFillers.includes(word) || normalized === word)
+
+  const choice = words.length === 1 ? wordValue(language.choices, words[0]) : undefined
+  if (choice !== undefined) {
+    const resolved = choice === -1 ? options.length - 1 : choice
+    return resolved < options.length ? resolved : null
+  }
+
+  const result = findItemMatch(words.join(' '), options.map((name, index) => ({ name, index })), language)
+  return result.kind === 'match' && result.items.length === 1 ? result.items[0].index : null
+}
+
+/** What an utterance heard in shopping mode asks for */
+export type WakeUtterance = { kind: 'command'; text: string } | { kind: 'stop' }
+
+/**
+ * Read an utterance heard in hands-free shopping mode. Only speech that
+ * starts with the wake phrase is a command ("hopper, got the eggs" → "got
+ * the eggs"); a stop phrase ("I'm done") ends the mode with or without it.
+ * Returns null for anything else: it wasn't meant for us.
+ */
+export function readWakeUtterance(transcript: string, language: LanguagePack = ENGLISH): WakeUtterance | null {
+  // Recognizers punctuate freely ("Hey, Hopper. Add milk, eggs")
+  const wakePhrases = alternation(language.wakePhrases).replace(/\\s\+/g, '[\\s,]+')
+  const wake = transcript.match(new RegExp(`^[\\s¿¡]*(?:${wakePhrases})(?![\\p{L}'])[\\s.,!?;:]*`, 'iu'))
+  const text = (wake ? transcript.slice(wake[0].length) : transcript).trim()
+
+  const phrase = text
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .replace(/[.,!?¿¡;:]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  if (language.stopPhrases.includes(phrase)) return { kind: 'stop' }
+  if (!wake || !phrase) return null
+  return { kind: 'command', text }
+}
+
+/**
+ * Quantity columns for a parsed item. A spoken unit is already normalized;
+ * a bare number above one is a plain count ("add one apple" stores none).
+ */
+export function itemQuantityFields(item: ParsedItem): QuantityFields {
+  if (item.quantity && item.unit) {
+    return { quantity_value: item.quantity, quantity_unit: item.unit }
+  }
+  if (item.quantity && item.quantity > 1) {
+    return { quantity_value: item.quantity, quantity_unit: 'count' }
+  }
+  return { quantity_value: null, quantity_unit: null }
+}
+
 /**
  * Capitalize first letter of each word
  */
@@ -235,16 +850,32 @@ function capitalize(text: string): string {
  * Format parsed command for display
  */
 export function formatCommandSummary(command: ParsedCommand): string {
+  const [first] = command.items
+  const target = first && (first.previous ? 'that' : first.name)
+
+  switch (command.action) {
+    case 'set_quantity':
+      return `Changed ${target} to ${formatQuantity(first.quantity ?? null, first.unit ?? 'count')}`
+    case 'rename':
+      return `Renamed ${target} to ${first.newName}`
+    case 'add_note':
+      return `Added a note to ${target}: ${first.note}`
+    case 'query':
+      return `Asked "${command.raw}"`
+    case 'move':
+      return `Moved ${command.items.map(item => item.name).join(', ')} to ${command.destinationList ?? 'another list'}`
+  }
+
   const action = command.action === 'complete' ? 'Checked off' :
                  command.action === 'uncomplete' ? 'Unchecked' :
                  command.action === 'remove' ? 'Removed' :
                  'Added'
 
   const itemsList = command.items.map(item => {
-    if (item.quantity && item.unit) {
-      return `${item.quantity} ${item.unit} of ${item.name}`
+    if (item.quantity && item.unit && item.unit !== 'count') {
+      return `${formatQuantity(item.quantity, item.unit)} of ${item.name}`
     } else if (item.quantity) {
-      return `${item.quantity} ${item.name}`
+      return `${formatQuantity(item.quantity, null)} ${item.name}`
     } else {
       return item.name
     }
@@ -0,0 +1,127 @@
+-- ============================================================================
+-- GROCERYHOPPER - Structured Item Quantities
+-- ============================================================================
+-- This migration:
+--   1. Adds quantity_value (numeric) and quantity_unit (normalized unit) to
+--      list_items
+--   2. Backfills them by parsing the free-text quantity column
+--   3. Moves quantities that can't be parsed into notes, then drops the
+--      old quantity column
+--
+-- Canonical units must stay in sync with QUANTITY_UNITS in lib/units.ts
+-- ============================================================================
+
+-- ============================================================================
+-- 1. ADD STRUCTURED COLUMNS
+-- ============================================================================
+
+ALTER TABLE public.list_items
+ADD COLUMN IF NOT EXISTS quantity_value NUMERIC,
+ADD COLUMN IF NOT EXISTS quantity_unit TEXT;
+
+-- ============================================================================
+-- 2. BACKFILL FROM FREE-TEXT QUANTITIES
+-- ============================================================================
+-- Accepts "3", "1.5 lbs", "2 cans", "1/2 cup". A bare number is a count.
+
+WITH parsed AS (
+  SELECT
+    id,
+    regexp_match(
+      lower(trim(quantity)),
+      '^(\d+(?:\.\d+)?|\.\d+|\d+/\d+)\s*([a-z_. ]*)$'
+    ) AS m
+  FROM public.list_items
+  WHERE quantity IS NOT NULL
+),
+normalized AS (
+  SELECT
+    id,
+    CASE
+      WHEN m[1] LIKE '%/%' AND split_part(m[1], '/', 2)::numeric > 0
+        THEN split_part(m[1], '/', 1)::numeric / split_part(m[1], '/', 2)::numeric
+      WHEN m[1] NOT LIKE '%/%'
+        THEN m[1]::numeric
+    END AS value,
+    CASE rtrim(trim(m[2]), '.')
+      WHEN '' THEN 'count'
+      WHEN 'count' THEN 'count' WHEN 'ct' THEN 'count' WHEN 'x' THEN 'count'
+      WHEN 'each' THEN 'count' WHEN 'ea' THEN 'count' WHEN 'item' THEN 'count'
+      WHEN 'items' THEN 'count' WHEN 'pc' THEN 'count' WHEN 'pcs' THEN 'count'
+      WHEN 'lb' THEN 'lb' WHEN 'lbs' THEN 'lb' WHEN 'pound' THEN 'lb' WHEN 'pounds' THEN 'lb'
+      WHEN 'oz' THEN 'oz' WHEN 'ounce' THEN 'oz' WHEN 'ounces' THEN 'oz'
+      WHEN 'g' THEN 'g' WHEN 'gram' THEN 'g' WHEN 'grams' THEN 'g'
+      WHEN 'kg' THEN 'kg' WHEN 'kilo' THEN 'kg' WHEN 'kilos' THEN 'kg'
+      WHEN 'kilogram' THEN 'kg' WHEN 'kilograms' THEN 'kg'
+      WHEN 'gal' THEN 'gal' WHEN 'gallon' THEN 'gal' WHEN 'gallons' THEN 'gal'
+      WHEN 'qt' THEN 'qt' WHEN 'quart' THEN 'qt' WHEN 'quarts' THEN 'qt'
+      WHEN 'pt' THEN 'pt' WHEN 'pint' THEN 'pt' WHEN 'pints' THEN 'pt'
+      WHEN 'cup' THEN 'cup' WHEN 'cups' THEN 'cup'
+      WHEN 'fl oz' THEN 'fl_oz' WHEN 'fl_oz' THEN 'fl_oz'
+      WHEN 'l' THEN 'l' WHEN 'liter' THEN 'l' WHEN 'liters' THEN 'l'
+      WHEN 'litre' THEN 'l' WHEN 'litres' THEN 'l'
+      WHEN 'ml' THEN 'ml' WHEN 'milliliter' THEN 'ml' WHEN 'milliliters' THEN 'ml'
+      WHEN 'tbsp' THEN 'tbsp' WHEN 'tablespoon' THEN 'tbsp' WHEN 'tablespoons' THEN 'tbsp'
+      WHEN 'tsp' THEN 'tsp' WHEN 'teaspoon' THEN 'tsp' WHEN 'teaspoons' THEN 'tsp'
+      WHEN 'can' THEN 'can' WHEN 'cans' THEN 'can'
+      WHEN 'box' THEN 'box' WHEN 'boxes' THEN 'box'
+      WHEN 'bag' THEN 'bag' WHEN 'bags' THEN 'bag'
+      WHEN 'bottle' THEN 'bottle' WHEN 'bottles' THEN 'bottle'
+      WHEN 'jar' THEN 'jar' WHEN 'jars' THEN 'jar'
+      WHEN 'pack' THEN 'pack' WHEN 'packs' THEN 'pack'
+      WHEN 'package' THEN 'pack' WHEN 'packages' THEN 'pack'
+      WHEN 'bunch' THEN 'bunch' WHEN 'bunches' THEN 'bunch'
+      WHEN 'dozen' THEN 'dozen'
+    END AS unit
+  FROM parsed
+  WHERE m IS NOT NULL
+)
+UPDATE public.list_items li
+SET quantity_value = n.value,
+    quantity_unit = n.unit
+FROM normalized n
+WHERE li.id = n.id
+AND n.value > 0
+AND n.unit IS NOT NULL;
+
+-- ============================================================================
+-- 3. PRESERVE UNPARSEABLE QUANTITIES IN NOTES
+-- ============================================================================
+-- e.g. "a few", "family size" - keep the text rather than losing it
+
+UPDATE public.list_items
+SET notes = CASE
+  WHEN notes IS NULL OR trim(notes) = '' THEN trim(quantity)
+  ELSE trim(quantity) || ' - ' || notes
+END
+WHERE quantity IS NOT NULL
+AND trim(quantity) <> ''
+AND quantity_value IS NULL;
+
+ALTER TABLE public.list_items
+DROP COLUMN IF EXISTS quantity;
+
+-- ============================================================================
+-- 4. CONSTRAINTS
+-- ============================================================================
+
+ALTER TABLE public.list_items
+ADD CONSTRAINT list_items_quantity_unit_check CHECK (
+  quantity_unit IN (
+    'count',
+    'lb', 'oz', 'g', 'kg',
+    'gal', 'qt', 'pt', 'cup', 'fl_oz', 'l', 'ml', 'tbsp', 'tsp',
+    'can', 'box', 'bag', 'bottle', 'jar', 'pack', 'bunch', 'dozen'
+  )
+);
+
+-- Value and unit are set together or not at all
+ALTER TABLE public.list_items
+ADD CONSTRAINT list_items_quantity_pair_check CHECK (
+  (quantity_value IS NULL) = (quantity_unit IS NULL)
+);
+
+ALTER TABLE public.list_items
+ADD CONSTRAINT list_items_quantity_positive CHECK (
+  quantity_value IS NULL OR quantity_value > 0
+);
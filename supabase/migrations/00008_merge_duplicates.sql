@@ -0,0 +1,10 @@
+-- ============================================================================
+-- GROCERYHOPPER - Duplicate Item Merging
+-- ============================================================================
+-- Per-list setting for merging re-added items into an existing unchecked
+-- item of the same name (see addOrMergeItems in lib/list-items.ts).
+-- On by default; owners can turn it off from the list settings.
+-- ============================================================================
+
+ALTER TABLE public.grocery_lists
+ADD COLUMN IF NOT EXISTS merge_duplicates BOOLEAN NOT NULL DEFAULT TRUE;
@@ -0,0 +1,39 @@
+-- ============================================================================
+-- GROCERYHOPPER - Undoable Operations
+-- ============================================================================
+-- Records each mutating voice command and bulk operation together with the
+-- before-state needed to reverse it (see lib/operations.ts):
+--   inverse.deleteIds   - rows the operation inserted
+--   inverse.restoreRows - full rows as they were before it deleted or
+--                         updated them
+-- POST /api/operations/{id}/undo applies the inverse once and stamps
+-- undone_at. Only the user who performed an operation can undo it.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.operations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  list_id UUID NOT NULL REFERENCES public.grocery_lists(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('voice_command', 'clear_checked')),
+  summary TEXT NOT NULL,
+  inverse JSONB NOT NULL,
+  undone_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_operations_user_id ON public.operations(user_id);
+CREATE INDEX IF NOT EXISTS idx_operations_list_id ON public.operations(list_id);
+
+ALTER TABLE public.operations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own operations"
+  ON public.operations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own operations"
+  ON public.operations FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own operations"
+  ON public.operations FOR UPDATE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- GROCERYHOPPER - Voice Language
+-- ============================================================================
+-- Per-user language for voice commands. Speech recognition and the voice
+-- parser both follow it (see lib/language-packs.ts). Users change it from
+-- the Profile dialog; existing profiles stay on English.
+-- ============================================================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS voice_language TEXT NOT NULL DEFAULT 'en';
+
+ALTER TABLE public.profiles
+DROP CONSTRAINT IF EXISTS profiles_voice_language_check;
+
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_voice_language_check CHECK (voice_language IN ('en', 'es'));
@@ -0,0 +1,49 @@
+-- ============================================================================
+-- GROCERYHOPPER - Voice Command History
+-- ============================================================================
+-- One row per voice request (see lib/voice-history.ts):
+--   raw_transcript     - the recognition alternative as the browser heard it
+--   cleaned_transcript - the same text as handed to the parser
+--   parsed             - the parsed commands (ParsedCommand[] as JSON)
+--   outcome            - applied, answered, clarification, previewed, failed
+--   item_ids           - list_items the request added, changed or removed
+-- Users see their history in the Voice history view, where they can re-run
+-- a command or correct it. A correction stores the text the user meant and
+-- the parse they confirmed for it; corrected rows export as test cases for
+-- lib/voice-parser.ts.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.voice_commands (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  list_id UUID REFERENCES public.grocery_lists(id) ON DELETE SET NULL,
+  language TEXT NOT NULL DEFAULT 'en',
+  raw_transcript TEXT NOT NULL,
+  cleaned_transcript TEXT NOT NULL,
+  parsed JSONB NOT NULL DEFAULT '[]'::jsonb,
+  outcome TEXT NOT NULL CHECK (outcome IN ('applied', 'answered', 'clarification', 'previewed', 'failed')),
+  message TEXT,
+  error TEXT,
+  item_ids UUID[] NOT NULL DEFAULT '{}',
+  operation_id UUID REFERENCES public.operations(id) ON DELETE SET NULL,
+  corrected_transcript TEXT,
+  corrected_parsed JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_voice_commands_user_created
+  ON public.voice_commands(user_id, created_at DESC);
+
+ALTER TABLE public.voice_commands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own voice commands"
+  ON public.voice_commands FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own voice commands"
+  ON public.voice_commands FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own voice commands"
+  ON public.voice_commands FOR UPDATE
+  USING (auth.uid() = user_id);
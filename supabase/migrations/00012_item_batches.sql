@@ -0,0 +1,118 @@
+-- ============================================================================
+-- GROCERYHOPPER - Batch Item Operations
+-- ============================================================================
+-- apply_item_batch(ops) runs list_items creates, updates and deletes in one
+-- transaction (see applyItemBatch in lib/list-items.ts). Each op is one of:
+--   {"op": "create", "item": {"list_id": ..., "name": ..., ...}}
+--   {"op": "update", "id": ..., "changes": {"is_checked": ..., ...}}
+--   {"op": "delete", "id": ...}
+-- and gets one result, in order:
+--   item     - the row as written (for deletes, the row that was removed)
+--   previous - the row before an update
+-- If any op fails the whole batch rolls back, and the error detail is the
+-- index of the op that failed. The function runs as the caller, so the
+-- list_items RLS policies still apply.
+--
+-- Batches are recorded in the operations table for undo.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_item_batch(ops JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  op JSONB;
+  idx INTEGER := 0;
+  before_row public.list_items;
+  after_row public.list_items;
+  results JSONB := '[]'::jsonb;
+BEGIN
+  FOR op IN SELECT value FROM jsonb_array_elements(ops) LOOP
+    BEGIN
+      CASE op->>'op'
+        WHEN 'create' THEN
+          INSERT INTO public.list_items (
+            list_id, user_id, name, quantity_value, quantity_unit, notes, category_id, is_checked
+          )
+          VALUES (
+            (op->'item'->>'list_id')::uuid,
+            auth.uid(),
+            op->'item'->>'name',
+            (op->'item'->>'quantity_value')::numeric,
+            op->'item'->>'quantity_unit',
+            op->'item'->>'notes',
+            (op->'item'->>'category_id')::uuid,
+            COALESCE((op->'item'->>'is_checked')::boolean, FALSE)
+          )
+          RETURNING * INTO after_row;
+
+          results := results || jsonb_build_array(jsonb_build_object('item', to_jsonb(after_row)));
+
+        WHEN 'update' THEN
+          SELECT * INTO before_row
+          FROM public.list_items
+          WHERE id = (op->>'id')::uuid
+          FOR UPDATE;
+
+          IF NOT FOUND THEN
+            RAISE EXCEPTION 'Item not found';
+          END IF;
+
+          -- Only the keys present in changes are replaced
+          after_row := jsonb_populate_record(before_row, op->'changes');
+
+          UPDATE public.list_items SET
+            name = after_row.name,
+            quantity_value = after_row.quantity_value,
+            quantity_unit = after_row.quantity_unit,
+            notes = after_row.notes,
+            category_id = after_row.category_id,
+            is_checked = after_row.is_checked
+          WHERE id = before_row.id
+          RETURNING * INTO after_row;
+
+          IF NOT FOUND THEN
+            RAISE EXCEPTION 'Item not found';
+          END IF;
+
+          results := results || jsonb_build_array(
+            jsonb_build_object('item', to_jsonb(after_row), 'previous', to_jsonb(before_row))
+          );
+
+        WHEN 'delete' THEN
+          DELETE FROM public.list_items
+          WHERE id = (op->>'id')::uuid
+          RETURNING * INTO after_row;
+
+          IF NOT FOUND THEN
+            RAISE EXCEPTION 'Item not found';
+          END IF;
+
+          results := results || jsonb_build_array(jsonb_build_object('item', to_jsonb(after_row)));
+
+        ELSE
+          RAISE EXCEPTION 'Unknown operation "%"', op->>'op';
+      END CASE;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION 'Operation % failed: %', idx + 1, SQLERRM
+        USING ERRCODE = SQLSTATE, DETAIL = idx::text;
+    END;
+
+    idx := idx + 1;
+  END LOOP;
+
+  RETURN results;
+END;
+$$;
+
+-- ============================================================================
+-- UNDO LOG
+-- ============================================================================
+
+ALTER TABLE public.operations
+DROP CONSTRAINT IF EXISTS operations_kind_check;
+
+ALTER TABLE public.operations
+ADD CONSTRAINT operations_kind_check CHECK (kind IN ('voice_command', 'clear_checked', 'batch'));
@@ -0,0 +1,80 @@
+-- ============================================================================
+-- GROCERYHOPPER - Item Catalog
+-- ============================================================================
+-- Every item a user adds, across all their lists, for autocomplete in the
+-- add-item form (see lib/item-catalog.ts):
+--   name_key      - itemNameKey(name): case- and plural-insensitive
+--   name          - the name as last added
+--   quantity_*    - the quantity last added
+--   category_name - the category it was last filed under. A name, since
+--                   categories belong to one list
+--   use_count     - how many times it has been added
+-- record_catalog_items(entries) upserts a batch of adds, bumping use_count
+-- in the same statement so concurrent adds aren't lost. It runs as the
+-- caller, so the RLS policies below apply.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.item_catalog (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  quantity_value NUMERIC,
+  quantity_unit TEXT,
+  category_name TEXT,
+  use_count INTEGER NOT NULL DEFAULT 1,
+  last_used_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  UNIQUE (user_id, name_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_catalog_user_used
+  ON public.item_catalog(user_id, use_count DESC);
+
+ALTER TABLE public.item_catalog ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own catalog"
+  ON public.item_catalog FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add to own catalog"
+  ON public.item_catalog FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own catalog"
+  ON public.item_catalog FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- RECORDING ADDS
+-- ============================================================================
+-- entries: [{"name_key", "name", "quantity_value", "quantity_unit",
+-- "category_name"}], one per distinct name_key
+
+CREATE OR REPLACE FUNCTION public.record_catalog_items(entries JSONB)
+RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  INSERT INTO public.item_catalog (
+    user_id, name_key, name, quantity_value, quantity_unit, category_name
+  )
+  SELECT
+    auth.uid(),
+    entry->>'name_key',
+    entry->>'name',
+    (entry->>'quantity_value')::numeric,
+    entry->>'quantity_unit',
+    entry->>'category_name'
+  FROM jsonb_array_elements(entries) AS entry
+  ON CONFLICT (user_id, name_key) DO UPDATE SET
+    name = EXCLUDED.name,
+    quantity_value = EXCLUDED.quantity_value,
+    quantity_unit = EXCLUDED.quantity_unit,
+    -- An add without a category keeps the one it was filed under before
+    category_name = COALESCE(EXCLUDED.category_name, item_catalog.category_name),
+    use_count = item_catalog.use_count + 1,
+    last_used_at = NOW();
+$$;
@@ -0,0 +1,18 @@
+-- ============================================================================
+-- GROCERYHOPPER - Automatic Categories
+-- ============================================================================
+-- Items added without a category are filed using the built-in grocery
+-- taxonomy (see lib/grocery-taxonomy.ts), which maps item names to store
+-- departments. A department goes to the list category with a matching
+-- name, or one of its aliases:
+--   categories.aliases            - other names a category answers to,
+--                                   e.g. "Dairy" for a "Cold Stuff" category
+--   grocery_lists.auto_categorize - per-list setting; on by default, owners
+--                                   can turn it off from the list settings
+-- ============================================================================
+
+ALTER TABLE public.grocery_lists
+ADD COLUMN IF NOT EXISTS auto_categorize BOOLEAN NOT NULL DEFAULT TRUE;
+
+ALTER TABLE public.categories
+ADD COLUMN IF NOT EXISTS aliases TEXT[] NOT NULL DEFAULT '{}';
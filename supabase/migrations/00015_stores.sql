@@ -0,0 +1,102 @@
+-- ============================================================================
+-- GROCERYHOPPER - Stores and Shopping Routes
+-- ============================================================================
+-- A store's layout is its sections in walking order, for sorting a list
+-- into a shopping route (see lib/store-route.ts):
+--   stores.layout            - section names, e.g. "Produce" or "Aisle 5".
+--                              Names rather than category ids, since
+--                              categories belong to one list
+--   grocery_lists.store_id   - the store a list is usually shopped at. Set
+--                              by the list owner; a single trip can use
+--                              another store instead
+--   shopping_trips           - one visit to a store with a list.
+--                              check_order is the section of each item
+--                              checked off, in order. When the trip ends
+--                              the store's layout learns from it
+-- A store is readable and its layout updatable by anyone sharing a list
+-- it's attached to, so route sorting and learning work for shared lists.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.stores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  layout TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_stores_user_id ON public.stores(user_id);
+
+CREATE TRIGGER set_updated_at
+  BEFORE UPDATE ON public.stores
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.grocery_lists
+ADD COLUMN IF NOT EXISTS store_id UUID REFERENCES public.stores(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_grocery_lists_store_id ON public.grocery_lists(store_id);
+
+ALTER TABLE public.stores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own and shared list stores"
+  ON public.stores FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.grocery_lists gl
+      JOIN public.list_shares ls ON ls.list_id = gl.id
+      WHERE gl.store_id = stores.id AND ls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create own stores"
+  ON public.stores FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own and shared list stores"
+  ON public.stores FOR UPDATE
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.grocery_lists gl
+      JOIN public.list_shares ls ON ls.list_id = gl.id
+      WHERE gl.store_id = stores.id AND ls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own stores"
+  ON public.stores FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- SHOPPING TRIPS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.shopping_trips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  list_id UUID NOT NULL REFERENCES public.grocery_lists(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  check_order TEXT[] NOT NULL DEFAULT '{}',
+  started_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  ended_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_shopping_trips_open
+  ON public.shopping_trips(user_id, list_id) WHERE ended_at IS NULL;
+
+ALTER TABLE public.shopping_trips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own trips"
+  ON public.shopping_trips FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own trips"
+  ON public.shopping_trips FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own trips"
+  ON public.shopping_trips FOR UPDATE
+  USING (auth.uid() = user_id);
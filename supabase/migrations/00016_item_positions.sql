@@ -0,0 +1,15 @@
+-- ============================================================================
+-- GROCERYHOPPER - Manual Item Order
+-- ============================================================================
+-- list_items.position is a fractional index (see lib/item-order.ts): a key
+-- that sorts between its neighbours' keys, so a reorder rewrites only the
+-- moved item. NULL until an item is first moved; unmoved items sort first,
+-- newest first, as the list always has:
+--   ORDER BY position NULLS FIRST, created_at DESC
+-- The "C" collation compares keys byte by byte, the same way the app does.
+-- ============================================================================
+
+ALTER TABLE public.list_items
+ADD COLUMN IF NOT EXISTS position TEXT COLLATE "C";
+
+CREATE INDEX IF NOT EXISTS idx_list_items_position ON public.list_items(list_id, position);
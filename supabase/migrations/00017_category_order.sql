@@ -0,0 +1,20 @@
+-- ============================================================================
+-- GROCERYHOPPER - Category Order
+-- ============================================================================
+-- categories.sort_order is the order a list's categories are shown in,
+-- set from the categories dialog (see lib/categories.ts). New categories
+-- go last. Existing ones start out alphabetical, as they were shown.
+-- ============================================================================
+
+ALTER TABLE public.categories
+ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.categories c
+SET sort_order = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY list_id ORDER BY name) - 1 AS position
+  FROM public.categories
+) ordered
+WHERE c.id = ordered.id;
+
+CREATE INDEX IF NOT EXISTS idx_categories_list_order ON public.categories(list_id, sort_order);
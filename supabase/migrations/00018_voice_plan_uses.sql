@@ -0,0 +1,32 @@
+-- ============================================================================
+-- GROCERYHOPPER - Single-Use Voice Previews
+-- ============================================================================
+-- A voice preview's plan token (POST /api/voice-command/preview) carries a
+-- random nonce. Confirming it inserts the nonce here before anything is
+-- written, so a double tap or a network retry finds it taken and applies
+-- nothing (see applyVoicePlans in lib/voice-commands.ts). An apply that
+-- fails and rolls back deletes its row again, so the user can retry.
+-- Tokens expire after five minutes; older rows only keep them used.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.voice_plan_uses (
+  nonce UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_voice_plan_uses_user_id ON public.voice_plan_uses(user_id);
+
+ALTER TABLE public.voice_plan_uses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own plan uses"
+  ON public.voice_plan_uses FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own plan uses"
+  ON public.voice_plan_uses FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own plan uses"
+  ON public.voice_plan_uses FOR DELETE
+  USING (auth.uid() = user_id);
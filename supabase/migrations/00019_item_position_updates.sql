@@ -0,0 +1,34 @@
+-- ============================================================================
+-- GROCERYHOPPER - Atomic Item Position Updates
+-- ============================================================================
+-- set_item_positions(target_list, updates) writes the positions a reorder
+-- computed (see reorderItem in lib/list-items.ts) in one statement, so a
+-- move that also places unmoved items, or respaces the whole list, lands
+-- all at once or not at all. updates is [{"id": ..., "position": ...}];
+-- every id must be on target_list. Returns the rows written. The function
+-- runs as the caller, so the list_items RLS policies still apply.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_item_positions(target_list UUID, updates JSONB)
+RETURNS SETOF public.list_items
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  written INTEGER;
+BEGIN
+  RETURN QUERY
+  UPDATE public.list_items AS item
+  SET position = moved.position
+  FROM jsonb_to_recordset(updates) AS moved(id UUID, position TEXT)
+  WHERE item.id = moved.id
+    AND item.list_id = target_list
+  RETURNING item.*;
+
+  GET DIAGNOSTICS written = ROW_COUNT;
+  IF written <> jsonb_array_length(updates) THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+END;
+$$;
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- GROCERYHOPPER - Atomic Trip Check-Offs
+-- ============================================================================
+-- record_trip_section(trip_id, section) appends a section to an open trip's
+-- check_order (see PATCH /api/stores/trips) in one statement, unless it's
+-- already the last one: only the order sections are entered in matters.
+-- Two check-offs arriving together can't drop or repeat a section the way
+-- reading the array and writing it back could. Returns check_order as it
+-- stands afterwards. The function runs as the caller, so the
+-- shopping_trips RLS policies still apply.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_trip_section(trip_id UUID, section TEXT)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  result TEXT[];
+BEGIN
+  UPDATE public.shopping_trips AS trip
+  SET check_order = array_append(trip.check_order, section)
+  WHERE trip.id = trip_id
+    AND trip.ended_at IS NULL
+    AND trip.check_order[cardinality(trip.check_order)] IS DISTINCT FROM section
+  RETURNING trip.check_order INTO result;
+
+  IF NOT FOUND THEN
+    SELECT trip.check_order INTO result
+    FROM public.shopping_trips AS trip
+    WHERE trip.id = trip_id;
+  END IF;
+
+  RETURN result;
+END;
+$$;
@@ -0,0 +1,64 @@
+-- ============================================================================
+-- GROCERYHOPPER - Item Catalog Search
+-- ============================================================================
+-- search_item_catalog(query, max_rows) picks the caller's catalog entries
+-- worth ranking for the add-item form (see GET /api/items/suggest). Match
+-- strength is worked out here the same way rankSuggestions does it: the
+-- name starts with the text, then a word of it does, then it merely
+-- contains it. Within the strongest matches it takes the max_rows most
+-- used plus the max_rows most recently used, so an item added often
+-- lately isn't crowded out by old favourites before the app weighs both.
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_item_catalog_user_last_used
+  ON public.item_catalog(user_id, last_used_at DESC);
+
+CREATE OR REPLACE FUNCTION public.search_item_catalog(query TEXT, max_rows INTEGER)
+RETURNS TABLE (
+  name TEXT,
+  quantity_value NUMERIC,
+  quantity_unit TEXT,
+  category_name TEXT,
+  use_count INTEGER,
+  last_used_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH typed AS (
+    -- \ % and _ are special in a LIKE pattern
+    SELECT regexp_replace(lower(trim(query)), '([\\%_])', '\\\1', 'g') AS text
+  ),
+  matches AS (
+    SELECT
+      entry.name,
+      entry.quantity_value,
+      entry.quantity_unit,
+      entry.category_name,
+      entry.use_count,
+      entry.last_used_at,
+      CASE
+        WHEN lower(entry.name) LIKE typed.text || '%' THEN 3
+        WHEN lower(entry.name) LIKE '% ' || typed.text || '%' THEN 2
+        ELSE 1
+      END AS strength
+    FROM public.item_catalog AS entry, typed
+    WHERE entry.user_id = auth.uid()
+      AND lower(entry.name) LIKE '%' || typed.text || '%'
+  )
+  (
+    SELECT name, quantity_value, quantity_unit, category_name, use_count, last_used_at
+    FROM matches
+    ORDER BY strength DESC, use_count DESC
+    LIMIT max_rows
+  )
+  UNION
+  (
+    SELECT name, quantity_value, quantity_unit, category_name, use_count, last_used_at
+    FROM matches
+    ORDER BY strength DESC, last_used_at DESC
+    LIMIT max_rows
+  );
+$$;
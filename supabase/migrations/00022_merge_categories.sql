@@ -0,0 +1,69 @@
+-- ============================================================================
+-- GROCERYHOPPER - Category Merge
+-- ============================================================================
+-- merge_categories(source_id, target_id, keep_aliases) merges one category
+-- into another on the same list in one transaction (see mergeCategories in
+-- lib/categories.ts): the source's items move to the target, then the
+-- source is deleted. With keep_aliases, the target also takes on the
+-- source's name and aliases as aliases, skipping names it already answers
+-- to (case-insensitively), so items are still filed and routed under it.
+-- Deleting a category is for list owners only. Errors:
+--   P0002 - a category wasn't found
+--   22023 - the categories are on different lists
+--   42501 - the caller doesn't own the list
+-- Returns how many items moved. The function runs as the caller, so the
+-- RLS policies still apply.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.merge_categories(source_id UUID, target_id UUID, keep_aliases BOOLEAN)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  source public.categories;
+  target public.categories;
+  moved INTEGER;
+BEGIN
+  SELECT * INTO source FROM public.categories WHERE id = source_id FOR UPDATE;
+  SELECT * INTO target FROM public.categories WHERE id = target_id FOR UPDATE;
+
+  IF source.id IS NULL OR target.id IS NULL THEN
+    RAISE EXCEPTION 'Category not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF source.list_id <> target.list_id THEN
+    RAISE EXCEPTION 'Categories must be on the same list' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.list_shares
+    WHERE list_id = source.list_id AND user_id = auth.uid() AND role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'Only the list owner can remove categories' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.list_items SET category_id = target.id WHERE category_id = source.id;
+  GET DIAGNOSTICS moved = ROW_COUNT;
+
+  IF keep_aliases THEN
+    UPDATE public.categories SET aliases = target.aliases || ARRAY(
+      SELECT trim(added.name)
+      FROM unnest(array_prepend(source.name, source.aliases)) WITH ORDINALITY AS added(name, n)
+      WHERE trim(added.name) <> ''
+        AND lower(trim(added.name)) <> lower(target.name)
+        AND lower(trim(added.name)) <> ALL (SELECT lower(alias) FROM unnest(target.aliases) AS alias)
+      ORDER BY added.n
+    )
+    WHERE id = target.id;
+  END IF;
+
+  DELETE FROM public.categories WHERE id = source.id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the list owner can remove categories' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN moved;
+END;
+$$;
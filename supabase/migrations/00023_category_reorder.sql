@@ -0,0 +1,48 @@
+-- ============================================================================
+-- GROCERYHOPPER - Atomic Category Reorder
+-- ============================================================================
+-- set_category_order(target_list, ids) puts a list's categories in the
+-- given order in one statement (see reorderCategories in
+-- lib/categories.ts): sort_order becomes each id's index in ids. ids must
+-- be exactly the list's categories, checked with them locked, so a reorder
+-- based on a stale view fails with 40001 instead of being half applied.
+-- The function runs as the caller, so the categories RLS policies still
+-- apply.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_category_order(target_list UUID, ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  existing UUID[];
+  written INTEGER;
+BEGIN
+  SELECT COALESCE(array_agg(category.id), '{}') INTO existing
+  FROM (
+    SELECT id FROM public.categories WHERE list_id = target_list FOR UPDATE
+  ) AS category;
+
+  IF cardinality(ids) <> cardinality(existing)
+    OR (SELECT COUNT(DISTINCT id) FROM unnest(ids) AS id) <> cardinality(ids)
+    OR NOT ids <@ existing
+  THEN
+    RAISE EXCEPTION 'Categories changed since they were loaded - refresh and try again'
+      USING ERRCODE = '40001';
+  END IF;
+
+  UPDATE public.categories AS category
+  SET sort_order = ordered.n - 1
+  FROM unnest(ids) WITH ORDINALITY AS ordered(id, n)
+  WHERE category.id = ordered.id
+    AND category.list_id = target_list;
+
+  GET DIAGNOSTICS written = ROW_COUNT;
+  IF written <> cardinality(ids) THEN
+    RAISE EXCEPTION 'Categories changed since they were loaded - refresh and try again'
+      USING ERRCODE = '40001';
+  END IF;
+END;
+$$;
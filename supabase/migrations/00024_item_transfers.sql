@@ -0,0 +1,113 @@
+-- ============================================================================
+-- GROCERYHOPPER - Atomic Item Transfers
+-- ============================================================================
+-- Moving or copying items to another list (see transferItems in
+-- lib/list-items.ts) needs their categories on the target list, matched by
+-- name case-insensitively and created there when missing.
+--   remap_categories(source_ids, target_list) - one row per source category:
+--     the target list's category it maps to, and whether it was created.
+--     Created categories keep the source's color and icon and go after the
+--     target list's own.
+--   move_items(item_ids, target_list) - remaps the items' categories and
+--     moves the items in one transaction, so a failure leaves neither moved
+--     items nor empty categories behind. Moved items lose their position,
+--     arriving at the top of the target list like new ones. Returns
+--     {"items": [...], "created_categories": [...]}.
+-- Both run as the caller, so the RLS policies still apply.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.remap_categories(source_ids UUID[], target_list UUID)
+RETURNS TABLE (source_id UUID, id UUID, name TEXT, color TEXT, icon TEXT, created BOOLEAN)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  source public.categories;
+  target public.categories;
+  next_order INTEGER;
+BEGIN
+  SELECT COALESCE(MAX(sort_order) + 1, 0) INTO next_order
+  FROM public.categories
+  WHERE list_id = target_list;
+
+  FOR source IN SELECT * FROM public.categories WHERE id = ANY(source_ids) ORDER BY name LOOP
+    IF source.list_id = target_list THEN
+      target := source;
+      created := FALSE;
+    ELSE
+      SELECT * INTO target
+      FROM public.categories
+      WHERE list_id = target_list AND lower(name) = lower(source.name)
+      ORDER BY sort_order
+      LIMIT 1;
+
+      created := NOT FOUND;
+      IF created THEN
+        INSERT INTO public.categories (name, color, icon, sort_order, list_id, user_id)
+        VALUES (source.name, source.color, source.icon, next_order, target_list, auth.uid())
+        RETURNING * INTO target;
+        next_order := next_order + 1;
+      END IF;
+    END IF;
+
+    source_id := source.id;
+    id := target.id;
+    name := target.name;
+    color := target.color;
+    icon := target.icon;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.move_items(item_ids UUID[], target_list UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  mapping JSONB;
+  created JSONB;
+  moved JSONB;
+  written INTEGER;
+BEGIN
+  SELECT
+    COALESCE(jsonb_object_agg(remap.source_id, remap.id), '{}'::jsonb),
+    COALESCE(
+      jsonb_agg(jsonb_build_object('id', remap.id, 'name', remap.name, 'color', remap.color, 'icon', remap.icon))
+        FILTER (WHERE remap.created),
+      '[]'::jsonb
+    )
+  INTO mapping, created
+  FROM public.remap_categories(
+    ARRAY(
+      SELECT DISTINCT item.category_id
+      FROM public.list_items AS item
+      WHERE item.id = ANY(item_ids) AND item.category_id IS NOT NULL
+    ),
+    target_list
+  ) AS remap;
+
+  WITH updated AS (
+    UPDATE public.list_items AS item
+    SET
+      list_id = target_list,
+      category_id = (mapping->>(item.category_id::text))::uuid,
+      position = NULL
+    WHERE item.id = ANY(item_ids)
+    RETURNING item.*
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(updated)), '[]'::jsonb), COUNT(*)
+  INTO moved, written
+  FROM updated;
+
+  IF written <> cardinality(item_ids) THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  RETURN jsonb_build_object('items', moved, 'created_categories', created);
+END;
+$$;
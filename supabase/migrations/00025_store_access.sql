@@ -0,0 +1,39 @@
+-- ============================================================================
+-- GROCERYHOPPER - Store Access Through Lists
+-- ============================================================================
+-- Sharing a list shares the store it's attached to, so members can sort
+-- by its layout and teach it (see 00015_stores.sql). Only the store's
+-- owner attaching it to their own list grants that: pointing a list at
+-- someone else's store no longer opens it up to the list's members, the
+-- list owner included. PATCH /api/lists also refuses stores the caller
+-- can't see.
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can view own and shared list stores" ON public.stores;
+DROP POLICY IF EXISTS "Users can update own and shared list stores" ON public.stores;
+
+CREATE POLICY "Users can view own and shared list stores"
+  ON public.stores FOR SELECT
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.grocery_lists gl
+      JOIN public.list_shares ls ON ls.list_id = gl.id
+      WHERE gl.store_id = stores.id
+        AND gl.user_id = stores.user_id
+        AND ls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own and shared list stores"
+  ON public.stores FOR UPDATE
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.grocery_lists gl
+      JOIN public.list_shares ls ON ls.list_id = gl.id
+      WHERE gl.store_id = stores.id
+        AND gl.user_id = stores.user_id
+        AND ls.user_id = auth.uid()
+    )
+  );
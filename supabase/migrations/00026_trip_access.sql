@@ -0,0 +1,24 @@
+-- ============================================================================
+-- GROCERYHOPPER - Trip Access
+-- ============================================================================
+-- Store layouts learn from shopping trips, so a trip may only be started
+-- on a list the user is a member of, at a store they can see (per the
+-- stores policies in 00025_store_access.sql). POST /api/stores/trips
+-- checks the same up front for a clear error.
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can create own trips" ON public.shopping_trips;
+
+CREATE POLICY "Users can create own trips"
+  ON public.shopping_trips FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.list_shares ls
+      WHERE ls.list_id = shopping_trips.list_id AND ls.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.stores s
+      WHERE s.id = shopping_trips.store_id
+    )
+  );